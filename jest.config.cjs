@@ -0,0 +1,17 @@
+/** @type {import('jest').Config} */
+module.exports = {
+  preset: 'ts-jest',
+  testEnvironment: 'node',
+  roots: ['<rootDir>/src'],
+  testMatch: ['**/__tests__/**/*.test.ts'],
+  // Sources import with ESM .js suffixes; resolve them to the .ts files
+  moduleNameMapper: {
+    '^(\\.{1,2}/.*)\\.js$': '$1',
+  },
+  transform: {
+    '^.+\\.ts$': ['ts-jest', { tsconfig: { module: 'commonjs', allowJs: true } }],
+    // The MCP SDK ships ESM only
+    '^.+/@modelcontextprotocol/sdk/.+\\.js$': ['ts-jest', { tsconfig: { module: 'commonjs', allowJs: true } }],
+  },
+  transformIgnorePatterns: ['/node_modules/(?!@modelcontextprotocol/sdk/)'],
+};
@@ -0,0 +1,48 @@
+import { ApprovalStore, fingerprintArgs } from '../tools/approvals';
+
+describe('Approval tokens', () => {
+  const args = { table: 'incident', fields: { short_description: 'Test', priority: 1 } };
+
+  test('fingerprints ignore key order', () => {
+    expect(fingerprintArgs({ b: 1, a: { y: 2, x: 1 } })).toBe(fingerprintArgs({ a: { x: 1, y: 2 }, b: 1 }));
+  });
+
+  test('tokens are single use', () => {
+    const store = new ApprovalStore(60000);
+    const token = store.issue('create-record', 'prod', args);
+
+    expect(store.consume(token, 'create-record', 'prod', { fields: { priority: 1, short_description: 'Test' }, table: 'incident' })).toBe(true);
+    expect(store.consume(token, 'create-record', 'prod', args)).toBe(false);
+  });
+
+  test('tokens only approve the call they were issued for', () => {
+    const store = new ApprovalStore(60000);
+    const token = store.issue('create-record', 'prod', args);
+
+    expect(store.consume(token, 'create-record', 'dev', args)).toBe(false);
+    expect(store.consume(token, 'update-record', 'prod', args)).toBe(false);
+    expect(store.consume(token, 'create-record', 'prod', { ...args, table: 'problem' })).toBe(false);
+    expect(store.consume(token, 'create-record', 'prod', args)).toBe(true);
+  });
+
+  test('tokens expire', () => {
+    const store = new ApprovalStore(1000);
+    const token = store.issue('create-record', 'prod', args, 0);
+
+    expect(store.consume(token, 'create-record', 'prod', args, 1001)).toBe(false);
+  });
+
+  test('expired tokens are dropped when a token is issued or checked', () => {
+    const store = new ApprovalStore(1000);
+    store.issue('delete-record', 'prod', args, 0);
+    const later = store.issue('delete-record', 'prod', args, 500);
+    expect(store.size).toBe(2);
+
+    expect(store.consume('unknown', 'delete-record', 'prod', args, 1200)).toBe(false);
+    expect(store.size).toBe(1);
+
+    store.issue('delete-record', 'prod', args, 1600);
+    expect(store.size).toBe(1);
+    expect(store.consume(later, 'delete-record', 'prod', args, 1600)).toBe(false);
+  });
+});
@@ -0,0 +1,57 @@
+import { mkdtempSync, readdirSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { AuditEntry, AuditLog, parseAuditDate } from '../utils/audit-log';
+import { redactSecrets } from '../utils/redaction';
+
+function entry(overrides: Partial<AuditEntry> = {}): Omit<AuditEntry, 'id'> {
+  return {
+    timestamp: '2024-03-31T12:00:00.000Z', session: 's1', correlation_id: 'c1', instance: 'dev', tool: 'create-record',
+    arguments: {}, status: 'success', duration_ms: 5, records: [], ...overrides,
+  };
+}
+
+describe('Audit log', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('redacts secret-looking keys at any depth', () => {
+    expect(redactSecrets({ table: 'sys_user', fields: { user_password: 'hunter2', name: 'Ann' }, auth: [{ clientSecret: 'x' }] }))
+      .toEqual({ table: 'sys_user', fields: { user_password: '[REDACTED]', name: 'Ann' }, auth: [{ clientSecret: '[REDACTED]' }] });
+  });
+
+  test('rotates by size and reads across rotated files, oldest first', async () => {
+    const log = new AuditLog({ filePath: path.join(dir, 'audit.jsonl'), maxBytes: 400, maxFiles: 2 });
+    for (let index = 0; index < 8; index++) {
+      log.record(entry({ tool: `tool-${index}` }));
+    }
+    await log.flush();
+
+    expect(readdirSync(dir).sort()).toEqual(['audit.1.jsonl', 'audit.2.jsonl', 'audit.jsonl']);
+    const tools = (await log.read()).map((read) => read.tool);
+    // The oldest entries went out with the dropped file
+    expect(tools[tools.length - 1]).toBe('tool-7');
+    expect(tools).not.toContain('tool-0');
+    expect(tools).toEqual([...tools].sort());
+  });
+
+  test('filters by date range, instance and tool', async () => {
+    const log = new AuditLog({ filePath: path.join(dir, 'audit.jsonl'), maxBytes: 1024 * 1024, maxFiles: 1 });
+    log.record(entry({ timestamp: '2024-03-30T23:00:00.000Z' }));
+    log.record(entry({ timestamp: '2024-03-31T23:30:00.000Z' }));
+    log.record(entry({ timestamp: '2024-03-31T08:00:00.000Z', instance: 'prod' }));
+    log.record(entry({ timestamp: '2024-04-01T00:30:00.000Z', tool: 'delete-record' }));
+
+    const march31 = await log.read({ from: parseAuditDate('2024-03-31', 'from'), to: parseAuditDate('2024-03-31', 'to'), instance: 'dev' });
+    expect(march31.map((read) => read.timestamp)).toEqual(['2024-03-31T23:30:00.000Z']);
+    expect(await log.read({ tool: 'delete-record' })).toHaveLength(1);
+    expect(() => parseAuditDate('last week', 'from')).toThrow("Invalid 'from' date");
+  });
+});
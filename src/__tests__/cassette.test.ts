@@ -0,0 +1,96 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ServiceNowApiService } from '../services/servicenow-api';
+import { CassetteOptions } from '../utils/cassette';
+import { FIXTURE_IDS } from '../testing/fixtures';
+import { MockServiceNowInstance } from '../testing/mock-servicenow';
+
+const CASSETTE_DIR = path.join(__dirname, 'cassettes');
+
+function createApi(instanceUrl: string, cassette: CassetteOptions): ServiceNowApiService {
+  return new ServiceNowApiService({
+    instanceUrl,
+    username: 'admin',
+    password: 'super-secret',
+    updateSetPrefix: 'TEST_',
+    defaultScope: 'global',
+    resilience: { maxRetries: 0 },
+    cassette
+  });
+}
+
+describe('Cassette replay', () => {
+  // Nothing listens here; any request that escapes the cassette fails to connect
+  const offlineUrl = 'http://127.0.0.1:9';
+
+  // Replay only matches if the POST body is identical to the recorded one, so a change
+  // in field mapping fails here with a cassette mismatch
+  test('createCatalogUIPolicyAction sends the recorded field mapping', async () => {
+    const api = createApi(offlineUrl, { path: path.join(CASSETTE_DIR, 'create-catalog-ui-policy-action.json'), mode: 'replay' });
+
+    const action = await api.createCatalogUIPolicyAction({
+      catalog_ui_policy: FIXTURE_IDS.laptopPolicy,
+      variable_name: 'business_justification',
+      mandatory: 'true',
+      visible: 'true'
+    });
+
+    expect(action.catalog_variable).toBe(`IO:${FIXTURE_IDS.justificationVariable}`);
+    expect(action.ui_policy.value).toBe(FIXTURE_IDS.laptopPolicy);
+  });
+
+  test('createCatalogUIPolicyAction reports variables missing from the catalog item', async () => {
+    const api = createApi(offlineUrl, { path: path.join(CASSETTE_DIR, 'create-catalog-ui-policy-action.json'), mode: 'replay' });
+    await api.createCatalogUIPolicyAction({
+      catalog_ui_policy: FIXTURE_IDS.laptopPolicy,
+      variable_name: 'business_justification',
+      mandatory: 'true',
+      visible: 'true'
+    });
+
+    await expect(api.createCatalogUIPolicyAction({
+      catalog_ui_policy: FIXTURE_IDS.laptopPolicy,
+      variable_name: 'cost_center'
+    })).rejects.toThrow("Variable 'cost_center' not found");
+  });
+
+  test('requests missing from the cassette fail instead of reaching the network', async () => {
+    const api = createApi(offlineUrl, { path: path.join(CASSETTE_DIR, 'create-catalog-ui-policy-action.json'), mode: 'replay' });
+
+    await expect(api.getRecords('incident', 'active=true')).rejects.toThrow('No unused interaction in cassette');
+  });
+});
+
+describe('Cassette recording', () => {
+  let mock: MockServiceNowInstance;
+  let directory: string;
+
+  beforeEach(async () => {
+    mock = new MockServiceNowInstance({ username: 'admin', password: 'super-secret' });
+    await mock.start();
+    directory = mkdtempSync(path.join(os.tmpdir(), 'cassette-'));
+  });
+
+  afterEach(async () => {
+    await mock.stop();
+    rmSync(directory, { recursive: true, force: true });
+  });
+
+  test('records without credentials or the instance URL and replays offline', async () => {
+    const cassettePath = path.join(directory, 'users.json');
+    const recorder = createApi(mock.url, { path: cassettePath, mode: 'record' });
+    const recorded = await recorder.getRecords('sys_user', 'active=true', { fields: ['user_name', 'name'] });
+    await expect(recorder.getRecord('sys_user', 'missing')).rejects.toThrow();
+    await mock.stop();
+
+    const cassette = readFileSync(cassettePath, 'utf8');
+    expect(cassette).not.toContain('super-secret');
+    expect(cassette).not.toContain('Authorization');
+    expect(cassette).not.toContain(mock.url);
+
+    const player = createApi('https://other.service-now.com', { path: cassettePath, mode: 'replay' });
+    await expect(player.getRecords('sys_user', 'active=true', { fields: ['user_name', 'name'] })).resolves.toEqual(recorded);
+    await expect(player.getRecord('sys_user', 'missing')).rejects.toThrow('No Record found');
+  });
+});
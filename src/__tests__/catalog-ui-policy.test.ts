@@ -1,8 +1,5 @@
 import { ServiceNowApiService } from '../services/servicenow-api';
 
-// Mock the ServiceNow API calls for testing
-jest.mock('../services/servicenow-api');
-
 describe('Catalog UI Policy Field Mapping', () => {
   let mockApiService: jest.Mocked<ServiceNowApiService>;
 
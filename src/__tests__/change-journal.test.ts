@@ -0,0 +1,52 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { ChangeJournal, flattenRecord } from '../utils/change-journal';
+
+describe('Change journal', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'journal-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('appends changes and undos to the file in order', async () => {
+    const filePath = path.join(dir, 'nested', 'changes.jsonl');
+    const journal = new ChangeJournal(filePath);
+
+    const created = journal.record({
+      tool: 'create-record', instance: 'dev', operation: 'create', table: 'incident', sys_id: 'a1', fields: ['short_description'],
+      after: { sys_id: 'a1', short_description: 'Email down' },
+    });
+    journal.record({
+      tool: 'update-record', instance: 'dev', operation: 'update', table: 'incident', sys_id: 'a1', fields: ['priority'],
+      before: { sys_id: 'a1', priority: '3' }, after: { sys_id: 'a1', priority: '1' },
+    });
+    journal.markUndone(created);
+    await journal.flush();
+
+    const lines = readFileSync(filePath, 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+    expect(lines.map((line) => line.type === 'undo' ? `undo ${line.change}` : line.operation)).toEqual(['create', 'update', `undo ${created.id}`]);
+    expect(lines[1]).toMatchObject({ session: journal.session, tool: 'update-record', before: { priority: '3' } });
+  });
+
+  test('lists outstanding changes per instance', () => {
+    const journal = new ChangeJournal('');
+    const first = journal.record({ tool: 't', instance: 'dev', operation: 'create', table: 'x', sys_id: '1', fields: [] });
+    journal.record({ tool: 't', instance: 'test', operation: 'create', table: 'x', sys_id: '2', fields: [] });
+    const third = journal.record({ tool: 't', instance: 'dev', operation: 'create', table: 'x', sys_id: '3', fields: [] });
+
+    journal.markUndone(first);
+
+    expect(journal.changes('dev')).toEqual([third]);
+  });
+
+  test('keeps raw values of reference fields', () => {
+    expect(flattenRecord({ sys_id: '1', caller_id: { value: 'u1', link: 'https://x/api/now/table/sys_user/u1' }, active: true }))
+      .toEqual({ sys_id: '1', caller_id: 'u1', active: 'true' });
+  });
+});
@@ -0,0 +1,31 @@
+import { choiceValue, formatChoices, normalizeChoices } from '../utils/choices';
+
+describe('Choice lists', () => {
+  test('derives stored values from labels', () => {
+    expect(choiceValue('Very High')).toBe('very_high');
+    expect(choiceValue(' 3 - Moderate ')).toBe('3_moderate');
+  });
+
+  test('parses comma-separated labels and value=label pairs', () => {
+    expect(normalizeChoices('Low, Very High')).toEqual([
+      { value: 'low', label: 'Low', sequence: 10, dependent_value: undefined, language: 'en', inactive: false },
+      { value: 'very_high', label: 'Very High', sequence: 20, dependent_value: undefined, language: 'en', inactive: false },
+    ]);
+    expect(normalizeChoices('1=Critical,2=High').map((choice) => [choice.value, choice.label])).toEqual([['1', 'Critical'], ['2', 'High']]);
+  });
+
+  test('keeps structured entries as given', () => {
+    const [choice] = normalizeChoices([{ value: 'hw', label: 'Hardware', sequence: 5, dependent_value: 'it', language: 'de' }]);
+
+    expect(choice).toEqual({ value: 'hw', label: 'Hardware', sequence: 5, dependent_value: 'it', language: 'de', inactive: false });
+    expect(formatChoices([choice, { value: 'sw', label: 'sw' }])).toBe('hw=Hardware, sw');
+  });
+
+  test('rejects duplicate values within a language and dependent value', () => {
+    expect(() => normalizeChoices('High,high')).toThrow("Duplicate choice value 'high'");
+    expect(() => normalizeChoices([
+      { value: 'x', label: 'X', dependent_value: 'a' },
+      { value: 'x', label: 'X', dependent_value: 'b' },
+    ])).not.toThrow();
+  });
+});
@@ -0,0 +1,90 @@
+import { EncodedQuery, EncodedQueryError, parseEncodedQuery } from '../utils/encoded-query';
+
+describe('EncodedQuery', () => {
+  test('builds AND, OR, NQ and ORDERBY clauses', () => {
+    const query = EncodedQuery.where('active', '=', true)
+      .and('priority', '=', 1)
+      .or('priority', '=', 2)
+      .newQuery()
+      .and('assigned_to', 'ISEMPTY')
+      .orderBy('number', 'desc');
+
+    expect(query.toString()).toBe('active=true^priority=1^ORpriority=2^NQassigned_toISEMPTY^ORDERBYDESCnumber');
+  });
+
+  test('escapes carets so a value cannot add its own conditions', () => {
+    const query = EncodedQuery.where('cat_item', '=', 'abc').and('name', '=', 'x^active=false');
+
+    expect(query.toString()).toBe('cat_item=abc^name=x^^active=false');
+    expect(parseEncodedQuery(query.toString()).groups[0].clauses).toHaveLength(2);
+  });
+
+  test('refuses script values and invalid field names', () => {
+    expect(() => EncodedQuery.where('name', '=', 'javascript:gs.getUserID()')).toThrow(EncodedQueryError);
+    expect(() => EncodedQuery.where('name=x^active', '=', 'true')).toThrow(EncodedQueryError);
+    expect(() => EncodedQuery.where('state', 'IN', ['1', '2,3'])).toThrow(EncodedQueryError);
+  });
+
+  test('joins list values and generates date macros', () => {
+    const query = EncodedQuery.where('state', 'IN', [1, 2])
+      .onDate('sys_created_on', 'Today')
+      .since('sys_updated_on', 3, 'hour');
+
+    expect(query.toString()).toBe(
+      'stateIN1,2' +
+      '^sys_created_onONToday@javascript:gs.beginningOfToday()@javascript:gs.endOfToday()' +
+      '^sys_updated_onRELATIVEGT@hour@ago@3'
+    );
+  });
+
+  test('parses queries into an AST and back', () => {
+    const encoded = 'active=true^short_descriptionLIKEdisk^ORpriority<=2^NQnameSTARTSWITHMCP_^ORDERBYnumber^ORDERBYDESCsys_created_on';
+    const ast = parseEncodedQuery(encoded);
+
+    expect(ast.groups).toHaveLength(2);
+    expect(ast.groups[0].clauses[1].conditions).toEqual([
+      { field: 'short_description', operator: 'LIKE', value: 'disk' },
+      { field: 'priority', operator: '<=', value: '2' },
+    ]);
+    expect(ast.orderBy).toEqual([
+      { field: 'number', direction: 'asc' },
+      { field: 'sys_created_on', direction: 'desc' },
+    ]);
+    expect(EncodedQuery.parse(encoded).toString()).toBe(encoded);
+  });
+
+  test('describes queries for display', () => {
+    const query = EncodedQuery.parse('active=true^priority=1^ORpriority=2^ORDERBYDESCnumber');
+
+    expect(query.describe()).toBe('active is true AND (priority is 1 OR priority is 2), ordered by number (descending)');
+    expect(EncodedQuery.create().describe()).toBe('all records');
+  });
+
+  test('parses text searches and related list queries', () => {
+    const text = '123TEXTQUERY321=foo';
+    expect(parseEncodedQuery(text).groups[0].clauses).toEqual([{ conditions: [], textSearch: 'foo' }]);
+    expect(EncodedQuery.parse(text).toString()).toBe(text);
+
+    const related = 'active=true^RLQUERYsys_user_has_role.user,>0^role=admin^ENDRLQUERY';
+    const [, clause] = parseEncodedQuery(related).groups[0].clauses;
+    expect(clause.relatedList).toEqual({
+      table: 'sys_user_has_role',
+      field: 'user',
+      operator: '>',
+      count: 0,
+      m2m: false,
+      clauses: [{ conditions: [{ field: 'role', operator: '=', value: 'admin' }] }],
+    });
+    expect(EncodedQuery.parse(related).orderBy('name').toString()).toBe(`${related}^ORDERBYname`);
+    expect(EncodedQuery.parse(related).describe())
+      .toBe('active is true AND (sys_user_has_role records by user where role is admin) count > 0');
+
+    const m2m = 'RLQUERYsys_user_grmember.user,>=1,m2m^group.name=Network^ENDRLQUERY^NQ123TEXTQUERY321=printer';
+    expect(EncodedQuery.parse(m2m).toString()).toBe(m2m);
+    expect(() => parseEncodedQuery('RLQUERYsys_user_has_role.user,>0^role=admin')).toThrow('has no ENDRLQUERY');
+  });
+
+  test('rejects terms without an operator', () => {
+    expect(() => parseEncodedQuery('active=true^garbage')).toThrow("Cannot parse query condition 'garbage'");
+  });
+});
@@ -0,0 +1,111 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import http from 'http';
+import os from 'os';
+import path from 'path';
+import { startTestHttpServer, TEST_AUTH_TOKEN, TestHttpServer } from '../testing/harness';
+
+function get(url: string, headers: Record<string, string> = {}): Promise<{ status: number; body: string }> {
+  return new Promise((resolve, reject) => {
+    http.get(url, { headers }, (res) => {
+      let body = '';
+      res.setEncoding('utf8');
+      res.on('data', (chunk: string) => body += chunk);
+      res.on('end', () => resolve({ status: res.statusCode ?? 0, body }));
+    }).on('error', reject);
+  });
+}
+
+describe('HTTP transport against the mock instance', () => {
+  let harness: TestHttpServer;
+
+  beforeEach(async () => {
+    harness = await startTestHttpServer();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  test('serves a health endpoint without credentials', async () => {
+    const { status, body } = await get(`${harness.url}/health`);
+
+    expect(status).toBe(200);
+    expect(JSON.parse(body)).toMatchObject({ status: 'ok', sessions: 0 });
+  });
+
+  test('rejects clients without a valid bearer token', async () => {
+    expect((await get(`${harness.url}/sse`)).status).toBe(401);
+    expect((await get(`${harness.url}/sse`, { Authorization: 'Bearer wrong' })).status).toBe(401);
+    await expect(harness.connect('wrong')).rejects.toThrow('HTTP 401');
+  });
+
+  test('keeps the update set and scope per connection', async () => {
+    const alice = await harness.connect(TEST_AUTH_TOKEN, 'alice');
+    const bob = await harness.connect(TEST_AUTH_TOKEN, 'bob');
+    expect(harness.server.sessionCount).toBe(2);
+
+    await alice.callTool('create-update-set', { name: 'Alice work', description: 'Alice only' });
+    const [updateSet] = harness.mock.find('sys_update_set', 'nameLIKEAlice work');
+    await alice.callTool('set-current-update-set', { update_set_id: updateSet.sys_id });
+
+    expect((await alice.callTool('get-current-update-set')).text).toContain('Name: MCP_Alice work');
+    expect((await bob.callTool('get-current-update-set')).text).toContain('No update set is currently tracked');
+
+    await bob.callTool('create-record', { table: 'incident', fields: { short_description: 'From bob' } });
+    const [incident] = harness.mock.find('incident', 'short_description=From bob');
+    expect(incident.sys_update_set).toBeFalsy();
+
+    await alice.callTool('set-application-scope', { scope: 'x_alice' });
+    await bob.callTool('create-update-set', { name: 'Bob work', description: 'Bob only' });
+    expect(harness.mock.find('sys_update_set', 'nameLIKEBob work')[0].application).toBe('global');
+
+    await bob.close();
+    await new Promise((resolve) => setTimeout(resolve, 50));
+    expect(harness.server.sessionCount).toBe(1);
+  });
+
+  test('shares one instance client between connections', async () => {
+    const alice = await harness.connect(TEST_AUTH_TOKEN, 'alice');
+    const bob = await harness.connect(TEST_AUTH_TOKEN, 'bob');
+
+    expect((await bob.callTool('list-instances')).text).toContain('Connected: no');
+    await alice.callTool('test-connection');
+    expect((await bob.callTool('list-instances')).text).toContain('Connected: yes');
+  });
+});
+
+describe('HTTP principals against the mock instance', () => {
+  test('records who made each call in the audit log and change journal', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'principals-'));
+    const harness = await startTestHttpServer({}, {
+      MCP_AUTH_TOKENS: 'alice:alice-token,bob:bob:token',
+      AUDIT_LOG_FILE: path.join(dir, 'audit.jsonl'),
+      SERVICENOW_JOURNAL_FILE: path.join(dir, 'journal.jsonl'),
+    });
+    try {
+      const alice = await harness.connect('alice-token', 'alice');
+      const bob = await harness.connect('bob:token', 'bob');
+      await expect(harness.connect(TEST_AUTH_TOKEN)).rejects.toThrow('HTTP 401');
+
+      await alice.callTool('create-record', { table: 'incident', fields: { short_description: 'From alice' } });
+      await bob.callTool('create-record', { table: 'incident', fields: { short_description: 'From bob' } });
+      expect((await bob.callTool('get-session')).text).toContain('Principal: bob');
+    } finally {
+      await harness.close();
+    }
+
+    try {
+      const read = (file: string) => readFileSync(path.join(dir, file), 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+      const audited = read('audit.jsonl').filter((entry) => entry.tool === 'create-record');
+      expect(audited.map((entry) => [entry.principal, entry.arguments.fields.short_description]))
+        .toEqual([['alice', 'From alice'], ['bob', 'From bob']]);
+      expect(audited[0].user).toBe('admin');
+
+      const journaled = read('journal.jsonl');
+      expect(journaled.map((entry) => [entry.principal, entry.after.short_description]))
+        .toEqual([['alice', 'From alice'], ['bob', 'From bob']]);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
@@ -0,0 +1,55 @@
+import { parseInstanceProfiles } from '../utils/instance-profiles';
+
+describe('Instance profiles', () => {
+  const defaults = { defaultScope: 'global', updateSetPrefix: 'MCP_', mode: 'full' as const };
+
+  afterEach(() => {
+    delete process.env.TEST_PROD_SECRET;
+  });
+
+  test('reads profiles, interpolates secrets and applies defaults', () => {
+    process.env.TEST_PROD_SECRET = 's3cret';
+    const { profiles, defaultInstance } = parseInstanceProfiles(JSON.stringify({
+      default: 'prod',
+      instances: {
+        dev: { url: 'https://dev.service-now.com/', username: 'admin', password: 'pw', update_set_prefix: 'DEV_' },
+        prod: {
+          url: 'https://prod.service-now.com',
+          auth_type: 'oauth2',
+          client_id: 'client',
+          client_secret: '${TEST_PROD_SECRET}',
+          mode: 'read-only'
+        }
+      }
+    }), 'instances.json', defaults);
+
+    expect(defaultInstance).toBe('prod');
+    expect(profiles.dev).toMatchObject({ instanceUrl: 'https://dev.service-now.com', updateSetPrefix: 'DEV_', defaultScope: 'global', mode: 'full' });
+    expect(profiles.prod).toMatchObject({ authType: 'oauth2', clientSecret: 's3cret', mode: 'read-only' });
+  });
+
+  test('defaults to the first instance', () => {
+    const { defaultInstance } = parseInstanceProfiles(JSON.stringify({
+      instances: { dev: { url: 'https://dev.service-now.com', username: 'admin', password: 'pw' } }
+    }), 'instances.json', defaults);
+
+    expect(defaultInstance).toBe('dev');
+  });
+
+  test('reports missing credentials and environment variables', () => {
+    expect(() => parseInstanceProfiles(JSON.stringify({
+      instances: { dev: { url: 'https://dev.service-now.com', username: 'admin' } }
+    }), 'instances.json', defaults)).toThrow("instances.json (instance 'dev'): username and password are required for basic auth");
+
+    expect(() => parseInstanceProfiles(JSON.stringify({
+      instances: { dev: { url: 'https://dev.service-now.com', username: 'admin', password: '${TEST_PROD_SECRET}' } }
+    }), 'instances.json', defaults)).toThrow('${TEST_PROD_SECRET}');
+  });
+
+  test('rejects an unknown default instance', () => {
+    expect(() => parseInstanceProfiles(JSON.stringify({
+      default: 'test',
+      instances: { dev: { url: 'https://dev.service-now.com', username: 'admin', password: 'pw' } }
+    }), 'instances.json', defaults)).toThrow("default instance 'test' is not defined");
+  });
+});
@@ -0,0 +1,58 @@
+import { existsSync, mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { createLogger, withCorrelationId } from '../utils/logger';
+import { redactForLog } from '../utils/redaction';
+
+// The file transport writes asynchronously
+async function readLines(filePath: string, count: number): Promise<any[]> {
+  for (let attempt = 0; attempt < 50; attempt++) {
+    const lines = existsSync(filePath) ? readFileSync(filePath, 'utf8').trim().split('\n').filter(Boolean) : [];
+    if (lines.length >= count) {
+      return lines.map((line) => JSON.parse(line));
+    }
+    await new Promise((resolve) => setTimeout(resolve, 20));
+  }
+  throw new Error(`Expected ${count} log lines in ${filePath}`);
+}
+
+describe('Logger', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'logger-'));
+  });
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('writes JSON lines tagged with the correlation ID and service', async () => {
+    const file = path.join(dir, 'server.log');
+    const logger = createLogger({ level: 'debug', format: 'json', file, maxBytes: 1024 * 1024, maxFiles: 2 });
+
+    withCorrelationId('call-1', () => logger.child({ service: 'servicenow-api' }).debug('API Request', { url: '/api/now/table/incident' }));
+    logger.info('Outside a call');
+
+    const [request, outside] = await readLines(file, 2);
+    expect(request).toMatchObject({ level: 'debug', message: 'API Request', correlation_id: 'call-1', service: 'servicenow-api' });
+    expect(request.timestamp).toEqual(expect.any(String));
+    expect(outside.correlation_id).toBeUndefined();
+  });
+
+  test('redacts secrets and script bodies in metadata', async () => {
+    const file = path.join(dir, 'server.log');
+    const logger = createLogger({ level: 'info', format: 'text', file, maxBytes: 1024 * 1024, maxFiles: 2 });
+
+    logger.info('API Request', { headers: { Authorization: 'Basic YWRtaW4=' }, data: { name: 'Rule', script: 'gs.info(1);', client_secret: 'x' } });
+
+    const [entry] = await readLines(file, 1);
+    expect(entry.headers.Authorization).toBe('[REDACTED]');
+    expect(entry.data).toEqual({ name: 'Rule', script: '[script, 11 chars]', client_secret: '[REDACTED]' });
+  });
+
+  test('leaves non-script fields that mention scripts alone', () => {
+    expect(redactForLog({ description: 'script', scripted: 'y', condition_script: 'a' }))
+      .toEqual({ description: 'script', scripted: 'y', condition_script: '[script, 1 chars]' });
+  });
+});
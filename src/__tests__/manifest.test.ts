@@ -0,0 +1,98 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { artifactDependencies, parseManifest, resolveReferences } from '../utils/manifest';
+
+const PRODUCER_MANIFEST = `
+name: demo
+artifacts:
+  - id: variable
+    table: item_option_new
+    fields: { cat_item: "\${producer}", name: supplier, question_text: Supplier }
+  - id: producer
+    table: sc_cat_item_producer
+    fields: { name: Demo, table_name: incident }
+  - id: group
+    table: sys_user_group
+    fields: { name: Demo group }
+`;
+
+describe('Solution manifests', () => {
+  test('orders artifacts after the artifacts they reference', () => {
+    const manifest = parseManifest(PRODUCER_MANIFEST);
+
+    expect(manifest.artifacts.map((artifact) => artifact.id)).toEqual(['producer', 'variable', 'group']);
+    expect(manifest.description).toBe('');
+    expect(artifactDependencies(manifest.artifacts[1])).toEqual(['producer']);
+  });
+
+  test('accepts JSON and explicit depends_on', () => {
+    const manifest = parseManifest(JSON.stringify({
+      name: 'json',
+      artifacts: [
+        { id: 'b', table: 'sys_user_group', depends_on: ['a'], fields: { name: 'B' } },
+        { id: 'a', table: 'sys_user_group', fields: { name: 'A' } },
+      ],
+    }));
+
+    expect(manifest.artifacts.map((artifact) => artifact.id)).toEqual(['a', 'b']);
+  });
+
+  test('substitutes sys_ids for references, including inside longer values', () => {
+    const fields = resolveReferences(
+      { cat_item: '${producer}', catalog_conditions: 'IO:${variable}=true^EQ', order: 100 },
+      new Map([['producer', 'p1'], ['variable', 'v1']])
+    );
+
+    expect(fields).toEqual({ cat_item: 'p1', catalog_conditions: 'IO:v1=true^EQ', order: 100 });
+    expect(() => resolveReferences({ cat_item: '${producer}' }, new Map())).toThrow("Reference to 'producer' is not resolved yet");
+  });
+
+  test('rejects cycles, unknown references and artifacts that cannot be matched', () => {
+    expect(() => parseManifest(`
+name: cycle
+artifacts:
+  - { id: a, table: sys_user_group, depends_on: [b], fields: { name: A } }
+  - { id: b, table: sys_user_group, depends_on: [a], fields: { name: B } }
+`)).toThrow('Circular dependency between artifacts: a → b → a');
+
+    expect(() => parseManifest(`
+name: unknown
+artifacts:
+  - { id: a, table: item_option_new, fields: { cat_item: "\${missing}", name: x } }
+`)).toThrow("Artifact 'a' refers to unknown artifact(s): missing");
+
+    expect(() => parseManifest(`
+name: keyless
+artifacts:
+  - { id: a, table: u_custom, fields: { u_name: A } }
+`)).toThrow("table 'u_custom' has no natural key");
+
+    expect(() => parseManifest(`
+name: missing-key
+artifacts:
+  - { id: a, table: sys_dictionary, fields: { name: incident } }
+`)).toThrow("Artifact 'a' is missing key field(s) element");
+
+    expect(() => parseManifest(`
+name: dup
+artifacts:
+  - { id: a, table: sys_user_group, fields: { name: A } }
+  - { id: a, table: sys_user_group, fields: { name: B } }
+`)).toThrow("Duplicate artifact id 'a'");
+  });
+
+  test('reports schema problems with their path', () => {
+    expect(() => parseManifest('name: bad\nartifacts:\n  - { id: a, fields: { name: A } }')).toThrow('artifacts.0.table: Required');
+    expect(() => parseManifest('name: [unclosed')).toThrow('Manifest is not valid YAML or JSON');
+  });
+
+  test('the shipped invoice status inquiry manifest is valid', () => {
+    const source = readFileSync(path.join(__dirname, '../../manifests/invoice-status-inquiry.yaml'), 'utf8');
+    const manifest = parseManifest(source);
+    const ids = manifest.artifacts.map((artifact) => artifact.id);
+
+    expect(ids.indexOf('producer')).toBeLessThan(ids.indexOf('var_supplier'));
+    expect(ids.indexOf('var_urgency_level')).toBeLessThan(ids.indexOf('var_urgency_low'));
+    expect(ids.indexOf('policy_critical_urgency')).toBeLessThan(ids.indexOf('policy_critical_urgency_comments'));
+  });
+});
@@ -0,0 +1,121 @@
+import { ServiceNowApiService } from '../services/servicenow-api';
+import { MockOAuthOptions, MockServiceNowInstance } from '../testing/mock-servicenow';
+import { ServiceNowConfig } from '../types/servicenow';
+
+const OAUTH: MockOAuthOptions = { clientId: 'mcp-client', clientSecret: 'client-secret' };
+
+describe('OAuth 2.0 against the mock instance', () => {
+  let mock: MockServiceNowInstance;
+
+  async function startMock(oauth: Partial<MockOAuthOptions> = {}): Promise<string> {
+    mock = new MockServiceNowInstance({ username: 'admin', password: 'admin', oauth: { ...OAUTH, ...oauth } });
+    return mock.start();
+  }
+
+  function createApi(instanceUrl: string, overrides: Partial<ServiceNowConfig> = {}): ServiceNowApiService {
+    return new ServiceNowApiService({
+      instanceUrl,
+      authType: 'oauth2',
+      username: 'admin',
+      password: 'admin',
+      clientId: OAUTH.clientId,
+      clientSecret: OAUTH.clientSecret,
+      updateSetPrefix: 'TEST_',
+      defaultScope: 'global',
+      resilience: { maxRetries: 0 },
+      ...overrides
+    });
+  }
+
+  // grant_type of every token request so far, in order
+  function grants(): string[] {
+    return mock.requests.filter((request) => request.path === '/oauth_token.do').map((request) => request.body.grant_type);
+  }
+
+  function tableRequests(): number {
+    return mock.requests.filter((request) => request.path.startsWith('/api/now/table/')).length;
+  }
+
+  afterEach(async () => {
+    await mock.stop();
+  });
+
+  test('uses the password grant when user credentials are configured', async () => {
+    const api = createApi(await startMock());
+
+    await api.authenticate();
+    const users = await api.getRecords('sys_user');
+
+    expect(users.length).toBeGreaterThan(0);
+    expect(grants()).toEqual(['password']);
+    expect(mock.requests[0].body).toMatchObject({ client_id: 'mcp-client', username: 'admin' });
+  });
+
+  test('uses the client_credentials grant without user credentials', async () => {
+    const url = await startMock();
+
+    await createApi(url, { username: undefined, password: undefined }).getRecords('sys_user');
+    expect(grants()).toEqual(['client_credentials']);
+
+    await expect(createApi(url, { username: undefined, password: undefined, clientSecret: 'wrong' }).authenticate())
+      .rejects.toThrow('OAuth token request failed (client_credentials, HTTP 401)');
+  });
+
+  test('exchanges the refresh token once the access token is about to expire', async () => {
+    // Shorter than the refresh margin, so every call needs a new token
+    const api = createApi(await startMock({ expiresInSeconds: 30 }));
+
+    await api.getRecords('sys_user');
+    await api.getRecords('sys_user');
+    await api.getRecords('sys_user');
+
+    expect(grants()).toEqual(['password', 'refresh_token', 'refresh_token']);
+    expect(mock.requests[2].body.refresh_token).toBeTruthy();
+  });
+
+  test('refreshes and replays a request once after a 401', async () => {
+    const api = createApi(await startMock());
+    await api.authenticate();
+
+    mock.revokeOAuthTokens(true);
+    const users = await api.getRecords('sys_user');
+
+    expect(users.length).toBeGreaterThan(0);
+    expect(grants()).toEqual(['password', 'refresh_token']);
+    expect(tableRequests()).toBe(2);
+  });
+
+  test('does not replay a second time when the new token is refused too', async () => {
+    const api = createApi(await startMock());
+    await api.authenticate();
+
+    mock.rejectAccessTokens();
+
+    await expect(api.getRecords('sys_user')).rejects.toThrow('User Not Authenticated');
+    expect(grants()).toEqual(['password', 'refresh_token']);
+    expect(tableRequests()).toBe(2);
+  });
+
+  test('falls back to the original grant when the refresh token is rejected', async () => {
+    const api = createApi(await startMock());
+    await api.authenticate();
+
+    mock.revokeOAuthTokens();
+    await api.getRecords('sys_user');
+
+    expect(grants()).toEqual(['password', 'refresh_token', 'password']);
+    expect(tableRequests()).toBe(2);
+  });
+
+  test('surfaces the token error without replaying again when no new token can be obtained', async () => {
+    const api = createApi(await startMock());
+    await api.authenticate();
+
+    mock.revokeOAuthTokens();
+    mock.rejectTokenRequests();
+
+    await expect(api.getRecords('sys_user')).rejects.toThrow('OAuth token request failed (password, HTTP 401)');
+    expect(grants()).toEqual(['password', 'refresh_token', 'password']);
+    expect(tableRequests()).toBe(1);
+  });
+});
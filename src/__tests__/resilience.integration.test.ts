@@ -0,0 +1,110 @@
+import { ServiceNowApiService } from '../services/servicenow-api';
+import { MockServiceNowInstance } from '../testing/mock-servicenow';
+import { ResilienceOptions } from '../utils/resilience';
+import { InstanceUnavailableError, ServiceNowTransientError } from '../utils/servicenow-errors';
+
+describe('Retries and circuit breaking against the mock instance', () => {
+  let mock: MockServiceNowInstance;
+  let instanceUrl: string;
+
+  beforeEach(async () => {
+    mock = new MockServiceNowInstance({ username: 'admin', password: 'admin' });
+    instanceUrl = await mock.start();
+  });
+
+  afterEach(async () => {
+    await mock.stop();
+  });
+
+  function createApi(resilience: Partial<ResilienceOptions> = {}): ServiceNowApiService {
+    return new ServiceNowApiService({
+      instanceUrl,
+      username: 'admin',
+      password: 'admin',
+      updateSetPrefix: 'TEST_',
+      defaultScope: 'global',
+      resilience: { maxRetries: 2, baseDelayMs: 0, maxDelayMs: 2000, circuitBreakerThreshold: 100, ...resilience }
+    });
+  }
+
+  function requestsTo(table: string): number {
+    return mock.requests.filter((request) => request.path.startsWith(`/api/now/table/${table}`)).length;
+  }
+
+  test('retries transient failures of idempotent requests', async () => {
+    mock.failNext('GET', 'incident', 503, { times: 2 });
+
+    await expect(createApi().getRecords('incident')).resolves.toEqual([]);
+    expect(requestsTo('incident')).toBe(3);
+  });
+
+  test('gives up once the retries are used', async () => {
+    mock.failNext('GET', 'incident', 502, { times: 3 });
+
+    await expect(createApi().getRecords('incident')).rejects.toThrow(ServiceNowTransientError);
+    expect(requestsTo('incident')).toBe(3);
+  });
+
+  test('retries throttled POSTs but not POSTs that failed on the server', async () => {
+    const api = createApi();
+
+    mock.failNext('POST', 'incident', 429, { retryAfter: '0' });
+    await api.createRecord('incident', { short_description: 'Throttled once' });
+    expect(requestsTo('incident')).toBe(2);
+    expect(mock.records('incident')).toHaveLength(1);
+
+    mock.failNext('POST', 'incident', 503);
+    await expect(api.createRecord('incident', { short_description: 'Maybe created' })).rejects.toThrow('HTTP 503');
+    expect(requestsTo('incident')).toBe(3);
+  });
+
+  test('waits as long as Retry-After asks, up to the maximum delay', async () => {
+    const api = createApi();
+
+    mock.failNext('GET', 'incident', 429, { retryAfter: '1' });
+    const startedAt = Date.now();
+    await api.getRecords('incident');
+    expect(Date.now() - startedAt).toBeGreaterThanOrEqual(950);
+    expect(requestsTo('incident')).toBe(2);
+
+    mock.failNext('GET', 'incident', 429, { retryAfter: '60' });
+    await expect(api.getRecords('incident')).rejects.toThrow('HTTP 429');
+    expect(requestsTo('incident')).toBe(3);
+  });
+
+  test('releases the concurrency slot of a failed request', async () => {
+    const api = createApi({ maxConcurrency: 1, maxRetries: 0 });
+
+    mock.failNext('GET', 'incident', 503);
+    await expect(api.getRecords('incident')).rejects.toThrow('HTTP 503');
+    await expect(api.getRecords('incident')).resolves.toEqual([]);
+  });
+
+  test('opens the circuit and closes it again through a single half-open trial', async () => {
+    const api = createApi({ maxRetries: 0, circuitBreakerThreshold: 2, circuitBreakerResetMs: 200 });
+    const waitForReset = () => new Promise((resolve) => setTimeout(resolve, 250));
+
+    mock.failNext('GET', 'incident', 503, { times: 2 });
+    await expect(api.getRecords('incident')).rejects.toThrow('HTTP 503');
+    await expect(api.getRecords('incident')).rejects.toThrow('HTTP 503');
+
+    await expect(api.getRecords('incident')).rejects.toThrow(InstanceUnavailableError);
+    expect(requestsTo('incident')).toBe(2);
+
+    // A failed trial re-opens the circuit
+    await waitForReset();
+    mock.failNext('GET', 'incident', 503);
+    await expect(api.getRecords('incident')).rejects.toThrow('HTTP 503');
+    await expect(api.getRecords('incident')).rejects.toThrow(InstanceUnavailableError);
+    expect(requestsTo('incident')).toBe(3);
+
+    // Only one of two concurrent calls is let through as the trial
+    await waitForReset();
+    const results = await Promise.allSettled([api.getRecords('incident'), api.getRecords('incident')]);
+    expect(results.map((result) => result.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find((result) => result.status === 'rejected')).toMatchObject({ reason: expect.any(InstanceUnavailableError) });
+    expect(requestsTo('incident')).toBe(4);
+
+    await expect(api.getRecords('incident')).resolves.toEqual([]);
+  });
+});
@@ -0,0 +1,97 @@
+import {
+  CircuitBreaker,
+  ConcurrencyLimiter,
+  computeBackoffDelay,
+  isRetryable,
+  parseRetryAfter
+} from '../utils/resilience';
+import { InstanceUnavailableError } from '../utils/servicenow-errors';
+
+describe('HTTP resilience helpers', () => {
+  test('retries idempotent methods on transient failures only', () => {
+    expect(isRetryable('get', 503)).toBe(true);
+    expect(isRetryable('put', 502)).toBe(true);
+    expect(isRetryable('get', undefined)).toBe(true);
+    expect(isRetryable('get', 404)).toBe(false);
+    expect(isRetryable('post', 503)).toBe(false);
+    expect(isRetryable('post', undefined)).toBe(false);
+  });
+
+  test('retries throttled requests regardless of method', () => {
+    expect(isRetryable('post', 429)).toBe(true);
+  });
+
+  test('parses Retry-After as seconds or HTTP date', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+    expect(parseRetryAfter('5', now)).toBe(5000);
+    expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:10 GMT', now)).toBe(10000);
+    expect(parseRetryAfter(undefined, now)).toBeUndefined();
+    expect(parseRetryAfter('soon', now)).toBeUndefined();
+  });
+
+  test('backs off exponentially with jitter up to the maximum delay', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+    const max = () => 0.999999;
+
+    expect(computeBackoffDelay(0, options, undefined, max)).toBe(99);
+    expect(computeBackoffDelay(2, options, undefined, max)).toBe(399);
+    expect(computeBackoffDelay(10, options, undefined, max)).toBe(999);
+    expect(computeBackoffDelay(1, options, undefined, () => 0)).toBe(0);
+  });
+
+  test('honors Retry-After up to the maximum delay and gives up beyond it', () => {
+    const options = { baseDelayMs: 100, maxDelayMs: 1000 };
+
+    expect(computeBackoffDelay(0, options, 700)).toBe(700);
+    expect(computeBackoffDelay(0, options, 1000)).toBe(1000);
+    expect(computeBackoffDelay(0, options, 7000)).toBeUndefined();
+  });
+
+  test('circuit breaker opens after consecutive failures and half-opens after reset', () => {
+    const breaker = new CircuitBreaker('https://dev.service-now.com', 2, 1000);
+
+    breaker.recordFailure(0);
+    expect(() => breaker.assertAvailable(0)).not.toThrow();
+
+    breaker.recordFailure(0);
+    expect(() => breaker.assertAvailable(500)).toThrow(InstanceUnavailableError);
+    expect(() => breaker.assertAvailable(500)).toThrow(/dev\.service-now\.com is unavailable/);
+
+    expect(() => breaker.assertAvailable(1000)).not.toThrow();
+    breaker.recordSuccess();
+    expect(breaker.isOpen).toBe(false);
+    expect(() => breaker.assertAvailable(1000)).not.toThrow();
+  });
+
+  test('half-open circuit breaker admits one trial and re-opens when it fails', () => {
+    const breaker = new CircuitBreaker('https://dev.service-now.com', 2, 1000);
+    breaker.recordFailure(0);
+    breaker.recordFailure(0);
+
+    expect(() => breaker.assertAvailable(1000)).not.toThrow();
+    expect(() => breaker.assertAvailable(1000)).toThrow(InstanceUnavailableError);
+    expect(() => breaker.assertAvailable(1500)).toThrow(InstanceUnavailableError);
+
+    breaker.recordFailure(1500);
+    expect(breaker.isOpen).toBe(true);
+    expect(() => breaker.assertAvailable(2000)).toThrow(InstanceUnavailableError);
+
+    expect(() => breaker.assertAvailable(2500)).not.toThrow();
+    breaker.recordSuccess();
+    expect(() => breaker.assertAvailable(2500)).not.toThrow();
+    expect(() => breaker.assertAvailable(2500)).not.toThrow();
+  });
+
+  test('concurrency limiter queues callers beyond the limit', async () => {
+    const limiter = new ConcurrencyLimiter(1);
+    const order: string[] = [];
+
+    await limiter.acquire();
+    const second = limiter.acquire().then(() => order.push('second'));
+    order.push('first');
+    limiter.release();
+    await second;
+
+    expect(order).toEqual(['first', 'second']);
+  });
+});
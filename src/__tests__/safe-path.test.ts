@@ -0,0 +1,19 @@
+import path from 'path';
+import { resolveInside, UnsafePathError } from '../utils/safe-path';
+
+describe('resolveInside', () => {
+  const base = path.resolve('update-sets');
+
+  test('resolves relative paths inside the directory', () => {
+    expect(resolveInside('update-sets', 'q3/laptop.xml', 'output_path')).toBe(path.join(base, 'q3', 'laptop.xml'));
+    expect(resolveInside('update-sets', 'a/../b.xml', 'output_path')).toBe(path.join(base, 'b.xml'));
+    expect(resolveInside('update-sets', '..hidden.xml', 'output_path')).toBe(path.join(base, '..hidden.xml'));
+  });
+
+  test('refuses absolute paths and paths that escape the directory', () => {
+    expect(() => resolveInside('update-sets', '/etc/passwd', 'file_path')).toThrow(UnsafePathError);
+    expect(() => resolveInside('update-sets', '../.env', 'file_path')).toThrow("file_path '../.env' resolves outside update-sets");
+    expect(() => resolveInside('update-sets', 'a/../../b', 'file_path')).toThrow(UnsafePathError);
+    expect(() => resolveInside('update-sets', '.', 'file_path')).toThrow(UnsafePathError);
+  });
+});
@@ -0,0 +1,93 @@
+import { AxiosError, AxiosHeaders, AxiosResponse } from 'axios';
+import {
+  ServiceNowAclError,
+  ServiceNowAuthError,
+  ServiceNowNotFoundError,
+  ServiceNowTransientError,
+  ServiceNowValidationError,
+  describeError,
+  toServiceNowError
+} from '../utils/servicenow-errors';
+
+function axiosFailure(status: number | undefined, data: any, url = '/api/now/table/incident', method = 'post'): AxiosError {
+  const config = { url, method, headers: new AxiosHeaders() };
+  const response = status === undefined ? undefined : {
+    status,
+    statusText: '',
+    data,
+    headers: {},
+    config
+  } as AxiosResponse;
+  return new AxiosError(`Request failed with status code ${status}`, undefined, config, undefined, response);
+}
+
+describe('ServiceNow error parsing', () => {
+  test('maps 401 to an auth error', () => {
+    const error = toServiceNowError(axiosFailure(401, {
+      error: { message: 'User Not Authenticated', detail: 'Required to provide Auth information' },
+      status: 'failure'
+    }));
+
+    expect(error).toBeInstanceOf(ServiceNowAuthError);
+    expect(error.message).toContain('User Not Authenticated');
+  });
+
+  test('maps ACL denials to an ACL error with the table', () => {
+    const error = toServiceNowError(axiosFailure(403, {
+      error: { message: 'Operation Failed', detail: 'ACL Exception Insert Failed due to security constraints' },
+      status: 'failure'
+    }, '/api/now/table/sys_script'));
+
+    expect(error).toBeInstanceOf(ServiceNowAclError);
+    expect((error as ServiceNowAclError).table).toBe('sys_script');
+    expect(describeError(error)).toContain("Suggestion: The integration user lacks a role or ACL on 'sys_script'");
+  });
+
+  test('recognises business rule aborts as validation errors', () => {
+    const error = toServiceNowError(axiosFailure(403, {
+      error: {
+        message: 'Operation Failed',
+        detail: "Operation against file 'incident' was aborted by Business Rule 'Block P1 Insert^3f2a'. Business Rule Stack:Block P1 Insert"
+      },
+      status: 'failure'
+    })) as ServiceNowValidationError;
+
+    expect(error).toBeInstanceOf(ServiceNowValidationError);
+    expect(error.businessRule).toBe('Block P1 Insert');
+    expect(error.message).toBe("Business Rule 'Block P1 Insert' aborted the POST on 'incident'");
+  });
+
+  test('extracts the offending field from data policy failures', () => {
+    const error = toServiceNowError(axiosFailure(403, {
+      error: { message: 'Operation Failed', detail: 'Data Policy Exception: The following fields are mandatory: short_description' },
+      status: 'failure'
+    })) as ServiceNowValidationError;
+
+    expect(error).toBeInstanceOf(ServiceNowValidationError);
+    expect(error.field).toBe('short_description');
+    expect(describeError(error)).toContain('Field: short_description');
+  });
+
+  test('maps 404 on a record URL to not-found with the sys_id', () => {
+    const sysId = '46d44a5dc0a8010e0000b2dcfb3b6c09';
+    const error = toServiceNowError(axiosFailure(404, {
+      error: { message: 'No Record found', detail: "Record doesn't exist or ACL restricts the record retrieval" },
+      status: 'failure'
+    }, `/api/now/table/incident/${sysId}`, 'get')) as ServiceNowNotFoundError;
+
+    expect(error).toBeInstanceOf(ServiceNowNotFoundError);
+    expect(error.sysId).toBe(sysId);
+    expect(error.table).toBe('incident');
+  });
+
+  test('treats server errors and dropped connections as transient', () => {
+    expect(toServiceNowError(axiosFailure(503, '<html>Service Unavailable</html>'))).toBeInstanceOf(ServiceNowTransientError);
+    expect(toServiceNowError(axiosFailure(undefined, undefined))).toBeInstanceOf(ServiceNowTransientError);
+  });
+
+  test('leaves non-HTTP errors untouched', () => {
+    const error = new Error('boom');
+    expect(toServiceNowError(error)).toBe(error);
+    expect(describeError(error)).toBe('boom');
+  });
+});
@@ -0,0 +1,789 @@
+import { mkdtempSync, readFileSync, rmSync } from 'fs';
+import os from 'os';
+import path from 'path';
+import { FIXTURE_IDS } from '../testing/fixtures';
+import { startTestServer, TestServer } from '../testing/harness';
+
+describe('Tools against the mock instance', () => {
+  let harness: TestServer;
+
+  beforeEach(async () => {
+    harness = await startTestServer();
+  });
+
+  afterEach(async () => {
+    await harness.close();
+  });
+
+  test('lists every registered tool with its input schema', async () => {
+    const { tools } = await harness.client.listTools();
+    const queryRecords = tools.find((tool) => tool.name === 'query-records');
+
+    expect(tools.length).toBeGreaterThan(40);
+    expect(queryRecords?.inputSchema.properties).toHaveProperty('table');
+    expect(queryRecords?.inputSchema.properties).toHaveProperty('instance');
+    // Write-only arguments are not offered on read-only tools
+    expect(queryRecords?.inputSchema.properties).not.toHaveProperty('idempotent');
+    expect(tools.find((tool) => tool.name === 'create-record')?.inputSchema.properties).toHaveProperty('idempotent');
+  });
+
+  test('test-connection authenticates as the configured user', async () => {
+    const { text, isError } = await harness.callTool('test-connection');
+
+    expect(isError).toBe(false);
+    expect(text).toContain('Authenticated as: admin (basic)');
+    expect(text).toContain('Found 1 user record(s)');
+  });
+
+  test('query-records filters, orders and pages', async () => {
+    for (const priority of ['1', '2', '3']) {
+      harness.mock.insert('incident', { short_description: `P${priority} outage`, priority, active: 'true' });
+    }
+
+    const { text } = await harness.callTool('query-records', {
+      table: 'incident',
+      query: 'priority<=2^active=true',
+      order_by: 'priority',
+      order_direction: 'asc',
+      fields: 'number,priority',
+      limit: 1
+    });
+
+    expect(text).toContain("Found 2 record(s) in table 'incident'");
+    expect(text).toContain('Filter: priority is at most 2 AND active is true, ordered by priority');
+    expect(text).toContain('"priority": "1"');
+    expect(text).not.toContain('"priority": "2"');
+  });
+
+  test('query-records accepts text searches and related list queries', async () => {
+    harness.mock.insert('incident', { short_description: 'Printer on fire', active: 'true' });
+    harness.mock.insert('incident', { short_description: 'Disk full', active: 'true' });
+    const text = await harness.callTool('query-records', { table: 'incident', query: '123TEXTQUERY321=printer' });
+    expect(text.isError).toBe(false);
+    expect(text.text).toContain("Found 1 record(s) in table 'incident'");
+    expect(text.text).toContain('Filter: text matches "printer", ordered by sys_created_on (descending)');
+    expect(harness.mock.requests.at(-1)?.query.sysparm_query).toBe('123TEXTQUERY321=printer^ORDERBYDESCsys_created_on');
+
+    const role = harness.mock.insert('sys_user_role', { name: 'admin' });
+    harness.mock.insert('sys_user', { user_name: 'beth', name: 'Beth', active: 'true' });
+    harness.mock.insert('sys_user_has_role', { user: FIXTURE_IDS.adminUser, role: role.sys_id });
+    const related = await harness.callTool('query-records', {
+      table: 'sys_user',
+      query: 'active=true^RLQUERYsys_user_has_role.user,>0^role.name=admin^ENDRLQUERY',
+      fields: 'user_name'
+    });
+    expect(related.isError).toBe(false);
+    expect(related.text).toContain("Found 1 record(s) in table 'sys_user'");
+    expect(related.text).toContain('"user_name": "admin"');
+  });
+
+  test('query-records rejects malformed queries before calling the instance', async () => {
+    const requestsBefore = harness.mock.requests.length;
+    const { text, isError } = await harness.callTool('query-records', { table: 'incident', query: 'active=true^priority' });
+
+    expect(isError).toBe(true);
+    expect(text).toContain("Cannot parse query condition 'priority'");
+    expect(harness.mock.requests.length).toBe(requestsBefore);
+  });
+
+  test('query-records dot-walks reference fields', async () => {
+    const { text } = await harness.callTool('query-records', {
+      table: 'item_option_new',
+      query: 'cat_item.name=Standard Laptop^nameSTARTSWITHbusiness',
+      fields: 'name,cat_item',
+      display_value: 'true'
+    });
+
+    expect(text).toContain('"name": "business_justification"');
+    expect(text).toContain('"cat_item": "Standard Laptop"');
+    expect(text).not.toContain('"name": "ram"');
+  });
+
+  test('create-record and update-record round-trip through the Table API', async () => {
+    const created = await harness.callTool('create-record', {
+      table: 'incident',
+      fields: { short_description: 'Email down', priority: 2 }
+    });
+    const [incident] = harness.mock.find('incident', 'short_description=Email down');
+
+    expect(created.text).toContain(`Record ID: ${incident.sys_id}`);
+    expect(incident.priority).toBe('2');
+
+    const preview = await harness.callTool('update-record', {
+      table: 'incident',
+      sys_id: incident.sys_id,
+      fields: { priority: '1', short_description: 'Email down' },
+      dry_run: true
+    });
+    expect(preview.text).toContain('priority: "2" → "1"');
+    expect(preview.text).not.toContain('short_description');
+    expect(harness.mock.find('incident', `sys_id=${incident.sys_id}`)[0].priority).toBe('2');
+
+    await harness.callTool('update-record', { table: 'incident', sys_id: incident.sys_id, fields: { priority: '1' } });
+    expect(harness.mock.find('incident', `sys_id=${incident.sys_id}`)[0].priority).toBe('1');
+  });
+
+  test('create-record rejects unknown fields and suggests close matches', async () => {
+    const { text, isError } = await harness.callTool('create-record', {
+      table: 'incident',
+      fields: { short_desc: 'Email down', priority: '2' }
+    });
+
+    expect(isError).toBe(true);
+    expect(text).toContain("Unknown field(s) on 'incident': 'short_desc' (did you mean short_description?)");
+    expect(harness.mock.records('incident')).toHaveLength(0);
+  });
+
+  test('describe-table lists own and inherited fields with choices', async () => {
+    const { text } = await harness.callTool('describe-table', { table: 'incident' });
+
+    expect(text).toContain('Table incident (Incident) extends task');
+    expect(text).toContain('• caller_id — Caller [reference → sys_user, mandatory]');
+    expect(text).toContain('• short_description — Short description [string, max 160, from task]');
+    // incident defines its own state choices, overriding those on task
+    expect(text).toContain('choices: 1=New, 2=In Progress, 3=On Hold, 6=Resolved, 7=Closed');
+    expect(text).toContain('choices: 1=1 - Critical, 2=2 - High');
+
+    const own = await harness.callTool('describe-table', { table: 'incident', include_inherited: false });
+    expect(own.text).not.toContain('short_description');
+
+    const missing = await harness.callTool('describe-table', { table: 'u_nothing' });
+    expect(missing.isError).toBe(true);
+    expect(missing.text).toContain("Table 'u_nothing' does not exist");
+  });
+
+  test('list-tables filters by name and parent table', async () => {
+    const { text } = await harness.callTool('list-tables', { extends: 'task' });
+
+    expect(text).toContain('Found 1 table(s)');
+    expect(text).toContain('• incident — Incident (extends task)');
+  });
+
+  test('create-table creates the table, numbering, columns and a module', async () => {
+    const { text, isError } = await harness.callTool('create-table', {
+      name: 'u_invoice_request',
+      label: 'Invoice Request',
+      extends: 'task',
+      number_prefix: 'INV',
+      columns: [
+        { name: 'u_vendor', label: 'Vendor', type: 'string', max_length: 100, mandatory: true },
+        { name: 'u_requested_by', label: 'Requested by', type: 'reference', reference_table: 'sys_user' }
+      ],
+      menu: 'Accounts Payable'
+    });
+
+    expect(isError).toBe(false);
+    expect(text).toContain('Successfully created table u_invoice_request (Invoice Request)');
+    const [table] = harness.mock.find('sys_db_object', 'name=u_invoice_request');
+    expect(table.super_class).toBe(FIXTURE_IDS.taskTable);
+    expect(harness.mock.find('sys_number', 'category=u_invoice_request')[0].prefix).toBe('INV');
+    expect(harness.mock.find('sys_dictionary', 'name=u_invoice_request').map((entry) => entry.element)).toEqual(['u_vendor', 'u_requested_by']);
+    const [menu] = harness.mock.find('sys_app_application', 'title=Accounts Payable');
+    expect(harness.mock.find('sys_app_module', 'name=u_invoice_request')[0].application).toBe(menu.sys_id);
+
+    // The new table's schema, inherited task fields included, is used straight away
+    const created = await harness.callTool('create-record', {
+      table: 'u_invoice_request',
+      fields: { u_vendor: 'Acme', short_description: 'Invoice 42' }
+    });
+    expect(created.isError).toBeFalsy();
+    expect(harness.mock.records('u_invoice_request')).toHaveLength(1);
+  });
+
+  test('create-table enforces the scope prefix and refuses existing tables', async () => {
+    const unprefixed = await harness.callTool('create-table', { name: 'invoice', label: 'Invoice' });
+    expect(unprefixed.isError).toBe(true);
+    expect(unprefixed.text).toContain("must start with 'u_' in the global scope (e.g. 'u_invoice')");
+
+    harness.mock.insert('sys_db_object', { name: 'u_invoice', label: 'Invoice' });
+    const existing = await harness.callTool('create-table', { name: 'u_invoice', label: 'Invoice' });
+    expect(existing.isError).toBe(true);
+    expect(existing.text).toContain("Table 'u_invoice' already exists");
+    expect(harness.mock.records('sys_db_object')).toHaveLength(4);
+  });
+
+  test('create-table leaves no number prefix behind when the table is refused', async () => {
+    harness.mock.deny('POST', 'sys_db_object');
+
+    const { isError } = await harness.callTool('create-table', { name: 'u_invoice', label: 'Invoice', number_prefix: 'INV' });
+
+    expect(isError).toBe(true);
+    expect(harness.mock.find('sys_number', 'category=u_invoice')).toHaveLength(0);
+  });
+
+  test('create-table-field writes sys_choice rows with values apart from labels', async () => {
+    const { text, isError } = await harness.callTool('create-table-field', {
+      table: 'incident',
+      column_name: 'u_urgency_level',
+      column_label: 'Urgency Level',
+      type: 'string',
+      choices: 'low=Low,Very High'
+    });
+
+    expect(isError).toBe(false);
+    expect(text).toContain('Choices: low=Low, very_high=Very High');
+    expect(harness.mock.find('sys_dictionary', 'element=u_urgency_level')[0].choice).toBe('1');
+    expect(harness.mock.find('sys_choice', 'element=u_urgency_level^ORDERBYsequence').map((row) => [row.value, row.label, row.sequence]))
+      .toEqual([['low', 'Low', '10'], ['very_high', 'Very High', '20']]);
+  });
+
+  test('manage-choices adds, reorders and deactivates choices', async () => {
+    const { text, isError } = await harness.callTool('manage-choices', {
+      table: 'incident',
+      field: 'category',
+      add: [{ label: 'Network' }, { value: 'software', label: 'Software & Apps' }],
+      order: ['network', 'hardware'],
+      deactivate: ['inquiry']
+    });
+
+    expect(isError).toBe(false);
+    expect(text).toContain('➕ Added network=Network');
+    expect(text).toContain('✏️ Updated software=Software & Apps');
+    expect(text).toContain('⏸️ Deactivated inquiry');
+    const rows = harness.mock.find('sys_choice', 'name=incident^element=category^ORDERBYsequence');
+    expect(rows.map((row) => row.value)).toEqual(['network', 'hardware', 'inquiry', 'software']);
+    expect(rows.find((row) => row.value === 'inquiry')?.inactive).toBe('true');
+
+    const unknown = await harness.callTool('manage-choices', { table: 'incident', field: 'category', deactivate: ['nope'] });
+    expect(unknown.isError).toBe(true);
+    expect(unknown.text).toContain("No choice with value 'nope' on incident.category (en)");
+  });
+
+  test('create-variable stores choice values apart from their labels', async () => {
+    await harness.callTool('create-variable', {
+      name: 'urgency',
+      question_text: 'Urgency',
+      type: 'choice',
+      catalog_item: FIXTURE_IDS.laptopItem,
+      choices: [{ label: 'Very High' }, { value: 'low', label: 'Low' }]
+    });
+
+    const [variable] = harness.mock.find('item_option_new', 'name=urgency');
+    expect(harness.mock.find('question_choice', `question=${variable.sys_id}^ORDERBYorder`).map((row) => [row.value, row.text]))
+      .toEqual([['very_high', 'Very High'], ['low', 'Low']]);
+  });
+
+  test('idempotent creates reuse existing artifacts and update only changed fields', async () => {
+    const args = { name: 'AP_Helpdesk_NA', description: 'Accounts Payable helpdesk', idempotent: true };
+
+    const first = await harness.callTool('create-assignment-group', args);
+    expect(first.text).toContain('Artifacts (1 created, 0 updated, 0 unchanged)');
+    expect(first.text).toContain('✨ created sys_user_group (name=AP_Helpdesk_NA)');
+
+    const second = await harness.callTool('create-assignment-group', args);
+    expect(second.text).toContain('✔️ unchanged sys_user_group (name=AP_Helpdesk_NA)');
+
+    const third = await harness.callTool('create-assignment-group', { ...args, description: 'AP helpdesk, North America' });
+    expect(third.text).toContain('✏️ updated sys_user_group (name=AP_Helpdesk_NA): description');
+
+    const groups = harness.mock.find('sys_user_group', 'name=AP_Helpdesk_NA');
+    expect(groups).toHaveLength(1);
+    expect(groups[0].description).toBe('AP helpdesk, North America');
+    expect(harness.mock.requests.filter((request) => request.method === 'POST')).toHaveLength(1);
+  });
+
+  test('idempotent create-table-field reports each artifact', async () => {
+    const args = {
+      table: 'incident',
+      column_name: 'u_urgency_level',
+      column_label: 'Urgency Level',
+      type: 'string',
+      choices: 'low=Low,high=High',
+      idempotent: true
+    };
+    await harness.callTool('create-table-field', args);
+    const rerun = await harness.callTool('create-table-field', { ...args, choices: 'low=Low,high=Very High' });
+
+    expect(rerun.text).toContain('Artifacts (0 created, 1 updated, 2 unchanged)');
+    expect(rerun.text).toContain('✏️ updated sys_choice (name=incident, element=u_urgency_level, value=high, language=en): label');
+    expect(harness.mock.find('sys_dictionary', 'element=u_urgency_level')).toHaveLength(1);
+    expect(harness.mock.find('sys_choice', 'element=u_urgency_level')).toHaveLength(2);
+  });
+
+  test('creates without idempotent mode still insert duplicates and report nothing extra', async () => {
+    await harness.callTool('create-assignment-group', { name: 'Dup' });
+    const second = await harness.callTool('create-assignment-group', { name: 'Dup' });
+
+    expect(second.text).not.toContain('Artifacts');
+    expect(harness.mock.find('sys_user_group', 'name=Dup')).toHaveLength(2);
+  });
+
+  test('plan-manifest and apply-manifest converge the instance on a manifest', async () => {
+    const manifest = (groupDescription: string) => `
+name: demo
+artifacts:
+  - id: variable
+    table: item_option_new
+    fields: { cat_item: "\${producer}", name: supplier, question_text: Supplier }
+  - id: producer
+    table: sc_cat_item_producer
+    fields: { name: Demo producer, table_name: incident }
+  - id: group
+    table: sys_user_group
+    fields: { name: Demo group, description: ${groupDescription} }
+`;
+    harness.mock.insert('sys_user_group', { name: 'Demo group', description: 'Old' });
+
+    const plan = await harness.callTool('plan-manifest', { manifest: manifest('New') });
+    expect(plan.isError).toBe(false);
+    expect(plan.text).toContain("Plan for manifest 'demo' (2 create, 1 update, 0 no-op)");
+    expect(plan.text).toContain('+ create variable: item_option_new (cat_item=<new producer>, name=supplier)');
+    expect(plan.text).toContain('~ update group: sys_user_group (name=Demo group)\n  description: "Old" → "New"');
+    expect(harness.mock.find('sc_cat_item_producer', 'name=Demo producer')).toHaveLength(0);
+
+    const applied = await harness.callTool('apply-manifest', { manifest: manifest('New') });
+    expect(applied.isError).toBe(false);
+    expect(applied.text).toContain('Artifacts (2 created, 1 updated, 0 unchanged)');
+
+    const [updateSet] = harness.mock.find('sys_update_set', 'nameLIKEdemo');
+    const [producer] = harness.mock.find('sc_cat_item_producer', 'name=Demo producer');
+    const [variable] = harness.mock.find('item_option_new', 'name=supplier');
+    expect(variable.cat_item).toBe(producer.sys_id);
+    expect(producer.sys_update_set).toBe(updateSet.sys_id);
+
+    const replan = await harness.callTool('plan-manifest', { manifest: manifest('New') });
+    expect(replan.text).toContain('(0 create, 0 update, 3 no-op)');
+    expect(replan.text).toContain('The instance already matches the manifest.');
+  });
+
+  test('apply-manifest reports what was applied before a failure', async () => {
+    const { text, isError } = await harness.callTool('apply-manifest', {
+      manifest: JSON.stringify({
+        name: 'broken',
+        artifacts: [
+          { id: 'group', table: 'sys_user_group', fields: { name: 'Applied group' } },
+          // The mock only routes word-character table names
+          { id: 'bad', table: 'u_bad-table', key: ['u_name'], fields: { u_name: 'x', u_group: '${group}' } },
+        ],
+      }),
+    });
+
+    expect(isError).toBe(true);
+    expect(text).toContain("Artifact 'bad' failed");
+    expect(text).toContain('Applied before the failure:');
+    expect(text).toContain('✨ created sys_user_group (name=Applied group)');
+  });
+
+  test('manifests that touch protected tables or live outside the manifest directory are refused', async () => {
+    const manifest = JSON.stringify({
+      name: 'sneaky',
+      artifacts: [
+        { id: 'group', table: 'sys_user_group', fields: { name: 'Sneaky group' } },
+        { id: 'admin', table: 'sys_user', key: ['user_name'], fields: { user_name: 'admin', active: 'false' } },
+      ],
+    });
+    const requestsBefore = harness.mock.requests.length;
+
+    for (const tool of ['plan-manifest', 'apply-manifest']) {
+      const { text, isError } = await harness.callTool(tool, { manifest });
+      expect(isError).toBe(true);
+      expect(text).toContain("Table 'sys_user' is protected");
+    }
+    expect(harness.mock.requests.length).toBe(requestsBefore);
+
+    for (const filePath of ['../package.json', path.resolve('package.json')]) {
+      const { text, isError } = await harness.callTool('plan-manifest', { file_path: filePath });
+      expect(isError).toBe(true);
+      expect(text).toContain('file_path');
+    }
+  });
+
+  test('write tools return the records they wrote as structured content', async () => {
+    const { result } = await harness.callTool('create-assignment-group', { name: 'Structured' });
+    const [group] = harness.mock.find('sys_user_group', 'name=Structured');
+
+    expect(result.structuredContent).toEqual({
+      records: [{
+        table: 'sys_user_group',
+        sys_id: group.sys_id,
+        display_value: 'Structured',
+        link: `${harness.mock.url}/sys_user_group.do?sys_id=${group.sys_id}`,
+        action: 'created',
+      }],
+    });
+
+    const query = await harness.callTool('query-records', { table: 'sys_user_group', query: 'name=Structured' });
+    expect(query.result.structuredContent).toMatchObject({ total_count: 1, records: [{ sys_id: group.sys_id, action: 'read' }] });
+  });
+
+  test('implement-invoice-status-inquiry attaches every step to the real record producer', async () => {
+    const { text, isError, result } = await harness.callTool('implement-invoice-status-inquiry');
+
+    expect(isError).toBe(false);
+    const [producer] = harness.mock.find('sc_cat_item_producer', 'name=Invoice Status Inquiry');
+    expect(text).toContain(`Invoice Status Inquiry Record Producer (${producer.sys_id})`);
+    expect(harness.mock.find('item_option_new', `cat_item=${producer.sys_id}`)).toHaveLength(6);
+    expect(harness.mock.find('catalog_script_client', `cat_item=${producer.sys_id}`)).toHaveLength(3);
+    expect(harness.mock.find('catalog_ui_policy', `catalog_item=${producer.sys_id}`)).toHaveLength(2);
+
+    const records = (result.structuredContent as { records: Array<{ table: string; sys_id: string }> }).records;
+    expect(records).toContainEqual(expect.objectContaining({ table: 'sc_cat_item_producer', sys_id: producer.sys_id }));
+  });
+
+  test('implement-invoice-status-inquiry rolls back created records when a step fails', async () => {
+    harness.mock.deny('POST', 'catalog_ui_policy');
+
+    const { text, isError } = await harness.callTool('implement-invoice-status-inquiry');
+
+    expect(isError).toBe(true);
+    expect(text).toContain('Failed to create Catalog UI Policy');
+    expect(text).toMatch(/Rolled back \d+ created record\(s\)/);
+    expect(harness.mock.find('sc_cat_item_producer', 'name=Invoice Status Inquiry')).toHaveLength(0);
+    expect(harness.mock.find('sys_user_group', 'nameSTARTSWITHAP_Helpdesk')).toHaveLength(0);
+    expect(harness.mock.find('sys_dictionary', 'name=sn_customerservice_case')).toHaveLength(0);
+  });
+
+  test('undo-session-changes reverts creates, updates and deletes newest first', async () => {
+    const existing = harness.mock.insert('incident', { short_description: 'Printer jam', priority: '4' });
+    const doomed = harness.mock.insert('incident', { short_description: 'Doomed', priority: '5' });
+
+    await harness.callTool('create-assignment-group', { name: 'Session group' });
+    await harness.callTool('update-record', { table: 'incident', sys_id: existing.sys_id, fields: { priority: '1' } });
+    const preview = await harness.callTool('delete-record', { table: 'incident', sys_id: doomed.sys_id });
+    const token = /confirm: "([^"]+)"/.exec(preview.text)?.[1];
+    await harness.callTool('delete-record', { table: 'incident', sys_id: doomed.sys_id, confirm: token });
+
+    const list = await harness.callTool('list-session-changes');
+    expect(list.text).toContain("3 change(s) on 'default' in this session");
+    expect(list.text).toContain(`delete incident '${doomed.number}' (${doomed.sys_id}) by delete-record\n`);
+    expect(list.text).toContain(`update incident '${existing.number}' (${existing.sys_id}) by update-record: priority\n`);
+    expect(list.text).toContain("create sys_user_group 'Session group'");
+
+    const dryRun = await harness.callTool('undo-session-changes', { count: 1, dry_run: true });
+    expect(dryRun.text).toContain('would revert 1 change(s)');
+    expect(harness.mock.find('incident', `sys_id=${doomed.sys_id}`)).toHaveLength(0);
+
+    const undo = await harness.callTool('undo-session-changes');
+    expect(undo.isError).toBe(false);
+    expect(undo.text).toContain('Reverted 3 change(s), newest first');
+    expect(harness.mock.find('incident', `sys_id=${doomed.sys_id}`)[0].short_description).toBe('Doomed');
+    expect(harness.mock.find('incident', `sys_id=${existing.sys_id}`)[0].priority).toBe('4');
+    expect(harness.mock.find('sys_user_group', 'name=Session group')).toHaveLength(0);
+
+    const after = await harness.callTool('list-session-changes');
+    expect(after.text).toContain("No changes recorded on 'default' in this session.");
+  });
+
+  test('session state follows set-current-update-set and set-application-scope until reset', async () => {
+    await harness.callTool('create-update-set', { name: 'Session work', description: 'Tracked' });
+    const [updateSet] = harness.mock.find('sys_update_set', 'nameLIKESession work');
+    await harness.callTool('set-current-update-set', { update_set_id: updateSet.sys_id });
+    await harness.callTool('set-application-scope', { scope: 'x_acme_app' });
+
+    const session = await harness.callTool('get-session');
+    expect(session.text).toContain(`Update set: ${updateSet.sys_id}`);
+    expect(session.text).toContain('Application scope: x_acme_app');
+    expect(session.text).toContain('Client: integration-test/1.0.0');
+    expect(session.result.structuredContent).toMatchObject({
+      session: { dry_run: false, instances: { default: { update_set_id: updateSet.sys_id, scope: 'x_acme_app' } } },
+    });
+
+    await harness.callTool('create-update-set', { name: 'Scoped', description: 'In the session scope' });
+    expect(harness.mock.find('sys_update_set', 'nameLIKEScoped')[0].application).toBe('x_acme_app');
+
+    await harness.callTool('reset-session');
+    const reset = await harness.callTool('get-session');
+    expect(reset.text).toContain('Update set: none');
+    expect(reset.text).toContain('Application scope: global (profile default)');
+  });
+
+  test('dry run sessions describe writes without making them', async () => {
+    await harness.callTool('set-session', { dry_run: true });
+
+    const planned = await harness.callTool('create-record', { table: 'incident', fields: { short_description: 'Not yet' } });
+    expect(planned.isError).toBe(false);
+    expect(planned.text).toContain("Dry run: nothing was changed on 'default'");
+    expect(planned.text).toContain('Planned change: create-record');
+    expect(harness.mock.records('incident')).toHaveLength(0);
+
+    const unknown = await harness.callTool('set-session', { default_instance: 'nope' });
+    expect(unknown.isError).toBe(true);
+
+    await harness.callTool('set-session', { dry_run: false });
+    await harness.callTool('create-record', { table: 'incident', fields: { short_description: 'Now' } });
+    expect(harness.mock.records('incident')).toHaveLength(1);
+  });
+
+  test('delete-record requires the confirmation token', async () => {
+    const incident = harness.mock.insert('incident', { short_description: 'Duplicate' });
+
+    const first = await harness.callTool('delete-record', { table: 'incident', sys_id: incident.sys_id });
+    const token = /confirm: "([^"]+)"/.exec(first.text)?.[1];
+    expect(harness.mock.records('incident')).toHaveLength(1);
+
+    await harness.callTool('delete-record', { table: 'incident', sys_id: incident.sys_id, confirm: token });
+    expect(harness.mock.records('incident')).toHaveLength(0);
+  });
+
+  test('protected tables are refused', async () => {
+    const { text, isError } = await harness.callTool('update-record', {
+      table: 'sys_user',
+      sys_id: FIXTURE_IDS.adminUser,
+      fields: { active: 'false' }
+    });
+
+    expect(isError).toBe(true);
+    expect(text).toContain('protected');
+    expect(harness.mock.records('sys_user')[0].active).toBe('true');
+  });
+
+  test('create-catalog-ui-policy-action resolves the variable from the policy catalog item', async () => {
+    const { isError } = await harness.callTool('create-catalog-ui-policy-action', {
+      catalog_ui_policy: FIXTURE_IDS.laptopPolicy,
+      variable_name: 'business_justification',
+      mandatory: 'true',
+      visible: 'true'
+    });
+    const [action] = harness.mock.records('catalog_ui_policy_action');
+
+    expect(isError).toBe(false);
+    expect(action).toMatchObject({
+      ui_policy: FIXTURE_IDS.laptopPolicy,
+      catalog_variable: `IO:${FIXTURE_IDS.justificationVariable}`,
+      variable: 'business_justification',
+      mandatory: 'true',
+      visible: 'true'
+    });
+  });
+
+  test('create-catalog-ui-policy-action reports unknown variables', async () => {
+    const { text, isError } = await harness.callTool('create-catalog-ui-policy-action', {
+      catalog_ui_policy: FIXTURE_IDS.laptopPolicy,
+      variable_name: 'cost_center'
+    });
+
+    expect(isError).toBe(true);
+    expect(text).toContain("Variable 'cost_center' not found");
+    expect(harness.mock.records('catalog_ui_policy_action')).toHaveLength(0);
+  });
+
+  test('update set lifecycle: create, list, complete and export', async () => {
+    await harness.callTool('create-update-set', { name: 'Laptop refresh', description: 'Q3 laptop changes' });
+    const [updateSet] = harness.mock.find('sys_update_set', 'nameLIKELaptop refresh');
+    expect(updateSet.name).toBe('MCP_Laptop refresh');
+
+    const listed = await harness.callTool('list-update-sets', { state: 'build' });
+    expect(listed.text).toContain('MCP_Laptop refresh [build]');
+    expect(listed.text).not.toContain('Default');
+
+    const empty = await harness.callTool('complete-update-set', { update_set_id: updateSet.sys_id });
+    expect(empty.isError).toBe(true);
+    expect(empty.text).toContain('has not captured any changes');
+
+    harness.mock.insert('sys_update_xml', {
+      update_set: updateSet.sys_id,
+      name: 'sys_script_include_1',
+      type: 'Script Include',
+      target_name: 'LaptopUtils',
+      action: 'INSERT_OR_UPDATE',
+      payload: '<record_update table="sys_script_include"/>'
+    });
+    const completed = await harness.callTool('complete-update-set', { update_set_id: updateSet.sys_id });
+    expect(completed.isError).toBe(false);
+    expect(harness.mock.find('sys_update_set', `sys_id=${updateSet.sys_id}`)[0].state).toBe('complete');
+  });
+
+  test('invalid arguments are rejected before reaching the instance', async () => {
+    const requestsBefore = harness.mock.requests.length;
+    const { text, isError } = await harness.callTool('query-records', { limit: 5 });
+
+    expect(isError).toBe(true);
+    expect(text).toContain('table: Required');
+    expect(harness.mock.requests.length).toBe(requestsBefore);
+  });
+});
+
+describe('Access modes against the mock instance', () => {
+  test('read-only instances hide and refuse mutating tools', async () => {
+    const harness = await startTestServer({}, { SERVICENOW_MODE: 'read-only' });
+    try {
+      const { tools } = await harness.client.listTools();
+      expect(tools.map((tool) => tool.name)).toContain('query-records');
+      expect(tools.map((tool) => tool.name)).not.toContain('create-record');
+      expect(tools.map((tool) => tool.name)).not.toContain('export-update-set');
+
+      const { text, isError } = await harness.callTool('create-record', { table: 'incident', fields: { short_description: 'x' } });
+      expect(isError).toBe(true);
+      expect(text).toContain("Instance 'default' is read-only");
+      expect(harness.mock.records('incident')).toHaveLength(0);
+    } finally {
+      await harness.close();
+    }
+  });
+
+  test('confirm-writes instances only run approved calls', async () => {
+    const harness = await startTestServer({}, { SERVICENOW_MODE: 'confirm-writes' });
+    try {
+      const args = { table: 'incident', fields: { short_description: 'Approved change' } };
+      const planned = await harness.callTool('create-record', args);
+      const token = /approval_token: "([^"]+)"/.exec(planned.text)?.[1];
+
+      expect(planned.text).toContain('Planned change: create-record');
+      expect(harness.mock.records('incident')).toHaveLength(0);
+
+      const switched = await harness.callTool('create-record', { ...args, idempotent: true, approval_token: token });
+      expect(switched.isError).toBe(true);
+      expect(switched.text).toContain('Invalid or expired approval token');
+
+      await harness.callTool('create-record', { ...args, approval_token: token });
+      expect(harness.mock.records('incident')).toHaveLength(1);
+    } finally {
+      await harness.close();
+    }
+  });
+});
+
+describe('Audit log against the mock instance', () => {
+  test('records each call and exports them filtered', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    const harness = await startTestServer({}, { AUDIT_LOG_FILE: path.join(dir, 'audit.jsonl') });
+    try {
+      await harness.callTool('create-table-field', { table: 'incident', column_name: 'u_api_key', column_label: 'API key', type: 'string' });
+      await harness.callTool('create-record', { table: 'incident', fields: { short_description: 'Audited', u_api_key: 'abc123' } });
+      await harness.callTool('describe-table', { table: 'u_nothing' });
+
+      const exported = await harness.callTool('export-audit-log', { tool: 'create-record', output_path: 'q1/create.jsonl' });
+      expect(exported.text).toContain('1 audit entry');
+
+      const [entry] = readFileSync(path.join(dir, 'exports', 'q1', 'create.jsonl'), 'utf8').trim().split('\n').map((line) => JSON.parse(line));
+      const [incident] = harness.mock.records('incident');
+      expect(entry).toMatchObject({
+        client: 'integration-test/1.0.0',
+        user: 'admin',
+        instance: 'default',
+        status: 'success',
+        arguments: { table: 'incident', fields: { short_description: 'Audited', u_api_key: '[REDACTED]' } },
+        records: [{ table: 'incident', sys_id: incident.sys_id, action: 'created' }],
+      });
+
+      const { text } = await harness.callTool('export-audit-log', { from: '2000-01-01', target_instance: 'default' });
+      expect(text).toContain('4 audit entries');
+      expect(text).toMatch(/"tool":"describe-table".*"status":"error","duration_ms":\d+,"error":"❌/);
+
+      const future = await harness.callTool('export-audit-log', { from: '2999-01-01' });
+      expect(future.text).toContain('0 audit entries');
+
+      for (const outputPath of ['../audit.jsonl', path.join(dir, 'stolen.jsonl'), 'audit.jsonl', 'old/audit.2.jsonl']) {
+        const refused = await harness.callTool('export-audit-log', { output_path: outputPath });
+        expect(refused.isError).toBe(true);
+      }
+      expect(readFileSync(path.join(dir, 'audit.jsonl'), 'utf8')).toContain('"tool":"create-record"');
+    } finally {
+      await harness.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('tags instance requests with the correlation ID recorded for the call', async () => {
+    const dir = mkdtempSync(path.join(os.tmpdir(), 'audit-'));
+    const harness = await startTestServer({}, { AUDIT_LOG_FILE: path.join(dir, 'audit.jsonl'), SERVICENOW_REQUEST_ID_HEADER: 'true' });
+    try {
+      await harness.callTool('test-connection');
+      harness.mock.requests.length = 0;
+      await harness.callTool('create-record', { table: 'incident', fields: { short_description: 'Traced' } });
+
+      const { text } = await harness.callTool('export-audit-log', { tool: 'create-record' });
+      const correlationId = /"correlation_id":"([^"]+)"/.exec(text)?.[1];
+      expect(correlationId).toBeDefined();
+      expect(harness.mock.requests.length).toBeGreaterThan(0);
+      expect(harness.mock.requests.map((request) => request.requestId)).toEqual(harness.mock.requests.map(() => correlationId));
+    } finally {
+      await harness.close();
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('Update set files against the mock instance', () => {
+  let dir: string;
+  let harness: TestServer;
+
+  beforeEach(async () => {
+    dir = mkdtempSync(path.join(os.tmpdir(), 'update-sets-'));
+    harness = await startTestServer({}, { UPDATE_SET_EXPORT_DIR: dir });
+  });
+
+  afterEach(async () => {
+    await harness.close();
+    rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('exports inside the export directory only', async () => {
+    await harness.callTool('create-update-set', { name: 'Laptop refresh', description: 'Q3 laptop changes' });
+    const [updateSet] = harness.mock.find('sys_update_set', 'nameLIKELaptop refresh');
+    harness.mock.insert('sys_update_xml', {
+      update_set: updateSet.sys_id,
+      name: 'sys_script_include_1',
+      type: 'Script Include',
+      target_name: 'LaptopUtils',
+      action: 'INSERT_OR_UPDATE',
+      payload: '<record_update table="sys_script_include"/>'
+    });
+
+    const exported = await harness.callTool('export-update-set', { update_set_id: updateSet.sys_id, output_path: 'q3/laptop.xml' });
+    expect(exported.isError).toBe(false);
+    expect(readFileSync(path.join(dir, 'q3', 'laptop.xml'), 'utf8')).toContain('sys_script_include_1');
+
+    for (const outputPath of ['../laptop.xml', path.join(os.tmpdir(), 'laptop.xml')]) {
+      const refused = await harness.callTool('export-update-set', { update_set_id: updateSet.sys_id, output_path: outputPath });
+      expect(refused.isError).toBe(true);
+      expect(refused.text).toContain('output_path');
+    }
+  });
+
+  test('loads an exported file, previews it and commits once problems are resolved', async () => {
+    await harness.callTool('create-update-set', { name: 'Laptop refresh', description: 'Q3 laptop changes' });
+    const [updateSet] = harness.mock.find('sys_update_set', 'nameLIKELaptop refresh');
+    harness.mock.insert('sys_update_xml', {
+      update_set: updateSet.sys_id,
+      name: 'sys_script_include_1',
+      type: 'Script Include',
+      target_name: 'LaptopUtils',
+      action: 'INSERT_OR_UPDATE',
+      payload: '<record_update table="sys_script_include"/>'
+    });
+    await harness.callTool('export-update-set', { update_set_id: updateSet.sys_id, output_path: 'laptop.xml' });
+
+    for (const filePath of ['../laptop.xml', path.join(dir, 'laptop.xml')]) {
+      const refused = await harness.callTool('load-update-set-xml', { file_path: filePath });
+      expect(refused.isError).toBe(true);
+      expect(refused.text).toContain('file_path');
+    }
+    expect(harness.mock.records('sys_remote_update_set')).toHaveLength(0);
+
+    const loaded = await harness.callTool('load-update-set-xml', { file_path: 'laptop.xml' });
+    expect(loaded.isError).toBe(false);
+    const [remote] = harness.mock.records('sys_remote_update_set');
+    expect(remote).toMatchObject({ name: 'MCP_Laptop refresh', state: 'loaded' });
+    expect(harness.mock.find('sys_update_xml', `remote_update_set=${remote.sys_id}`)[0].name).toBe('sys_script_include_1');
+
+    const tooEarly = await harness.callTool('commit-remote-update-set', { remote_update_set_id: remote.sys_id });
+    expect(tooEarly.isError).toBe(true);
+    expect(tooEarly.text).toContain("in state 'loaded'");
+
+    const [remoteUpdate] = harness.mock.find('sys_update_xml', `remote_update_set=${remote.sys_id}`);
+    const problem = harness.mock.insert('sys_update_preview_problem', {
+      remote_update_set: remote.sys_id,
+      remote_update: remoteUpdate.sys_id,
+      type: 'error',
+      description: 'Could not find a record in sys_user_group for column assignment_group',
+      status: ''
+    });
+    const previewed = await harness.callTool('preview-remote-update-set', { remote_update_set_id: remote.sys_id });
+    expect(previewed.text).toContain('1 unresolved problem(s)');
+    expect(previewed.text).toContain('Missing reference (1)');
+    expect(harness.mock.records('sys_remote_update_set')[0].state).toBe('previewed');
+
+    const blocked = await harness.callTool('commit-remote-update-set', { remote_update_set_id: remote.sys_id });
+    expect(blocked.isError).toBe(true);
+    expect(blocked.text).toContain('1 preview problem(s) are unresolved');
+
+    await harness.callTool('resolve-preview-problem', { problem_id: problem.sys_id, resolution: 'skip' });
+    expect(harness.mock.find('sys_update_xml', `sys_id=${remoteUpdate.sys_id}`)[0].proposed_action).toBe('skip');
+    expect(harness.mock.find('sys_update_preview_problem', `sys_id=${problem.sys_id}`)[0].status).toBe('skipped');
+    const committed = await harness.callTool('commit-remote-update-set', { remote_update_set_id: remote.sys_id });
+    expect(committed.isError).toBe(false);
+    expect(committed.text).toContain("Committed update set 'MCP_Laptop refresh'");
+    expect(harness.mock.records('sys_remote_update_set')[0].state).toBe('committed');
+  });
+});
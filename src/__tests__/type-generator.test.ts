@@ -0,0 +1,68 @@
+import { TableColumn, TableSchema } from '../services/table-schema';
+import { generateTableTypes, interfaceName } from '../utils/type-generator';
+
+function column(name: string, definedOn: string, extra: Partial<TableColumn> = {}): TableColumn {
+  return { name, label: name, type: 'string', mandatory: false, readOnly: false, definedOn, choices: [], ...extra };
+}
+
+describe('TypeScript type generation', () => {
+  const task: TableSchema = {
+    name: 'task',
+    label: 'Task',
+    hierarchy: ['task'],
+    columns: [
+      column('sys_id', 'task', { type: 'GUID' }),
+      column('short_description', 'task', { label: 'Short description', maxLength: 160 }),
+      column('state', 'task', { type: 'integer', choices: [{ value: '1', label: 'Open' }, { value: '3', label: 'Closed' }] }),
+      column('assigned_to', 'task', { type: 'reference', reference: 'sys_user' }),
+    ],
+  };
+  const incident: TableSchema = {
+    name: 'incident',
+    label: 'Incident',
+    hierarchy: ['incident', 'task'],
+    columns: [
+      column('sys_id', 'incident', { type: 'GUID' }),
+      column('short_description', 'task', { label: 'Short description', maxLength: 160 }),
+      column('state', 'task', { type: 'integer', choices: [{ value: '1', label: 'New' }, { value: '6', label: 'Resolved' }] }),
+      column('assigned_to', 'task', { type: 'reference', reference: 'sys_user' }),
+      column('caller_id', 'incident', { label: 'Caller', type: 'reference', reference: 'sys_user', mandatory: true }),
+    ],
+  };
+
+  test('names interfaces after their tables', () => {
+    expect(interfaceName('incident')).toBe('Incident');
+    expect(interfaceName('sys_user')).toBe('SysUser');
+    expect(interfaceName('x_acme_app_request')).toBe('XAcmeAppRequest');
+  });
+
+  test('emits reference unions and choice literals', () => {
+    const source = generateTableTypes([task]);
+
+    expect(source).toContain('export interface Task {');
+    expect(source).toContain('  sys_id: string;');
+    expect(source).toContain('  /** Short description (string, max length 160) */\n  short_description?: string;');
+    expect(source).toContain("  state?: '1' | '3';");
+    expect(source).toContain('  assigned_to?: string | ServiceNowReference;');
+  });
+
+  test('extends the parent interface and omits narrowed columns', () => {
+    const source = generateTableTypes([incident, task], { source: "instance 'dev'" });
+
+    expect(source).toContain("from instance 'dev'");
+    expect(source.indexOf('export interface Task')).toBeLessThan(source.indexOf('export interface Incident'));
+    expect(source).toContain("export interface Incident extends Omit<Task, 'state'> {");
+    expect(source).toContain("  state?: '1' | '6';");
+    expect(source).toContain('  /** Caller (reference to sys_user, mandatory) */\n  caller_id?: string | ServiceNowReference;');
+    // Unchanged inherited columns come from Task
+    expect(source.slice(source.indexOf('export interface Incident'))).not.toContain('short_description');
+    expect(source).toContain('  incident: Incident;');
+  });
+
+  test('flattens tables whose parent was not generated', () => {
+    const source = generateTableTypes([incident]);
+
+    expect(source).toContain('export interface Incident {');
+    expect(source).toContain('  short_description?: string;');
+  });
+});
@@ -0,0 +1,66 @@
+import { buildUpdateSetXml, parseUpdateSetXml } from '../utils/update-set-xml';
+import { classifyPreviewProblem } from '../utils/update-set-preview';
+
+describe('Update set XML', () => {
+  const updateSet = {
+    sys_id: 'a1b2c3d4e5f60718293a4b5c6d7e8f90',
+    name: 'MCP_Invoice <approvals> & routing',
+    description: 'Adds "approval" rules',
+    application: { value: 'global', display_value: 'Global' },
+    sys_created_by: 'admin',
+    sys_created_on: '2026-01-05 10:00:00'
+  };
+  const updates = [
+    {
+      sys_id: '0f9e8d7c6b5a49382716051a2b3c4d5e',
+      name: 'sys_script_0f9e8d7c6b5a49382716051a2b3c4d5e',
+      type: 'Business Rule',
+      target_name: 'Route invoices',
+      action: 'INSERT_OR_UPDATE',
+      payload: '<?xml version="1.0" encoding="UTF-8"?><record_update table="sys_script"><sys_script action="INSERT_OR_UPDATE"><script><![CDATA[if (a < b && c > d) {}]]></script></sys_script></record_update>',
+      replace_on_upgrade: 'false'
+    }
+  ];
+
+  test('round-trips an exported update set', () => {
+    const xml = buildUpdateSetXml(updateSet, updates, new Date('2026-01-06T12:00:00Z'));
+    const parsed = parseUpdateSetXml(xml);
+
+    expect(xml).toContain('<unload unload_date="2026-01-06 12:00:00">');
+    expect(parsed.updateSet.name).toBe(updateSet.name);
+    expect(parsed.updateSet.description).toBe(updateSet.description);
+    expect(parsed.updateSet.remote_sys_id).toBe(updateSet.sys_id);
+    expect(parsed.updateSet.application).toBe('global');
+    expect(parsed.updates).toHaveLength(1);
+    expect(parsed.updates[0].payload).toBe(updates[0].payload);
+    expect(parsed.updates[0].remote_update_set).toBe(parsed.updateSet.sys_id);
+    expect(parsed.updates[0].comments).toBe('');
+  });
+
+  test('reads CDATA payloads from ServiceNow exports', () => {
+    const parsed = parseUpdateSetXml([
+      '<?xml version="1.0" encoding="UTF-8"?><unload unload_date="2026-01-06 12:00:00">',
+      '<sys_remote_update_set action="INSERT_OR_UPDATE"><name>Release 1</name></sys_remote_update_set>',
+      '<sys_update_xml action="INSERT_OR_UPDATE"><payload><![CDATA[<record_update/>]]></payload></sys_update_xml>',
+      '</unload>'
+    ].join('\n'));
+
+    expect(parsed.updateSet.name).toBe('Release 1');
+    expect(parsed.updates[0].payload).toBe('<record_update/>');
+  });
+
+  test('rejects XML that is not an update set export', () => {
+    expect(() => parseUpdateSetXml('<unload><incident/></unload>')).toThrow('sys_remote_update_set');
+  });
+});
+
+describe('Preview problem classification', () => {
+  test.each([
+    ['Could not find a record in sys_user_group for column assignment_group referenced in this update', 'missing_reference'],
+    ['Found a local update that is newer than this one', 'newer_local_update'],
+    ['Found an uncommitted update for this record in another update set', 'uncommitted_update'],
+    ['Something unexpected', 'other']
+  ])('%s', (description, category) => {
+    expect(classifyPreviewProblem(description)).toBe(category);
+  });
+});
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ServiceNowApiService } from './services/servicenow-api.js';
+import { TableSchema, TableSchemaService } from './services/table-schema.js';
+import { getConfig, getServiceNowConfig } from './utils/simple-config.js';
+import { createLogger } from './utils/logger.js';
+import { generateTableTypes } from './utils/type-generator.js';
+
+// Keep stdout for the generated source when no --out file is given
+process.env.MCP_MODE = 'true';
+
+const USAGE = 'Usage: npm run generate-types -- <table> [<table> ...] [--instance <profile>] [--out <file>]';
+
+interface CliOptions {
+  tables: string[];
+  instance?: string;
+  out?: string;
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  const options: CliOptions = { tables: [] };
+  for (let index = 0; index < argv.length; index++) {
+    const arg = argv[index];
+    if (arg === '--instance' || arg === '--out') {
+      const value = argv[++index];
+      if (!value) {
+        throw new Error(`${arg} needs a value\n${USAGE}`);
+      }
+      options[arg === '--instance' ? 'instance' : 'out'] = value;
+    } else if (arg.startsWith('--')) {
+      throw new Error(`Unknown option ${arg}\n${USAGE}`);
+    } else {
+      options.tables.push(...arg.split(',').map((table) => table.trim()).filter(Boolean));
+    }
+  }
+  if (options.tables.length === 0) {
+    throw new Error(USAGE);
+  }
+  return options;
+}
+
+async function main() {
+  const options = parseArgs(process.argv.slice(2));
+  const config = getConfig();
+  const logger = createLogger(config.logging);
+
+  const profileName = options.instance ?? config.instances.defaultInstance;
+  const profile = config.instances.profiles[profileName];
+  if (!profile) {
+    throw new Error(`Unknown instance '${profileName}'. Configured instances: ${Object.keys(config.instances.profiles).join(', ')}`);
+  }
+
+  const api = new ServiceNowApiService(getServiceNowConfig(config, profile), logger.child({ service: 'servicenow-api' }));
+  await api.authenticate();
+  const tableSchemas = new TableSchemaService(api);
+
+  // Parent tables are generated too, so child interfaces can extend them
+  const schemas = new Map<string, TableSchema>();
+  for (const table of options.tables) {
+    const schema = await tableSchemas.describeTable(table);
+    for (const name of schema.hierarchy) {
+      if (!schemas.has(name)) {
+        schemas.set(name, name === table ? schema : await tableSchemas.describeTable(name));
+      }
+    }
+  }
+
+  const source = generateTableTypes([...schemas.values()], { source: `instance '${profile.name}'` });
+  if (options.out) {
+    await fs.mkdir(path.dirname(path.resolve(options.out)), { recursive: true });
+    await fs.writeFile(options.out, source);
+    process.stderr.write(`Wrote ${schemas.size} table type(s) to ${options.out}\n`);
+  } else {
+    process.stdout.write(source);
+  }
+}
+
+main().catch((error) => {
+  process.stderr.write(`Failed to generate types: ${error instanceof Error ? error.message : error}\n`);
+  process.exit(1);
+});
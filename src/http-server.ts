@@ -0,0 +1,153 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { createHash, timingSafeEqual } from 'crypto';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { createSharedServices, SharedServices, SimpleServiceNowMCPServer } from './simple-server.js';
+import { Session as McpSession } from './utils/session.js';
+import { getConfig, SimpleConfig } from './utils/simple-config.js';
+
+// Clients open the event stream here, then POST their messages to MESSAGE_PATH?sessionId=…
+const SSE_PATH = '/sse';
+const MESSAGE_PATH = '/messages';
+const HEALTH_PATH = '/health';
+
+interface Session {
+  transport: SSEServerTransport;
+  server: SimpleServiceNowMCPServer;
+  // Messages for the session must come with the token that opened it
+  token: string;
+}
+
+interface Credential {
+  principal: string;
+  digest: Buffer;
+}
+
+// Hashing first makes the comparison constant-time regardless of token length
+function digest(token: string): Buffer {
+  return createHash('sha256').update(token).digest();
+}
+
+/**
+ * Serves MCP over HTTP with server-sent events, so one centrally hosted
+ * process can serve a whole team. Each connection gets its own
+ * SimpleServiceNowMCPServer, keeping its current update set, scope and session
+ * journal apart from other clients', while the instance clients, schema caches,
+ * logger and audit log are shared.
+ */
+export class McpHttpServer {
+  private shared: SharedServices;
+  private sessions = new Map<string, Session>();
+  private httpServer: http.Server;
+  private credentials: Credential[];
+
+  constructor(config: SimpleConfig = getConfig()) {
+    this.shared = createSharedServices(config);
+    const { logger } = this.shared;
+    this.credentials = config.transport.authTokens.map(({ principal, token }) => ({ principal, digest: digest(token) }));
+    this.httpServer = http.createServer((req, res) => {
+      this.handle(req, res).catch((error) => {
+        logger.error('HTTP request failed', { method: req.method, url: req.url, error: (error as Error).message });
+        if (!res.headersSent) {
+          this.send(res, 500, { error: 'Internal server error' });
+        }
+      });
+    });
+  }
+
+  get sessionCount(): number {
+    return this.sessions.size;
+  }
+
+  // Resolves with the bound address; port 0 picks a free port
+  async start(): Promise<AddressInfo> {
+    const { host, port } = this.shared.config.transport;
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(port, host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    const address = this.httpServer.address() as AddressInfo;
+    this.shared.logger.info(`ServiceNow MCP Server listening on http://${address.address}:${address.port}${SSE_PATH}`);
+    return address;
+  }
+
+  async close(): Promise<void> {
+    // Cleared first so the streams' close handlers don't close the servers again
+    const sessions = [...this.sessions.values()];
+    this.sessions.clear();
+    await Promise.all(sessions.map((session) => session.server.close()));
+    await new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+    await this.shared.auditLog.flush();
+  }
+
+  private async handle(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+
+    if (req.method === 'GET' && url.pathname === HEALTH_PATH) {
+      const { name, version } = this.shared.config.server;
+      this.send(res, 200, { status: 'ok', name, version, sessions: this.sessions.size });
+      return;
+    }
+
+    if (url.pathname !== SSE_PATH && url.pathname !== MESSAGE_PATH) {
+      this.send(res, 404, { error: `Not found: ${url.pathname}` });
+      return;
+    }
+
+    const caller = this.authenticate(req);
+    if (!caller) {
+      res.setHeader('WWW-Authenticate', 'Bearer');
+      this.send(res, 401, { error: 'Missing or invalid bearer token' });
+      return;
+    }
+
+    if (req.method === 'GET' && url.pathname === SSE_PATH) {
+      await this.openSession(caller.token, caller.principal, res);
+    } else if (req.method === 'POST' && url.pathname === MESSAGE_PATH) {
+      const session = this.sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!session || session.token !== caller.token) {
+        this.send(res, 404, { error: `Unknown session; open a new one at ${SSE_PATH}` });
+        return;
+      }
+      await session.transport.handlePostMessage(req, res);
+    } else {
+      res.setHeader('Allow', url.pathname === SSE_PATH ? 'GET' : 'POST');
+      this.send(res, 405, { error: `${req.method} is not allowed on ${url.pathname}` });
+    }
+  }
+
+  private async openSession(token: string, principal: string, res: http.ServerResponse): Promise<void> {
+    const transport = new SSEServerTransport(MESSAGE_PATH, res);
+    const server = new SimpleServiceNowMCPServer(this.shared, new McpSession(principal));
+    const { sessionId } = transport;
+    this.sessions.set(sessionId, { transport, server, token });
+    res.on('close', () => {
+      if (this.sessions.delete(sessionId)) {
+        this.shared.logger.info('MCP session closed', { session: sessionId });
+        void server.close();
+      }
+    });
+    await server.connect(transport);
+    this.shared.logger.info('MCP session opened', { session: sessionId, principal });
+  }
+
+  // Returns the presented token and who holds it when it is one of the configured ones
+  private authenticate(req: http.IncomingMessage): { token: string; principal: string } | undefined {
+    const match = /^Bearer\s+(.+)$/i.exec(req.headers.authorization ?? '');
+    if (!match) {
+      return undefined;
+    }
+    const token = match[1].trim();
+    const presented = digest(token);
+    const credential = this.credentials.find((expected) => timingSafeEqual(expected.digest, presented));
+    return credential && { token, principal: credential.principal };
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
@@ -0,0 +1,110 @@
+import type { ServiceNowApiService } from './servicenow-api.js';
+import { artifactKey, fieldReferences, Manifest, ManifestArtifact, ManifestFieldValue, resolveReferences } from '../utils/manifest.js';
+import { ArtifactOutcome, describeNaturalKey, naturalKeyQuery } from '../utils/natural-keys.js';
+import { diffRecord, FieldChange, formatChanges } from '../utils/record-diff.js';
+
+export type PlanAction = 'create' | 'update' | 'no-op';
+
+export interface PlannedArtifact {
+  artifact: ManifestArtifact;
+  action: PlanAction;
+  // Natural key of the artifact, e.g. "name=AP_Helpdesk_NA"
+  key: string;
+  // Only known for artifacts that already exist
+  sysId?: string;
+  changes: FieldChange[];
+}
+
+export interface ManifestPlan {
+  manifest: Manifest;
+  artifacts: PlannedArtifact[];
+}
+
+export class ManifestApplyError extends Error {
+  constructor(readonly artifactId: string, readonly applied: ArtifactOutcome[], readonly cause: unknown) {
+    super(`Artifact '${artifactId}' failed: ${cause instanceof Error ? cause.message : String(cause)}`);
+    this.name = 'ManifestApplyError';
+  }
+}
+
+const PLAN_ICONS: Record<PlanAction, string> = {
+  create: '+',
+  update: '~',
+  'no-op': '=',
+};
+
+export function formatPlan(plan: ManifestPlan): string {
+  const counts = (['create', 'update', 'no-op'] as const)
+    .map((action) => `${plan.artifacts.filter((planned) => planned.action === action).length} ${action}`)
+    .join(', ');
+  const lines = plan.artifacts.map((planned) => {
+    const heading = `${PLAN_ICONS[planned.action]} ${planned.action} ${planned.artifact.id}: ${planned.artifact.table} (${planned.key})`;
+    return planned.action === 'update'
+      ? `${heading}\n${formatChanges(planned.changes)}`
+      : heading;
+  });
+  return `Plan for manifest '${plan.manifest.name}' (${counts}):\n${lines.join('\n')}`;
+}
+
+/**
+ * Compares a manifest with an instance and applies it. Artifacts are matched
+ * on their natural key, so applying the same manifest twice changes nothing
+ * the second time.
+ */
+export class ManifestRunner {
+  constructor(private api: ServiceNowApiService) {}
+
+  async plan(manifest: Manifest): Promise<ManifestPlan> {
+    const sysIds = new Map<string, string>();
+    const artifacts: PlannedArtifact[] = [];
+
+    for (const artifact of manifest.artifacts) {
+      // References to artifacts that will only be created show as "<new id>"
+      const fields = resolveReferences(artifact.fields, sysIds, (id) => `<new ${id}>`);
+      const keyFields = artifactKey(artifact);
+      const key = describeNaturalKey(keyFields, fields);
+
+      // A key that points at a new artifact cannot match anything yet
+      const keyIsPending = keyFields.some((field) => fieldReferences(artifact.fields[field]).some((id) => !sysIds.has(id)));
+      const [existing] = keyIsPending
+        ? []
+        : await this.api.getRecords(artifact.table, naturalKeyQuery(keyFields, fields), { limit: 1, excludeReferenceLink: true });
+
+      if (!existing) {
+        artifacts.push({ artifact, action: 'create', key, changes: [] });
+        continue;
+      }
+
+      sysIds.set(artifact.id, existing.sys_id);
+      const changes = diffRecord(existing, fields);
+      artifacts.push({ artifact, action: changes.length > 0 ? 'update' : 'no-op', key, sysId: existing.sys_id, changes });
+    }
+
+    return { manifest, artifacts };
+  }
+
+  /**
+   * Upserts every artifact in dependency order into the given update set,
+   * feeding each new sys_id into the artifacts that reference it.
+   */
+  async apply(manifest: Manifest, updateSetId: string): Promise<ArtifactOutcome[]> {
+    const sysIds = new Map<string, string>();
+    const outcomes: ArtifactOutcome[] = [];
+
+    for (const artifact of manifest.artifacts) {
+      try {
+        const fields: Record<string, ManifestFieldValue> = {
+          ...resolveReferences(artifact.fields, sysIds),
+          sys_update_set: updateSetId,
+        };
+        const { outcome } = await this.api.upsertRecord(artifact.table, fields, artifactKey(artifact));
+        sysIds.set(artifact.id, outcome.sysId);
+        outcomes.push(outcome);
+      } catch (error) {
+        throw new ManifestApplyError(artifact.id, outcomes, error);
+      }
+    }
+
+    return outcomes;
+  }
+}
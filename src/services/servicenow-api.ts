@@ -1,6 +1,44 @@
-import axios, { AxiosInstance } from 'axios';
-import { ServiceNowConfig, ServiceNowApiResponse } from '../types/servicenow.js';
-import { SimpleLogger } from '../utils/simple-logger.js';
+import axios, { AxiosAdapter, AxiosInstance, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+import { ServiceNowConfig, ServiceNowApiResponse, ServiceNowAuthResponse } from '../types/servicenow.js';
+import { getCorrelationId, Logger } from '../utils/logger.js';
+import {
+  CircuitBreaker,
+  ConcurrencyLimiter,
+  DEFAULT_RESILIENCE_OPTIONS,
+  ResilienceOptions,
+  TRANSIENT_STATUS_CODES,
+  computeBackoffDelay,
+  isRetryable,
+  parseRetryAfter,
+  sleep
+} from '../utils/resilience.js';
+import { ServiceNowNotFoundError, ServiceNowValidationError, toServiceNowError } from '../utils/servicenow-errors.js';
+import { ParsedUpdateSet } from '../utils/update-set-xml.js';
+import { createCassetteAdapter } from '../utils/cassette.js';
+import { EncodedQuery } from '../utils/encoded-query.js';
+import { validateTableName } from './table-schema.js';
+import { ChoiceInput, ChoiceSpec, normalizeChoices } from '../utils/choices.js';
+import { getCallContext } from '../utils/call-context.js';
+import type { InstanceSessionState } from '../utils/session.js';
+import { diffRecord } from '../utils/record-diff.js';
+import { ArtifactOutcome, describeNaturalKey, naturalKeyFor, naturalKeyQuery } from '../utils/natural-keys.js';
+import { RecordAction, recordReference } from '../utils/record-reference.js';
+import { ChangeInput, flattenRecord } from '../utils/change-journal.js';
+
+// Progress record returned by the CI/CD API for long-running operations
+export interface CicdProgress {
+  id: string;
+  status: string;
+  status_label?: string;
+  status_message?: string;
+  status_detail?: string;
+  error?: string;
+  percent_complete?: number;
+}
+
+// CI/CD progress status codes: 0 pending, 1 running, 2 successful, 3 failed, 4 canceled
+const CICD_FINISHED_STATUSES = ['2', '3', '4'];
+const CICD_POLL_INTERVAL_MS = 2000;
 
 export interface ScriptIncludeParams {
   name: string;
@@ -96,15 +134,105 @@ export interface FlowConnectionParams {
   branch_type?: string;
 }
 
+export interface TableColumnParams {
+  name: string;
+  label: string;
+  type: string;
+  reference_table?: string;
+  max_length?: number;
+  mandatory?: boolean;
+  default_value?: string;
+  choices?: string | ChoiceInput[];
+}
+
+export interface CreateTableParams {
+  name: string;
+  label: string;
+  scope?: string;
+  // Parent table, e.g. task
+  extends?: string;
+  extensible?: boolean;
+  // Auto-number prefix such as INV; numbers look like INV0001000
+  number_prefix?: string;
+  columns?: TableColumnParams[];
+  create_module?: boolean;
+  // Application menu title for the module; an existing menu is reused
+  menu?: string;
+}
+
+export interface CreatedTable {
+  table: any;
+  numberRecord?: any;
+  columns: any[];
+  menu?: { record: any; created: boolean };
+  module?: any;
+}
+
+export interface RecordQueryOptions {
+  limit?: number;
+  offset?: number;
+  fields?: string[] | string;
+  displayValue?: boolean | 'all';
+  excludeReferenceLink?: boolean;
+}
+
+export interface RecordPage<T = any> {
+  records: T[];
+  totalCount?: number;
+  nextLink?: string;
+}
+
+// Refresh OAuth tokens this long before ServiceNow reports them as expired
+const TOKEN_REFRESH_MARGIN_MS = 60000;
+
+const DEFAULT_PAGE_SIZE = 1000;
+
+// sys_dictionary.choice: render the field as a dropdown with a "-- None --" entry
+export const CHOICE_DROPDOWN_WITH_NONE = '1';
+
+// Default for the number column of auto-numbered tables; the counter lives in sys_number
+const NEXT_NUMBER_DEFAULT = 'javascript:global.getNextObjNumberPadded();';
+
+type RetriableRequestConfig = InternalAxiosRequestConfig & { _authRetried?: boolean };
+
+// Parses `<url>;rel="next",<url>;rel="last"` into { next: url, last: url }
+function parseLinkHeader(header?: string): Record<string, string> {
+  const links: Record<string, string> = {};
+  if (!header) {
+    return links;
+  }
+  for (const part of header.split(',')) {
+    const match = part.match(/<([^>]+)>\s*;\s*rel="?([^";]+)"?/);
+    if (match) {
+      links[match[2]] = match[1];
+    }
+  }
+  return links;
+}
+
 export class ServiceNowApiService {
   private client: AxiosInstance;
   private config: ServiceNowConfig;
-  private logger?: SimpleLogger;
-  private currentUpdateSetId?: string;
+  private logger?: Logger;
+  private accessToken?: string;
+  private refreshToken?: string;
+  private tokenExpiresAt = 0;
+  private pendingTokenRequest?: Promise<string>;
+  private resilience: ResilienceOptions;
+  private limiter: ConcurrencyLimiter;
+  private circuitBreaker: CircuitBreaker;
+  private baseAdapter: AxiosAdapter;
 
-  constructor(config: ServiceNowConfig, logger?: SimpleLogger) {
+  constructor(config: ServiceNowConfig, logger?: Logger) {
     this.config = config;
     this.logger = logger;
+    this.resilience = { ...DEFAULT_RESILIENCE_OPTIONS, ...config.resilience };
+    this.limiter = new ConcurrencyLimiter(this.resilience.maxConcurrency);
+    this.circuitBreaker = new CircuitBreaker(
+      config.instanceUrl,
+      this.resilience.circuitBreakerThreshold,
+      this.resilience.circuitBreakerResetMs
+    );
     
     this.client = axios.create({
       baseURL: config.instanceUrl,
@@ -113,31 +241,45 @@ export class ServiceNowApiService {
         'Accept': 'application/json',
         'User-Agent': 'ServiceNow-API-Client/1.0.0'
       },
-      timeout: 30000
+      timeout: config.timeoutMs ?? 30000
     });
 
+    // Retries, throttling and the circuit breaker wrap the transport itself so that
+    // a retried request doesn't re-run the interceptors below
+    const transport = axios.getAdapter(this.client.defaults.adapter);
+    this.baseAdapter = config.cassette ? createCassetteAdapter(transport, config.cassette) : transport;
+    this.client.defaults.adapter = (requestConfig) => this.dispatch(requestConfig);
+
     // Setup authentication
-    if (config.username && config.password) {
+    if (this.isOAuth()) {
+      this.client.interceptors.request.use(async (config) => {
+        const token = await this.getAccessToken();
+        config.headers.Authorization = `Bearer ${token}`;
+        return config;
+      });
+    } else if (config.username && config.password) {
       this.client.defaults.auth = {
         username: config.username,
         password: config.password
       };
     }
 
-    // Add request/response interceptors for logging
+    // Add request/response interceptors for logging; entries carry the tool call's correlation ID
     this.client.interceptors.request.use(
-      (config) => {
+      (requestConfig) => {
+        const correlationId = getCorrelationId();
+        if (correlationId && config.requestIdHeader) {
+          requestConfig.headers['X-Request-Id'] = correlationId;
+        }
+        // The Authorization header and secret or script fields in the body are redacted by the logger
         this.logger?.debug('API Request', {
-          method: config.method?.toUpperCase(),
-          url: config.url,
-          headers: {
-            ...config.headers,
-            Authorization: config.headers?.Authorization ? '***REDACTED***' : undefined
-          },
-          service: 'servicenow-api',
-          timestamp: new Date().toISOString()
+          method: requestConfig.method?.toUpperCase(),
+          url: requestConfig.url,
+          params: requestConfig.params,
+          headers: { ...requestConfig.headers },
+          data: requestConfig.data,
         });
-        return config;
+        return requestConfig;
       }
     );
 
@@ -145,51 +287,330 @@ export class ServiceNowApiService {
       (response) => {
         this.logger?.debug('API Response', {
           status: response.status,
-          url: response.config.url,
-          service: 'servicenow-api',
-          timestamp: new Date().toISOString()
+          url: response.config.url
         });
         return response;
       },
-      (error) => {
+      async (error) => {
+        // An OAuth token can be revoked or expire early; fetch a new one and replay the request once
+        const request = error.config as RetriableRequestConfig | undefined;
+        if (error.response?.status === 401 && this.isOAuth() && request && !request._authRetried) {
+          request._authRetried = true;
+          this.invalidateAccessToken();
+          this.logger?.warn('Received 401 from ServiceNow, refreshing OAuth token and retrying', {
+            url: request.url
+          });
+          return this.client.request(request);
+        }
+
         this.logger?.error(`API Error ${error.message}`, {
           status: error.response?.status,
           url: error.config?.url,
-          response: error.response?.data,
-          service: 'servicenow-api',
-          timestamp: new Date().toISOString()
+          response: error.response?.data
         });
-        throw error;
+        throw toServiceNowError(error);
       }
     );
   }
 
+  private async dispatch(config: InternalAxiosRequestConfig): Promise<AxiosResponse> {
+    for (let attempt = 0; ; attempt++) {
+      this.circuitBreaker.assertAvailable();
+
+      let delay: number | undefined;
+      await this.limiter.acquire();
+      try {
+        const response = await this.baseAdapter(config);
+        this.circuitBreaker.recordSuccess();
+        return response;
+      } catch (error) {
+        const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+        // Outages and dropped connections count against the instance; any other
+        // response, throttling included, shows it is up
+        if (status === undefined || (status !== 429 && TRANSIENT_STATUS_CODES.includes(status))) {
+          this.circuitBreaker.recordFailure();
+        } else {
+          this.circuitBreaker.recordSuccess();
+        }
+        if (attempt >= this.resilience.maxRetries || !isRetryable(config.method, status) || this.circuitBreaker.isOpen) {
+          throw error;
+        }
+
+        const retryAfter = axios.isAxiosError(error) ? error.response?.headers['retry-after'] : undefined;
+        delay = computeBackoffDelay(attempt, this.resilience, parseRetryAfter(retryAfter));
+        if (delay === undefined) {
+          // Asked to wait longer than maxDelayMs; surface the throttling error instead
+          throw error;
+        }
+        this.logger?.warn(`Retrying ${config.method?.toUpperCase()} ${config.url} in ${delay}ms`, {
+          status: status ?? (error as Error).message,
+          attempt: attempt + 1,
+          maxRetries: this.resilience.maxRetries
+        });
+      } finally {
+        this.limiter.release();
+      }
+      await sleep(delay);
+    }
+  }
+
   async authenticate(): Promise<void> {
-    // For basic auth, no explicit authentication needed
-    this.logger?.info('Using Basic authentication, no token required', {
-      service: 'servicenow-api',
-      timestamp: new Date().toISOString()
+    if (!this.isOAuth()) {
+      // For basic auth, no explicit authentication needed
+      this.logger?.info('Using Basic authentication, no token required');
+      return;
+    }
+
+    await this.getAccessToken();
+    this.logger?.info('Authenticated with OAuth 2.0', {
+      grantType: this.getGrantType(),
+      expiresAt: new Date(this.tokenExpiresAt).toISOString()
+    });
+  }
+
+  private isOAuth(): boolean {
+    return this.config.authType === 'oauth2';
+  }
+
+  private getGrantType(): 'refresh_token' | 'password' | 'client_credentials' {
+    if (this.refreshToken) {
+      return 'refresh_token';
+    }
+    // Password grant when user credentials are available, otherwise act as the OAuth client itself
+    return this.config.username && this.config.password ? 'password' : 'client_credentials';
+  }
+
+  private async getAccessToken(): Promise<string> {
+    if (this.accessToken && Date.now() < this.tokenExpiresAt - TOKEN_REFRESH_MARGIN_MS) {
+      return this.accessToken;
+    }
+
+    // Share a single in-flight token request between concurrent API calls
+    if (!this.pendingTokenRequest) {
+      this.pendingTokenRequest = this.requestAccessToken().finally(() => {
+        this.pendingTokenRequest = undefined;
+      });
+    }
+    return this.pendingTokenRequest;
+  }
+
+  private async requestAccessToken(): Promise<string> {
+    const grantType = this.getGrantType();
+    const body = new URLSearchParams({
+      grant_type: grantType,
+      client_id: this.config.clientId || '',
+      client_secret: this.config.clientSecret || ''
     });
+
+    if (grantType === 'refresh_token') {
+      body.set('refresh_token', this.refreshToken!);
+    } else if (grantType === 'password') {
+      body.set('username', this.config.username!);
+      body.set('password', this.config.password!);
+    }
+
+    try {
+      // Token requests bypass this.client so they don't recurse through the auth interceptor
+      const response = await axios.post<ServiceNowAuthResponse>(
+        `${this.config.instanceUrl}/oauth_token.do`,
+        body.toString(),
+        {
+          headers: {
+            'Content-Type': 'application/x-www-form-urlencoded',
+            'Accept': 'application/json'
+          },
+          timeout: 30000,
+          adapter: this.baseAdapter
+        }
+      );
+
+      const token = response.data;
+      this.accessToken = token.access_token;
+      this.refreshToken = token.refresh_token || this.refreshToken;
+      this.tokenExpiresAt = Date.now() + token.expires_in * 1000;
+
+      this.logger?.debug('Obtained OAuth access token', {
+        grantType,
+        expiresIn: token.expires_in
+      });
+      return token.access_token;
+    } catch (error) {
+      if (grantType === 'refresh_token') {
+        // Refresh tokens expire too; fall back to the original grant
+        this.refreshToken = undefined;
+        return this.requestAccessToken();
+      }
+
+      const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+      throw new Error(`OAuth token request failed (${grantType}${status ? `, HTTP ${status}` : ''}): ${(error as Error).message}`);
+    }
+  }
+
+  private invalidateAccessToken(): void {
+    this.accessToken = undefined;
+    this.tokenExpiresAt = 0;
+  }
+
+  /**
+   * Record types default to `any`; pass an interface from `npm run generate-types`
+   * to type the result, e.g. `getRecords<Incident>('incident', query)`.
+   */
+  async getRecords<T = any>(table: string, query?: string | EncodedQuery, options: RecordQueryOptions = {}): Promise<T[]> {
+    const page = await this.getRecordPage<T>(table, query, options);
+    return page.records;
+  }
+
+  async getRecordPage<T = any>(table: string, query?: string | EncodedQuery, options: RecordQueryOptions = {}): Promise<RecordPage<T>> {
+    const response = await this.client.get(`/api/now/table/${table}`, {
+      params: this.buildQueryParams(query, options)
+    });
+    return this.toRecordPage(response);
   }
 
-  async getRecords(table: string, query?: string): Promise<any[]> {
-    const params: any = {};
-    if (query) {
-      params.sysparm_query = query;
+  /**
+   * Walks a table page by page, following the `rel="next"` Link header ServiceNow
+   * returns for paginated Table API responses. `options.limit` is the page size.
+   */
+  async *iterateRecordPages(table: string, query?: string | EncodedQuery, options: RecordQueryOptions = {}): AsyncGenerator<RecordPage> {
+    const params = this.buildQueryParams(query, { ...options, limit: options.limit || DEFAULT_PAGE_SIZE });
+    let response = await this.client.get(`/api/now/table/${table}`, { params });
+
+    while (true) {
+      const page = this.toRecordPage(response);
+      yield page;
+
+      if (!page.nextLink || page.records.length === 0) {
+        return;
+      }
+      // The next link is absolute and already carries every sysparm_ parameter
+      response = await this.client.get(page.nextLink);
     }
+  }
 
-    const response = await this.client.get(`/api/now/table/${table}`, { params });
-    return response.data.result;
+  async *iterateRecords(table: string, query?: string | EncodedQuery, options: RecordQueryOptions = {}): AsyncGenerator<any> {
+    for await (const page of this.iterateRecordPages(table, query, options)) {
+      yield* page.records;
+    }
+  }
+
+  private buildQueryParams(query: string | EncodedQuery | undefined, options: RecordQueryOptions): Record<string, string | number | boolean> {
+    const params: Record<string, string | number | boolean> = {};
+    const encoded = query?.toString();
+    if (encoded) {
+      params.sysparm_query = encoded;
+    }
+    if (options.limit !== undefined) {
+      params.sysparm_limit = options.limit;
+    }
+    if (options.offset !== undefined) {
+      params.sysparm_offset = options.offset;
+    }
+    if (options.fields) {
+      params.sysparm_fields = Array.isArray(options.fields) ? options.fields.join(',') : options.fields;
+    }
+    if (options.displayValue !== undefined) {
+      params.sysparm_display_value = options.displayValue;
+    }
+    if (options.excludeReferenceLink !== undefined) {
+      params.sysparm_exclude_reference_link = options.excludeReferenceLink;
+    }
+    return params;
+  }
+
+  private toRecordPage<T>(response: AxiosResponse): RecordPage<T> {
+    const totalCount = response.headers['x-total-count'];
+    return {
+      records: response.data.result,
+      totalCount: totalCount !== undefined ? parseInt(totalCount, 10) : undefined,
+      nextLink: parseLinkHeader(response.headers['link'])['next']
+    };
   }
 
   async createRecord(table: string, data: any): Promise<any> {
     // Add update set if one is tracked and not already set
-    if (this.currentUpdateSetId && !data.sys_update_set) {
-      data.sys_update_set = this.currentUpdateSetId;
+    const updateSetId = this.sessionState()?.updateSetId;
+    if (updateSetId && !data.sys_update_set) {
+      data.sys_update_set = updateSetId;
     }
-    
+
+    const context = getCallContext();
+    const keyFields = context?.idempotent ? naturalKeyFor(table, data) : undefined;
+    if (context && keyFields) {
+      const { record, outcome } = await this.upsertRecord(table, data, keyFields);
+      context.artifacts.push(outcome);
+      return record;
+    }
+
+    return this.insertRecord(table, data);
+  }
+
+  private async insertRecord(table: string, data: any): Promise<any> {
     const response = await this.client.post(`/api/now/table/${table}`, data);
-    return response.data.result;
+    const record = response.data.result;
+    this.trackRecord(table, record, 'created');
+    this.journalChange({ operation: 'create', table, sys_id: record.sys_id, fields: Object.keys(data), after: flattenRecord(record) });
+    return record;
+  }
+
+  // The calling session's update set and scope on this instance; one client serves every session
+  private sessionState(): InstanceSessionState | undefined {
+    const context = getCallContext();
+    return context?.session.state(context.instance);
+  }
+
+  private get currentScope(): string {
+    return this.sessionState()?.scope || this.config.defaultScope;
+  }
+
+  // Reports a written record to the tool call in progress, if any
+  private trackRecord(table: string, record: any, action: RecordAction): void {
+    getCallContext()?.records.push(recordReference(this.config.instanceUrl, table, record ?? {}, action));
+  }
+
+  private journalChange(change: Omit<ChangeInput, 'tool' | 'instance'>): void {
+    const context = getCallContext();
+    context?.journal?.record({ tool: context.toolName, instance: context.instance, ...change });
+  }
+
+  // The record as stored, fetched only when the change will be journaled
+  private async beforeImage(table: string, sysId: string): Promise<Record<string, string> | undefined> {
+    if (!getCallContext()?.journal) {
+      return undefined;
+    }
+    return flattenRecord(await this.getRecord(table, sysId, { excludeReferenceLink: true }));
+  }
+
+  /**
+   * Creates the record unless one with the same natural key exists, in which
+   * case only the fields that differ are written.
+   */
+  async upsertRecord(table: string, data: Record<string, any>, keyFields: string[]): Promise<{ record: any; outcome: ArtifactOutcome }> {
+    const key = describeNaturalKey(keyFields, data);
+    const matches = await this.getRecords(table, naturalKeyQuery(keyFields, data), { limit: 2, excludeReferenceLink: true });
+    if (matches.length > 1) {
+      this.logger?.warn(`${matches.length}+ ${table} records match ${key}; updating ${matches[0].sys_id}`);
+    }
+
+    const [existing] = matches;
+    if (!existing) {
+      const record = await this.insertRecord(table, data);
+      return { record, outcome: { table, action: 'created', sysId: record.sys_id, key, changedFields: [] } };
+    }
+
+    // The update set only says where a change is captured; it is not part of the artifact
+    const { sys_update_set, ...fields } = data;
+    const changes = diffRecord(existing, fields);
+    if (changes.length === 0) {
+      this.trackRecord(table, existing, 'unchanged');
+      return { record: existing, outcome: { table, action: 'unchanged', sysId: existing.sys_id, key, changedFields: [] } };
+    }
+
+    const update = Object.fromEntries(changes.map((change) => [change.field, fields[change.field]]));
+    const record = await this.updateRecord(table, existing.sys_id, { ...update, ...(sys_update_set ? { sys_update_set } : {}) });
+    return {
+      record,
+      outcome: { table, action: 'updated', sysId: existing.sys_id, key, changedFields: changes.map((change) => change.field) }
+    };
   }
 
   async createUpdateSet(name: string, description: string): Promise<any> {
@@ -199,23 +620,88 @@ export class ServiceNowApiService {
       name: updateSetName,
       description: description,
       state: 'build',
-      application: this.config.defaultScope
+      application: this.currentScope
     };
 
     return await this.createRecord('sys_update_set', updateSetData);
   }
 
+  async completeUpdateSet(sysId: string): Promise<any> {
+    return await this.updateRecord('sys_update_set', sysId, { state: 'complete' });
+  }
+
+  /**
+   * Retrieves an exported update set into this instance as a loaded
+   * sys_remote_update_set, ready for preview.
+   */
+  async loadRemoteUpdateSet(parsed: ParsedUpdateSet): Promise<any> {
+    // remote_sys_id already points back at the update set on the source instance
+    const { sys_id, ...updateSetFields } = parsed.updateSet;
+    const remoteUpdateSet = await this.createRecord('sys_remote_update_set', {
+      ...updateSetFields,
+      state: 'loaded'
+    });
+
+    for (const update of parsed.updates) {
+      const { sys_id: updateSysId, update_set, ...updateFields } = update;
+      await this.createRecord('sys_update_xml', {
+        ...updateFields,
+        remote_update_set: remoteUpdateSet.sys_id
+      });
+    }
+    return remoteUpdateSet;
+  }
+
+  async previewRemoteUpdateSet(remoteUpdateSetId: string): Promise<CicdProgress> {
+    const response = await this.client.post(`/api/sn_cicd/update_set/preview/${remoteUpdateSetId}`);
+    return this.toCicdProgress(response.data.result);
+  }
+
+  async commitRemoteUpdateSet(remoteUpdateSetId: string, force: boolean = false): Promise<CicdProgress> {
+    const response = await this.client.post(`/api/sn_cicd/update_set/commit/${remoteUpdateSetId}`, undefined, {
+      params: force ? { force_commit: true } : undefined
+    });
+    return this.toCicdProgress(response.data.result);
+  }
+
+  async getCicdProgress(progressId: string): Promise<CicdProgress> {
+    const response = await this.client.get(`/api/sn_cicd/progress/${progressId}`);
+    return { ...this.toCicdProgress(response.data.result), id: progressId };
+  }
+
+  async waitForCicdProgress(progress: CicdProgress, timeoutMs: number = 300000): Promise<CicdProgress> {
+    const deadline = Date.now() + timeoutMs;
+    let current = progress;
+    while (!CICD_FINISHED_STATUSES.includes(current.status)) {
+      if (Date.now() >= deadline) {
+        throw new Error(`Timed out after ${timeoutMs}ms waiting for CI/CD progress ${current.id} (${current.status_label ?? current.status})`);
+      }
+      await sleep(CICD_POLL_INTERVAL_MS);
+      current = await this.getCicdProgress(current.id);
+    }
+    return current;
+  }
+
+  private toCicdProgress(result: any): CicdProgress {
+    return {
+      ...result,
+      id: result?.links?.progress?.id ?? result?.id,
+      status: String(result?.status ?? '')
+    };
+  }
+
   async setCurrentUpdateSet(sysId: string): Promise<void> {
     try {
       // Get current user ID first
-      const userResponse = await this.getRecords('sys_user', `user_name=${this.config.username}`);
+      const userResponse = await this.getRecords('sys_user', EncodedQuery.where('user_name', '=', this.config.username ?? ''));
       if (!userResponse || userResponse.length === 0) {
         throw new Error('Could not determine current user ID');
       }
       const userId = userResponse[0].sys_id;
       
       // Check for existing preference
-      const prefResponse = await this.getRecords('sys_user_preference', `user=${userId}^name=sys_update_set`);
+      const prefResponse = await this.getRecords('sys_user_preference',
+        EncodedQuery.where('user', '=', userId).and('name', '=', 'sys_update_set'));
       
       if (prefResponse && prefResponse.length > 0) {
         // Update existing preference
@@ -230,21 +716,9 @@ export class ServiceNowApiService {
         });
       }
       
-      // Store locally for direct field setting
-      this.currentUpdateSetId = sysId;
-      
-      this.logger?.info(`Successfully set current update set to ${sysId}`, {
-        service: 'servicenow-api',
-        timestamp: new Date().toISOString()
-      });
+      this.logger?.info(`Successfully set current update set to ${sysId}`);
     } catch (error) {
-      // Still store locally for direct field setting even if preference setting fails
-      this.currentUpdateSetId = sysId;
-      
-      this.logger?.warn(`Failed to set update set preference: ${(error as Error).message}`, {
-        service: 'servicenow-api',
-        timestamp: new Date().toISOString()
-      });
+      this.logger?.warn(`Failed to set update set preference: ${(error as Error).message}`);
       throw error;
     }
   }
@@ -262,29 +736,170 @@ export class ServiceNowApiService {
     return await this.createRecord('sys_app', applicationData);
   }
 
-  async setApplicationScope(scope: string): Promise<void> {
-    // This would normally set the current application scope for development
-    // For now, we'll just log this action as it requires special API permissions
-    this.logger?.info(`Would set current application scope to ${scope}`, {
-      service: 'servicenow-api',
-      timestamp: new Date().toISOString()
+  /**
+   * Creates a table (sys_db_object) with its columns, optional auto-number
+   * counter and an application menu module pointing at its list.
+   */
+  async createTable(params: CreateTableParams): Promise<CreatedTable> {
+    const scope = params.scope || this.currentScope;
+    validateTableName(params.name, scope);
+
+    const existing = await this.getRecords('sys_db_object', EncodedQuery.where('name', '=', params.name), { limit: 1, fields: ['sys_id'] });
+    // In idempotent mode the existing table is reused and brought in line instead
+    if (existing.length > 0 && !getCallContext()?.idempotent) {
+      throw new ServiceNowValidationError(`Table '${params.name}' already exists`, { table: 'sys_db_object', field: 'name' });
+    }
+
+    let superClass: string | undefined;
+    if (params.extends) {
+      const [parent] = await this.getRecords('sys_db_object', EncodedQuery.where('name', '=', params.extends), {
+        limit: 1,
+        fields: ['sys_id', 'is_extendable']
+      });
+      if (!parent) {
+        throw new ServiceNowNotFoundError(`Parent table '${params.extends}' does not exist`, { table: params.extends });
+      }
+      if (parent.is_extendable === 'false') {
+        throw new ServiceNowValidationError(`Table '${params.extends}' is not extensible`, { table: params.extends, field: 'is_extendable' });
+      }
+      superClass = parent.sys_id;
+    }
+
+    // Normalized up front so bad choice lists fail before anything is created
+    const columnChoices = new Map((params.columns ?? []).map((column) =>
+      [column.name, column.choices ? normalizeChoices(column.choices) : []]
+    ));
+
+    const table = await this.createRecord('sys_db_object', {
+      name: params.name,
+      label: params.label,
+      super_class: superClass ?? '',
+      is_extendable: params.extensible === true,
+      create_access_controls: true,
+      sys_scope: scope
     });
-    
-    // Update the config for future operations
-    this.config.defaultScope = scope;
+
+    // Created after the table so a refused table insert leaves no orphan number prefix
+    const numberRecord = params.number_prefix
+      ? await this.createRecord('sys_number', {
+        category: params.name,
+        prefix: params.number_prefix,
+        number: 1000,
+        maximum_digits: 7
+      })
+      : undefined;
+
+    const columns = [...(params.columns ?? [])];
+    // Tables extending task inherit task.number; others need their own number column
+    if (params.number_prefix && !params.extends && !columns.some((column) => column.name === 'number')) {
+      columns.unshift({ name: 'number', label: 'Number', type: 'string', max_length: 40, default_value: NEXT_NUMBER_DEFAULT });
+    }
+    const createdColumns = [];
+    for (const column of columns) {
+      const choices = columnChoices.get(column.name) ?? [];
+      createdColumns.push(await this.createRecord('sys_dictionary', {
+        name: params.name,
+        element: column.name,
+        column_label: column.label,
+        internal_type: column.type,
+        mandatory: column.mandatory === true,
+        ...(column.reference_table ? { reference: column.reference_table } : {}),
+        ...(column.max_length ? { max_length: column.max_length } : {}),
+        ...(column.default_value ? { default_value: column.default_value } : {}),
+        ...(choices.length > 0 ? { choice: CHOICE_DROPDOWN_WITH_NONE } : {})
+      }));
+      await this.createFieldChoices(params.name, column.name, choices);
+    }
+
+    if (params.create_module === false) {
+      return { table, numberRecord, columns: createdColumns };
+    }
+
+    const menuTitle = params.menu || params.label;
+    const [existingMenu] = await this.getRecords('sys_app_application', EncodedQuery.where('title', '=', menuTitle), {
+      limit: 1,
+      fields: ['sys_id', 'title']
+    });
+    const menu = existingMenu
+      ? { record: existingMenu, created: false }
+      : { record: await this.createRecord('sys_app_application', { title: menuTitle, active: true, sys_scope: scope }), created: true };
+
+    const module = await this.createRecord('sys_app_module', {
+      title: params.label,
+      application: menu.record.sys_id,
+      name: params.name,
+      link_type: 'LIST',
+      active: true,
+      order: 100,
+      sys_scope: scope
+    });
+
+    return { table, numberRecord, columns: createdColumns, menu, module };
+  }
+
+  // Choices of a dictionary field live in sys_choice, keyed by table and element
+  async createFieldChoices(table: string, element: string, choices: ChoiceSpec[]): Promise<any[]> {
+    const created = [];
+    for (const choice of choices) {
+      created.push(await this.createRecord('sys_choice', {
+        name: table,
+        element,
+        value: choice.value,
+        label: choice.label,
+        sequence: choice.sequence,
+        language: choice.language,
+        inactive: choice.inactive,
+        ...(choice.dependent_value ? { dependent_value: choice.dependent_value } : {})
+      }));
+    }
+    return created;
+  }
+
+  // Catalog variable choices live in question_choice; `text` is the label
+  async createVariableChoices(variableId: string, choices: ChoiceSpec[]): Promise<any[]> {
+    const created = [];
+    for (const choice of choices) {
+      created.push(await this.createRecord('question_choice', {
+        question: variableId,
+        value: choice.value,
+        text: choice.label,
+        order: choice.sequence,
+        inactive: choice.inactive
+      }));
+    }
+    return created;
   }
 
   async updateRecord(table: string, sysId: string, data: any): Promise<any> {
+    const before = await this.beforeImage(table, sysId);
     const response = await this.client.put(`/api/now/table/${table}/${sysId}`, data);
+    const record = response.data.result;
+    this.trackRecord(table, { sys_id: sysId, ...record }, 'updated');
+    this.journalChange({ operation: 'update', table, sys_id: sysId, fields: Object.keys(data), before, after: flattenRecord(record) });
+    return record;
+  }
+
+  async getRecord<T = any>(table: string, sysId: string, options: RecordQueryOptions = {}): Promise<T> {
+    const { limit, offset, ...recordOptions } = options;
+    const response = await this.client.get(`/api/now/table/${table}/${sysId}`, {
+      params: this.buildQueryParams(undefined, recordOptions)
+    });
     return response.data.result;
   }
 
+  async deleteRecord(table: string, sysId: string): Promise<void> {
+    const before = await this.beforeImage(table, sysId);
+    await this.client.delete(`/api/now/table/${table}/${sysId}`);
+    this.trackRecord(table, { sys_id: sysId, ...before }, 'deleted');
+    this.journalChange({ operation: 'delete', table, sys_id: sysId, fields: [], before });
+  }
+
   async createScriptInclude(params: ScriptIncludeParams): Promise<any> {
     const scriptIncludeData = {
       name: params.name,
       script: params.script,
       description: params.description || '',
-      sys_scope: params.application_scope || this.config.defaultScope,
+      sys_scope: params.application_scope || this.currentScope,
       api_name: params.api_name || params.name,
       access: params.access || 'package_private',
       active: params.active !== false
@@ -414,13 +1029,19 @@ export class ServiceNowApiService {
     field_message?: string;
   }): Promise<any> {
     // First, get the catalog UI policy to find the catalog item
-    const policyRecords = await this.getRecords('catalog_ui_policy', `sys_id=${params.catalog_ui_policy}`);
+    const policyRecords = await this.getRecords('catalog_ui_policy', EncodedQuery.where('sys_id', '=', params.catalog_ui_policy));
     if (!policyRecords || policyRecords.length === 0) {
-      throw new Error('Catalog UI Policy not found');
+      throw new ServiceNowNotFoundError(`Catalog UI Policy ${params.catalog_ui_policy} not found`, {
+        table: 'catalog_ui_policy',
+        sysId: params.catalog_ui_policy
+      });
     }
     const policyResponse = policyRecords[0];
     if (!policyResponse.catalog_item) {
-      throw new Error('Catalog UI Policy has no catalog item');
+      throw new ServiceNowValidationError('Catalog UI Policy has no catalog item', {
+        table: 'catalog_ui_policy',
+        field: 'catalog_item'
+      });
     }
 
     // Extract the catalog_item sys_id from the reference field
@@ -429,11 +1050,14 @@ export class ServiceNowApiService {
       : policyResponse.catalog_item;
 
     if (!catalogItemId) {
-      throw new Error('Catalog UI Policy catalog_item reference is empty');
+      throw new ServiceNowValidationError('Catalog UI Policy catalog_item reference is empty', {
+        table: 'catalog_ui_policy',
+        field: 'catalog_item'
+      });
     }
 
     // Now find the variable by name in the catalog item
-    const variableQuery = `cat_item=${catalogItemId}^name=${params.variable_name}`;
+    const variableQuery = EncodedQuery.where('cat_item', '=', catalogItemId).and('name', '=', params.variable_name);
     this.logger?.info(`Looking for variable with query: ${variableQuery}`);
     this.logger?.info(`Catalog item: ${catalogItemId}, Variable name: ${params.variable_name}`);
     
@@ -442,9 +1066,12 @@ export class ServiceNowApiService {
     
     if (!variables || variables.length === 0) {
       // Let's also try a broader search to see what variables exist
-      const allVariables = await this.getRecords('item_option_new', `cat_item=${catalogItemId}`);
+      const allVariables = await this.getRecords('item_option_new', EncodedQuery.where('cat_item', '=', catalogItemId));
       this.logger?.info(`All variables in catalog item: ${JSON.stringify(allVariables.map(v => ({ name: v.name, sys_id: v.sys_id })))}`);
-      throw new Error(`Variable '${params.variable_name}' not found in catalog item ${catalogItemId}. Found ${allVariables.length} total variables.`);
+      throw new ServiceNowNotFoundError(
+        `Variable '${params.variable_name}' not found in catalog item ${catalogItemId}. Found ${allVariables.length} total variables.`,
+        { table: 'item_option_new', field: 'name' }
+      );
     }
 
     const variableSysId = variables[0].sys_id;
@@ -493,7 +1120,7 @@ export class ServiceNowApiService {
     const flowData = {
       name: params.name,
       description: params.description || '',
-      sys_scope: params.scope || this.config.defaultScope,
+      sys_scope: params.scope || this.currentScope,
       active: params.active !== false,
       state: 'published'
     };
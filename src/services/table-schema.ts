@@ -0,0 +1,272 @@
+import type { ServiceNowApiService } from './servicenow-api.js';
+import { EncodedQuery } from '../utils/encoded-query.js';
+import { ServiceNowNotFoundError, ServiceNowValidationError } from '../utils/servicenow-errors.js';
+
+export interface TableChoice {
+  value: string;
+  label: string;
+}
+
+export interface TableColumn {
+  name: string;
+  label: string;
+  type: string;
+  // Table a reference field points at
+  reference?: string;
+  mandatory: boolean;
+  readOnly: boolean;
+  maxLength?: number;
+  defaultValue?: string;
+  // Table in the hierarchy whose dictionary defines the column
+  definedOn: string;
+  choices: TableChoice[];
+}
+
+export interface TableSchema {
+  name: string;
+  label: string;
+  // The table itself first, then each parent up to the root (e.g. incident, task)
+  hierarchy: string[];
+  columns: TableColumn[];
+}
+
+export interface TableSummary {
+  name: string;
+  label: string;
+  superClass?: string;
+  scope?: string;
+}
+
+export interface ListTablesOptions {
+  // Matched against table name and label
+  filter?: string;
+  // Only tables directly extending this one
+  extendsTable?: string;
+  limit?: number;
+}
+
+// Dictionary changes are rare; a stale schema only costs a rejected or unchecked field name
+export const SCHEMA_CACHE_TTL_MS = 15 * 60 * 1000;
+
+// Guards against cycles or runaway chains in sys_db_object.super_class
+const MAX_HIERARCHY_DEPTH = 10;
+
+const DICTIONARY_FIELDS = [
+  'name', 'element', 'column_label', 'internal_type', 'reference', 'mandatory', 'read_only', 'max_length', 'default_value',
+];
+
+const TABLE_NAME_PATTERN = /^[a-z][a-z0-9_]*$/;
+const MAX_TABLE_NAME_LENGTH = 80;
+
+/**
+ * Custom tables must live in their scope's namespace: `u_` in the global
+ * scope, the scope name (e.g. `x_acme_invoice_`) in a scoped application.
+ */
+export function validateTableName(name: string, scope: string): void {
+  if (!TABLE_NAME_PATTERN.test(name) || name.length > MAX_TABLE_NAME_LENGTH) {
+    throw new ServiceNowValidationError(
+      `Table name '${name}' must be lowercase letters, digits and underscores, starting with a letter, at most ${MAX_TABLE_NAME_LENGTH} characters`,
+      { table: name, field: 'name' }
+    );
+  }
+  const prefix = scope === 'global' ? 'u_' : `${scope}_`;
+  if (!name.startsWith(prefix) || name.length === prefix.length) {
+    throw new ServiceNowValidationError(
+      `Table name '${name}' must start with '${prefix}' in the ${scope} scope (e.g. '${prefix}${name.replace(/^u_/, '')}')`,
+      { table: name, field: 'name' }
+    );
+  }
+}
+
+interface CacheEntry<T> {
+  value: Promise<T>;
+  expiresAt: number;
+}
+
+function editDistance(a: string, b: string): number {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j++) {
+      const above = previous[j];
+      previous[j] = Math.min(previous[j] + 1, previous[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1));
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+// Closest column names to a misspelt one, for error messages
+export function suggestColumns(schema: TableSchema, name: string, max: number = 3): string[] {
+  return schema.columns
+    .map((column) => {
+      const [wanted, candidate] = [name.toLowerCase(), column.name.toLowerCase()];
+      // Abbreviations such as short_desc count as close as a one-letter typo
+      const distance = candidate.startsWith(wanted) ? 1 : editDistance(wanted, candidate);
+      return { name: column.name, distance };
+    })
+    .filter((candidate) => candidate.distance <= Math.max(2, Math.floor(name.length / 3)))
+    .sort((a, b) => a.distance - b.distance || a.name.localeCompare(b.name))
+    .slice(0, max)
+    .map((candidate) => candidate.name);
+}
+
+/**
+ * Reads table definitions from sys_db_object, sys_dictionary and sys_choice.
+ * Columns inherited through `super_class` are included, with the most
+ * specific table's dictionary entry winning. One instance per ServiceNow
+ * instance, so cached schemas never leak between instances.
+ */
+export class TableSchemaService {
+  private schemas = new Map<string, CacheEntry<TableSchema>>();
+  private tableLists = new Map<string, CacheEntry<TableSummary[]>>();
+
+  constructor(private api: ServiceNowApiService, private ttlMs: number = SCHEMA_CACHE_TTL_MS) {}
+
+  describeTable(table: string): Promise<TableSchema> {
+    return this.cached(this.schemas, table, () => this.loadSchema(table));
+  }
+
+  listTables(options: ListTablesOptions = {}): Promise<TableSummary[]> {
+    const { filter, extendsTable, limit = 50 } = options;
+    return this.cached(this.tableLists, JSON.stringify([filter, extendsTable, limit]), async () => {
+      const query = EncodedQuery.create();
+      if (filter) {
+        query.and('name', 'LIKE', filter).or('label', 'LIKE', filter);
+      }
+      if (extendsTable) {
+        query.and('super_class.name', '=', extendsTable);
+      }
+      query.orderBy('name');
+
+      const records = await this.api.getRecords('sys_db_object', query, {
+        limit,
+        fields: ['name', 'label', 'super_class', 'sys_scope'],
+        displayValue: 'all',
+        excludeReferenceLink: true
+      });
+      return records.map((record) => ({
+        name: record.name?.value ?? record.name,
+        label: record.label?.display_value ?? record.label,
+        superClass: record.super_class?.display_value || undefined,
+        scope: record.sys_scope?.display_value || undefined,
+      }));
+    });
+  }
+
+  /**
+   * Throws a validation error naming every field the table does not have,
+   * with close matches, so typos fail before anything is written.
+   */
+  async validateFields(table: string, fields: string[]): Promise<void> {
+    const schema = await this.describeTable(table);
+    const known = new Set(schema.columns.map((column) => column.name));
+    const unknown = fields.filter((field) => !known.has(field));
+    if (unknown.length === 0) {
+      return;
+    }
+
+    const details = unknown.map((field) => {
+      const suggestions = suggestColumns(schema, field);
+      return suggestions.length > 0 ? `'${field}' (did you mean ${suggestions.join(', ')}?)` : `'${field}'`;
+    });
+    throw new ServiceNowValidationError(`Unknown field(s) on '${table}': ${details.join('; ')}`, {
+      table,
+      field: unknown[0]
+    });
+  }
+
+  invalidate(table?: string): void {
+    if (table) {
+      this.schemas.delete(table);
+    } else {
+      this.schemas.clear();
+    }
+    this.tableLists.clear();
+  }
+
+  private cached<T>(cache: Map<string, CacheEntry<T>>, key: string, load: () => Promise<T>): Promise<T> {
+    const entry = cache.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return entry.value;
+    }
+    const value = load();
+    cache.set(key, { value, expiresAt: Date.now() + this.ttlMs });
+    // Failed lookups are not cached, so a fixed ACL or a new table is picked up on the next call
+    value.catch(() => cache.delete(key));
+    return value;
+  }
+
+  private async loadSchema(table: string): Promise<TableSchema> {
+    let current: any = await this.findTable(table);
+    if (!current) {
+      throw new ServiceNowNotFoundError(`Table '${table}' does not exist`, { table });
+    }
+    const label = current.label || table;
+    const hierarchy: string[] = [];
+
+    while (current && hierarchy.length < MAX_HIERARCHY_DEPTH && !hierarchy.includes(current.name)) {
+      hierarchy.push(current.name);
+      current = current.super_class
+        ? await this.api.getRecord('sys_db_object', current.super_class, { fields: ['name', 'label', 'super_class'], excludeReferenceLink: true })
+        : undefined;
+    }
+
+    const [entries, choices] = await Promise.all([
+      this.api.getRecords('sys_dictionary', EncodedQuery.where('name', 'IN', hierarchy).and('element', 'ISNOTEMPTY'), {
+        fields: DICTIONARY_FIELDS,
+        excludeReferenceLink: true
+      }),
+      this.api.getRecords('sys_choice',
+        EncodedQuery.where('name', 'IN', hierarchy).and('inactive', '!=', true).orderBy('sequence'), {
+          fields: ['name', 'element', 'value', 'label'],
+          excludeReferenceLink: true
+        }),
+    ]);
+
+    // Walk from the table up, so the first definition of a column is the most specific one
+    const columns = new Map<string, TableColumn>();
+    for (const owner of hierarchy) {
+      for (const entry of entries.filter((candidate) => candidate.name === owner && !columns.has(candidate.element))) {
+        columns.set(entry.element, {
+          name: entry.element,
+          label: entry.column_label || entry.element,
+          type: entry.internal_type || 'string',
+          reference: entry.reference || undefined,
+          mandatory: entry.mandatory === 'true',
+          readOnly: entry.read_only === 'true',
+          maxLength: entry.max_length ? Number(entry.max_length) : undefined,
+          defaultValue: entry.default_value || undefined,
+          definedOn: owner,
+          choices: [],
+        });
+      }
+    }
+
+    // Child tables often redefine the choices of an inherited column (incident.state), so
+    // each column takes the choice list of the most specific table that has one
+    for (const column of columns.values()) {
+      const owner = hierarchy.find((name) => choices.some((choice) => choice.name === name && choice.element === column.name));
+      column.choices = choices
+        .filter((choice) => choice.name === owner && choice.element === column.name)
+        .map((choice) => ({ value: choice.value, label: choice.label }));
+    }
+
+    return {
+      name: table,
+      label,
+      hierarchy,
+      columns: [...columns.values()].sort((a, b) => a.name.localeCompare(b.name)),
+    };
+  }
+
+  private async findTable(table: string): Promise<any> {
+    const [record] = await this.api.getRecords('sys_db_object', EncodedQuery.where('name', '=', table), {
+      limit: 1,
+      fields: ['name', 'label', 'super_class'],
+      excludeReferenceLink: true
+    });
+    return record;
+  }
+}
@@ -1,6 +1,8 @@
 #!/usr/bin/env node
 
 import { SimpleServiceNowMCPServer } from './simple-server.js';
+import { McpHttpServer } from './http-server.js';
+import { getConfig } from './utils/simple-config.js';
 
 // Set MCP mode to ensure logs go to stderr
 process.env.MCP_MODE = 'true';
@@ -22,15 +24,21 @@ console.error = (...args: any[]) => {
   process.stderr.write(`[ERROR] ${args.join(' ')}\n`);
 };
 
+let server: SimpleServiceNowMCPServer | McpHttpServer | undefined;
+
 async function main() {
   try {
-    // Add raw stdin logging to debug communication issues
-    process.stderr.write('[MCP-SERVER] Starting server and setting up stdin logging...\n');
-    
-    process.stdin.on('data', (chunk) => {
-      process.stderr.write(`[MCP-SERVER] Raw stdin received (${chunk.length} bytes): ${JSON.stringify(chunk.toString())}\n`);
-    });
-    
+    const config = getConfig();
+    if (config.transport.type === 'http') {
+      server = new McpHttpServer(config);
+      // Logs the address it listens on
+      await server.start();
+      return;
+    }
+
+    // Tool arguments can carry secrets, so stdin content is never echoed; calls are recorded in the audit log instead
+    process.stderr.write('[MCP-SERVER] Starting server...\n');
+
     process.stdin.on('end', () => {
       process.stderr.write('[MCP-SERVER] stdin stream ended\n');
     });
@@ -39,7 +47,7 @@ async function main() {
       process.stderr.write(`[MCP-SERVER] stdin error: ${error.message}\n`);
     });
     
-    const server = new SimpleServiceNowMCPServer();
+    server = new SimpleServiceNowMCPServer();
     await server.start();
     process.stderr.write('[MCP-SERVER] Server started successfully, waiting for messages...\n');
   } catch (error) {
@@ -49,15 +57,15 @@ async function main() {
 }
 
 // Handle graceful shutdown
-process.on('SIGINT', () => {
+async function shutdown() {
   process.stderr.write('\nShutting down ServiceNow MCP Server...\n');
+  // Let the last audit and journal entries reach the disk
+  await server?.close().catch(() => undefined);
   process.exit(0);
-});
+}
 
-process.on('SIGTERM', () => {
-  process.stderr.write('\nShutting down ServiceNow MCP Server...\n');
-  process.exit(0);
-});
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
 
 main().catch((error) => {
   process.stderr.write(`Unhandled error: ${error}\n`);
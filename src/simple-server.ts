@@ -1,20 +1,114 @@
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
 import { CallToolRequestSchema, ListToolsRequestSchema, InitializeRequestSchema } from '@modelcontextprotocol/sdk/types.js';
-import { ServiceNowApiService } from './services/servicenow-api.js';
-import { getConfig, SimpleConfig } from './utils/simple-config.js';
-import { createSimpleLogger } from './utils/simple-logger.js';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CHOICE_DROPDOWN_WITH_NONE, ServiceNowApiService } from './services/servicenow-api.js';
+import { TableSchemaService } from './services/table-schema.js';
+import { formatPlan, ManifestApplyError, ManifestRunner } from './services/manifest-runner.js';
+import { getConfig, getServiceNowConfig, SimpleConfig } from './utils/simple-config.js';
+import { createLogger, Logger, withCorrelationId } from './utils/logger.js';
+import { describeError, ServiceNowAclError, ServiceNowNotFoundError } from './utils/servicenow-errors.js';
+import { diffRecord, fieldValue, formatChanges } from './utils/record-diff.js';
+import { buildUpdateSetXml, parseUpdateSetXml, UPDATE_XML_EXPORT_FIELDS } from './utils/update-set-xml.js';
+import { formatPreviewProblems, PREVIEW_PROBLEM_RESOLUTIONS } from './utils/update-set-preview.js';
+import { InstanceProfile } from './utils/instance-profiles.js';
+import { CHOICE_SEQUENCE_STEP, DEFAULT_CHOICE_LANGUAGE, formatChoices, normalizeChoices } from './utils/choices.js';
+import { CallContext, getCallContext, runWithCallContext } from './utils/call-context.js';
+import { ArtifactOutcome, formatArtifactOutcomes } from './utils/natural-keys.js';
+import { Manifest, parseManifest } from './utils/manifest.js';
+import { displayValueOf, RecordReference, recordReference } from './utils/record-reference.js';
+import { ChangeEntry, ChangeJournal } from './utils/change-journal.js';
+import { InstanceSessionState, Session } from './utils/session.js';
+import { AuditEntry, AuditLog, parseAuditDate, truncateError } from './utils/audit-log.js';
+import { redactSecrets } from './utils/redaction.js';
+import { resolveInside } from './utils/safe-path.js';
+import { EncodedQuery, parseEncodedQuery } from './utils/encoded-query.js';
+import { defineTool, ToolDefinition, ToolRegistry, ToolResult } from './tools/registry.js';
+import { ApprovalStore } from './tools/approvals.js';
+import * as schemas from './tools/schemas.js';
+
+// Largest page requested from the Table API when a query spans several pages
+const QUERY_PAGE_SIZE = 1000;
+
+// How long a delete-record confirmation token stays valid
+const DELETE_CONFIRMATION_TTL_MS = 5 * 60 * 1000;
+
+// How long a confirm-writes approval token stays valid
+const APPROVAL_TTL_MS = 10 * 60 * 1000;
+
+// Process-wide services the HTTP transport shares between its per-connection servers
+export interface SharedServices {
+  config: SimpleConfig;
+  logger: Logger;
+  // One writer per file, so rotation and ordering hold across connections
+  auditLog: AuditLog;
+  // One authenticated client per instance profile, created on first use. Sharing
+  // it keeps rate limits, pooled connections and the circuit breaker process-wide.
+  apiPool: Map<string, Promise<ServiceNowApiService>>;
+  // Table schemas are cached per instance profile, alongside the pooled clients
+  schemaServices: Map<string, TableSchemaService>;
+}
+
+export function createSharedServices(config: SimpleConfig = getConfig()): SharedServices {
+  const logger = createLogger(config.logging);
+  return {
+    config,
+    logger,
+    auditLog: new AuditLog(config.audit, logger),
+    apiPool: new Map(),
+    schemaServices: new Map(),
+  };
+}
+
+// Variable types whose options come from question_choice
+const CHOICE_VARIABLE_TYPES = ['choice', 'select_box'];
+
+// Tables whose records change what describe-table reports
+const SCHEMA_TABLES = ['sys_db_object', 'sys_dictionary', 'sys_choice'];
+
+// Longest argument value echoed back in a planned-change summary
+const PLANNED_CHANGE_VALUE_LIMIT = 500;
 
 export class SimpleServiceNowMCPServer {
   private server: Server;
   private config: SimpleConfig;
-  private logger: any;
-  private serviceNowApi: ServiceNowApiService | null = null;
-  private currentUpdateSetId: string | null = null;
-
-  constructor() {
-    this.config = getConfig();
-    this.logger = createSimpleLogger(this.config.logging.level);
+  private logger: Logger;
+  private apiPool: Map<string, Promise<ServiceNowApiService>>;
+  private schemaServices: Map<string, TableSchemaService>;
+  private registry: ToolRegistry;
+  private deleteConfirmations = new ApprovalStore(DELETE_CONFIRMATION_TTL_MS);
+  private approvals = new ApprovalStore(APPROVAL_TTL_MS);
+  private session: Session;
+  private journal: ChangeJournal;
+  private auditLog: AuditLog;
+
+  constructor(shared: SharedServices = createSharedServices(), session: Session = new Session()) {
+    this.session = session;
+    this.config = shared.config;
+    this.logger = shared.logger;
+    this.auditLog = shared.auditLog;
+    this.apiPool = shared.apiPool;
+    this.schemaServices = shared.schemaServices;
+    this.journal = new ChangeJournal(this.config.servicenow.journalFile, this.logger, this.session.id, this.session.principal);
+    this.registry = new ToolRegistry({
+      instance: z.string().optional().describe(
+        `Instance profile to run against (${Object.keys(this.config.instances.profiles).join(', ')}; ` +
+        `defaults to ${this.config.instances.defaultInstance})`
+      ),
+      approval_token: z.string().optional().describe(
+        'One-time token returned by a confirm-writes instance; repeat the call with the same arguments plus this token to execute it'
+      ),
+    }, {
+      idempotent: z.boolean().optional().describe(
+        'Reuse artifacts that already exist (matched on their natural key, e.g. a group by name) and update only changed fields ' +
+        `instead of creating duplicates (defaults to ${this.config.servicenow.idempotent})`
+      ),
+    });
+    this.registry.use((tool, args, next) => this.runOnInstance(tool, args, next));
 
     this.server = new Server({
       name: this.config.server.name,
@@ -22,12 +116,15 @@ export class SimpleServiceNowMCPServer {
     });
 
     this.setupInitialize();
+    this.registerTools();
     this.setupTools();
   }
 
   private setupInitialize() {
     // Override the default initialize handler to include proper capabilities
     this.server.setRequestHandler(InitializeRequestSchema, async (request) => {
+      const { name, version } = request.params.clientInfo;
+      this.session.client = `${name}/${version}`;
       return {
         protocolVersion: "2024-11-05",
         capabilities: {
@@ -43,724 +140,849 @@ export class SimpleServiceNowMCPServer {
     });
   }
 
+  private registerTools() {
+    this.registry.register(
+      defineTool({
+        name: 'test-connection',
+        description: 'Test connection to ServiceNow instance',
+        category: 'connection',
+        readOnly: true,
+        schema: schemas.testConnectionSchema,
+        handler: () => this.testConnection(),
+      }),
+      defineTool({
+        name: 'list-instances',
+        description: 'List the configured ServiceNow instance profiles that tools can target',
+        category: 'connection',
+        readOnly: true,
+        schema: schemas.listInstancesSchema,
+        handler: () => this.listInstances(),
+      }),
+      defineTool({
+        name: 'get-session',
+        description: 'Show this session\'s state: instance, current update set and application scope, dry-run setting and identity',
+        category: 'connection',
+        readOnly: true,
+        schema: schemas.getSessionSchema,
+        handler: () => this.getSession(),
+      }),
+      defineTool({
+        name: 'set-session',
+        description: 'Choose the instance this session targets by default and turn dry run on or off',
+        category: 'connection',
+        readOnly: true,
+        schema: schemas.setSessionSchema,
+        handler: (args) => this.setSession(args),
+      }),
+      defineTool({
+        name: 'reset-session',
+        description: 'Clear this session\'s default instance, update sets, application scopes and dry-run setting. Changes already made are kept; use undo-session-changes to revert them',
+        category: 'connection',
+        readOnly: true,
+        schema: schemas.resetSessionSchema,
+        handler: () => this.resetSession(),
+      }),
+      defineTool({
+        name: 'query-records',
+        description: 'Query ServiceNow table records',
+        category: 'records',
+        readOnly: true,
+        schema: schemas.queryRecordsSchema,
+        handler: (args) => this.queryRecords(args),
+      }),
+      defineTool({
+        name: 'create-record',
+        description: 'Create a new record in any ServiceNow table (incidents, problems, change requests, etc.)',
+        category: 'records',
+        readOnly: false,
+        schema: schemas.createRecordSchema,
+        handler: (args) => this.createRecord(args),
+      }),
+      defineTool({
+        name: 'update-record',
+        description: 'Update fields on an existing record in any ServiceNow table. Shows a field-level diff of current vs. new values',
+        category: 'records',
+        readOnly: false,
+        schema: schemas.updateRecordSchema,
+        handler: (args) => this.updateRecord(args),
+      }),
+      defineTool({
+        name: 'delete-record',
+        description: 'Delete a record from any ServiceNow table. The first call returns the record and a confirmation token; call again with confirm set to that token to delete',
+        category: 'records',
+        readOnly: false,
+        schema: schemas.deleteRecordSchema,
+        handler: (args) => this.deleteRecord(args),
+      }),
+      defineTool({
+        name: 'list-session-changes',
+        description: 'List the records this session created, updated or deleted on the instance, newest first',
+        category: 'records',
+        readOnly: true,
+        schema: schemas.listSessionChangesSchema,
+        handler: (args) => this.listSessionChanges(args),
+      }),
+      defineTool({
+        name: 'undo-session-changes',
+        description: 'Revert changes made in this session, newest first: delete created records, restore updated and deleted ones from their before-images',
+        category: 'records',
+        readOnly: false,
+        schema: schemas.undoSessionChangesSchema,
+        handler: (args) => this.undoSessionChanges(args),
+      }),
+      defineTool({
+        name: 'export-audit-log',
+        description: 'Export the audit log of tool calls (arguments with secrets redacted, status, duration, records touched), filtered by date range, instance and tool',
+        category: 'records',
+        readOnly: true,
+        schema: schemas.exportAuditLogSchema,
+        handler: (args) => this.exportAuditLog(args),
+      }),
+      defineTool({
+        name: 'create-catalog-item',
+        description: 'Create a ServiceNow catalog item using natural language',
+        category: 'catalog',
+        readOnly: false,
+        schema: schemas.createCatalogItemSchema,
+        handler: (args) => this.createCatalogItem(args.command),
+      }),
+      defineTool({
+        name: 'create-record-producer',
+        description: 'Create a ServiceNow Record Producer with variables and configuration',
+        category: 'catalog',
+        readOnly: false,
+        schema: schemas.createRecordProducerSchema,
+        handler: (args) => this.createRecordProducer(args),
+      }),
+      defineTool({
+        name: 'create-variable',
+        description: 'Create a variable for a Record Producer or Catalog Item',
+        category: 'catalog',
+        readOnly: false,
+        schema: schemas.createVariableSchema,
+        handler: (args) => this.createVariable(args),
+      }),
+      defineTool({
+        name: 'create-variable-set',
+        description: 'Create a multi-row variable set',
+        category: 'catalog',
+        readOnly: false,
+        schema: schemas.createVariableSetSchema,
+        handler: (args) => this.createVariableSet(args),
+      }),
+      defineTool({
+        name: 'create-ui-policy',
+        description: 'Create a UI Policy for form behavior',
+        category: 'forms',
+        readOnly: false,
+        schema: schemas.createUIPolicySchema,
+        handler: (args) => this.createUIPolicy(args),
+      }),
+      defineTool({
+        name: 'create-catalog-ui-policy',
+        description: 'Create a UI policy specifically for catalog items that controls variable behavior',
+        category: 'catalog',
+        readOnly: false,
+        schema: schemas.createCatalogUIPolicySchema,
+        handler: (args) => this.createCatalogUIPolicy(args),
+      }),
+      defineTool({
+        name: 'create-catalog-ui-policy-action',
+        description: 'Create actions for catalog UI policies that control specific variable behavior',
+        category: 'catalog',
+        readOnly: false,
+        schema: schemas.createCatalogUIPolicyActionSchema,
+        handler: (args) => this.createCatalogUIPolicyAction(args),
+      }),
+      defineTool({
+        name: 'create-script-include',
+        description: 'Create a Script Include for reusable server-side JavaScript functions',
+        category: 'scripting',
+        readOnly: false,
+        schema: schemas.createScriptIncludeSchema,
+        handler: (args) => this.createScriptInclude(args),
+      }),
+      defineTool({
+        name: 'create-scheduled-job',
+        description: 'Create a Scheduled Job for automated script execution',
+        category: 'scripting',
+        readOnly: false,
+        schema: schemas.createScheduledJobSchema,
+        handler: (args) => this.createScheduledJob(args),
+      }),
+      defineTool({
+        name: 'create-email-notification',
+        description: 'Create an Email Notification for automated email sending',
+        category: 'notifications',
+        readOnly: false,
+        schema: schemas.createEmailNotificationSchema,
+        handler: (args) => this.createEmailNotification(args),
+      }),
+      defineTool({
+        name: 'create-catalog-client-script',
+        description: 'Create a Catalog Client Script for catalog item form behavior',
+        category: 'catalog',
+        readOnly: false,
+        schema: schemas.createCatalogClientScriptSchema,
+        handler: (args) => this.createCatalogClientScript(args),
+      }),
+      defineTool({
+        name: 'create-ui-policy-action',
+        description: 'Create UI Policy Action',
+        category: 'forms',
+        readOnly: false,
+        schema: schemas.createUIPolicyActionSchema,
+        handler: (args) => this.createUIPolicyAction(args),
+      }),
+      defineTool({
+        name: 'create-client-script',
+        description: 'Create a Client Script for form interactivity',
+        category: 'forms',
+        readOnly: false,
+        schema: schemas.createClientScriptSchema,
+        handler: (args) => this.createClientScript(args),
+      }),
+      defineTool({
+        name: 'create-business-rule',
+        description: 'Create a Business Rule for server-side logic',
+        category: 'scripting',
+        readOnly: false,
+        schema: schemas.createBusinessRuleSchema,
+        handler: (args) => this.createBusinessRule(args),
+      }),
+      defineTool({
+        name: 'update-business-rule',
+        description: 'Update an existing Business Rule',
+        category: 'scripting',
+        readOnly: false,
+        schema: schemas.updateBusinessRuleSchema,
+        handler: (args) => this.updateBusinessRule(args),
+      }),
+      defineTool({
+        name: 'describe-table',
+        description: 'Describe the fields of a ServiceNow table: type, reference target, mandatory, max length and choices, including fields inherited from parent tables',
+        category: 'schema',
+        readOnly: true,
+        schema: schemas.describeTableSchema,
+        handler: (args) => this.describeTable(args),
+      }),
+      defineTool({
+        name: 'list-tables',
+        description: 'List ServiceNow tables by name or label, optionally only those extending a given table',
+        category: 'schema',
+        readOnly: true,
+        schema: schemas.listTablesSchema,
+        handler: (args) => this.listTables(args),
+      }),
+      defineTool({
+        name: 'create-table',
+        description: 'Create a custom table with columns, optional parent table (e.g. task), auto-number prefix and an application menu module',
+        category: 'schema',
+        readOnly: false,
+        schema: schemas.createTableSchema,
+        handler: (args) => this.createTable(args),
+      }),
+      defineTool({
+        name: 'manage-choices',
+        description: 'Add, reorder or deactivate the choices of an existing table field (sys_choice)',
+        category: 'schema',
+        readOnly: false,
+        schema: schemas.manageChoicesSchema,
+        handler: (args) => this.manageChoices(args),
+      }),
+      defineTool({
+        name: 'create-table-field',
+        description: 'Add a field to a ServiceNow table',
+        category: 'schema',
+        readOnly: false,
+        schema: schemas.createTableFieldSchema,
+        handler: (args) => this.createTableField(args),
+      }),
+      defineTool({
+        name: 'create-assignment-group',
+        description: 'Create an Assignment Group',
+        category: 'users',
+        readOnly: false,
+        schema: schemas.createAssignmentGroupSchema,
+        handler: (args) => this.createAssignmentGroup(args),
+      }),
+      defineTool({
+        name: 'implement-invoice-status-inquiry',
+        description: 'Complete implementation of Invoice Status Inquiry system with all components',
+        category: 'solutions',
+        readOnly: false,
+        schema: schemas.implementInvoiceStatusInquirySchema,
+        handler: (args) => this.implementInvoiceStatusInquiry(args),
+      }),
+      defineTool({
+        name: 'plan-manifest',
+        description: 'Compare a solution manifest with the instance and show which artifacts would be created, updated or left unchanged',
+        category: 'solutions',
+        readOnly: true,
+        schema: schemas.planManifestSchema,
+        handler: (args) => this.planManifest(args),
+      }),
+      defineTool({
+        name: 'apply-manifest',
+        description: 'Create or update the artifacts of a solution manifest in dependency order, inside a dedicated update set',
+        category: 'solutions',
+        readOnly: false,
+        schema: schemas.applyManifestSchema,
+        handler: (args) => this.applyManifest(args),
+      }),
+      defineTool({
+        name: 'create-update-set',
+        description: 'Create a new update set for tracking changes',
+        category: 'update-sets',
+        readOnly: false,
+        schema: schemas.createUpdateSetSchema,
+        handler: (args) => this.createUpdateSet(args),
+      }),
+      defineTool({
+        name: 'set-current-update-set',
+        description: 'Set the current update set for capturing changes',
+        category: 'update-sets',
+        readOnly: false,
+        schema: schemas.setCurrentUpdateSetSchema,
+        handler: (args) => this.setCurrentUpdateSet(args),
+      }),
+      defineTool({
+        name: 'get-current-update-set',
+        description: 'Get the currently tracked update set for this session',
+        category: 'update-sets',
+        readOnly: true,
+        schema: schemas.getCurrentUpdateSetSchema,
+        handler: () => this.getCurrentUpdateSet(),
+      }),
+      defineTool({
+        name: 'list-update-sets',
+        description: 'List update sets, filtered by state, application scope and name prefix',
+        category: 'update-sets',
+        readOnly: true,
+        schema: schemas.listUpdateSetsSchema,
+        handler: (args) => this.listUpdateSets(args),
+      }),
+      defineTool({
+        name: 'get-update-set-contents',
+        description: 'List the customer updates (sys_update_xml) captured in an update set',
+        category: 'update-sets',
+        readOnly: true,
+        schema: schemas.getUpdateSetContentsSchema,
+        handler: (args) => this.getUpdateSetContents(args),
+      }),
+      defineTool({
+        name: 'complete-update-set',
+        description: 'Mark an update set as complete so it can be exported or retrieved by another instance',
+        category: 'update-sets',
+        readOnly: false,
+        schema: schemas.completeUpdateSetSchema,
+        handler: (args) => this.completeUpdateSet(args),
+      }),
+      defineTool({
+        name: 'export-update-set',
+        description: 'Export an update set and its customer updates to an XML file for source control',
+        category: 'update-sets',
+        readOnly: false,
+        schema: schemas.exportUpdateSetSchema,
+        handler: (args) => this.exportUpdateSet(args),
+      }),
+      defineTool({
+        name: 'load-update-set-xml',
+        description: 'Retrieve an exported update set XML into this instance as a loaded remote update set',
+        category: 'update-sets',
+        readOnly: false,
+        schema: schemas.loadUpdateSetXmlSchema,
+        handler: (args) => this.loadUpdateSetXml(args),
+      }),
+      defineTool({
+        name: 'preview-remote-update-set',
+        description: 'Preview a retrieved update set and report collisions grouped by problem type',
+        category: 'update-sets',
+        readOnly: false,
+        schema: schemas.previewRemoteUpdateSetSchema,
+        handler: (args) => this.previewRemoteUpdateSet(args),
+      }),
+      defineTool({
+        name: 'list-preview-problems',
+        description: 'List the preview problems of a retrieved update set, grouped by problem type',
+        category: 'update-sets',
+        readOnly: true,
+        schema: schemas.listPreviewProblemsSchema,
+        handler: (args) => this.listPreviewProblems(args),
+      }),
+      defineTool({
+        name: 'resolve-preview-problem',
+        description: 'Accept or skip the remote update behind a preview problem',
+        category: 'update-sets',
+        readOnly: false,
+        schema: schemas.resolvePreviewProblemSchema,
+        handler: (args) => this.resolvePreviewProblem(args),
+      }),
+      defineTool({
+        name: 'commit-remote-update-set',
+        description: 'Commit a previewed update set once all preview problems are resolved',
+        category: 'update-sets',
+        readOnly: false,
+        schema: schemas.commitRemoteUpdateSetSchema,
+        handler: (args) => this.commitRemoteUpdateSet(args),
+      }),
+      defineTool({
+        name: 'create-application-scope',
+        description: 'Create a new application scope',
+        category: 'applications',
+        readOnly: false,
+        schema: schemas.createApplicationScopeSchema,
+        handler: (args) => this.createApplicationScope(args),
+      }),
+      defineTool({
+        name: 'set-application-scope',
+        description: 'Set the current application scope for development',
+        category: 'applications',
+        readOnly: true,
+        schema: schemas.setApplicationScopeSchema,
+        handler: (args) => this.setApplicationScope(args),
+      }),
+      defineTool({
+        name: 'create-flow',
+        description: 'Create a Flow Designer flow',
+        category: 'flows',
+        readOnly: false,
+        schema: schemas.createFlowSchema,
+        handler: (args) => this.createFlow(args),
+      }),
+      defineTool({
+        name: 'create-flow-trigger',
+        description: 'Create a trigger for a Flow Designer flow',
+        category: 'flows',
+        readOnly: false,
+        schema: schemas.createFlowTriggerSchema,
+        handler: (args) => this.createFlowTrigger(args),
+      }),
+      defineTool({
+        name: 'add-create-record-action',
+        description: 'Add a Create Record action to a flow',
+        category: 'flows',
+        readOnly: false,
+        schema: schemas.addCreateRecordActionSchema,
+        handler: (args) => this.addCreateRecordAction(args),
+      }),
+      defineTool({
+        name: 'add-send-email-action',
+        description: 'Add a Send Email action to a flow',
+        category: 'flows',
+        readOnly: false,
+        schema: schemas.addSendEmailActionSchema,
+        handler: (args) => this.addSendEmailAction(args),
+      })
+    );
+  }
+
   private setupTools() {
     // List available tools
     this.server.setRequestHandler(ListToolsRequestSchema, async () => {
       return {
-        tools: [
-          {
-            name: 'test-connection',
-            description: 'Test connection to ServiceNow instance',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
-          },
-          {
-            name: 'query-records',
-            description: 'Query ServiceNow table records',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                table: { type: 'string', description: 'Table name (e.g., incident, problem, change_request)' },
-                query: { type: 'string', description: 'Encoded query string (e.g., active=true^state=1)' },
-                limit: { type: 'number', description: 'Maximum number of records to return', default: 10 },
-                fields: { type: 'string', description: 'Comma-separated list of fields to return (optional)' }
-              },
-              required: ['table'],
-            },
-          },
-          {
-            name: 'create-record',
-            description: 'Create a new record in any ServiceNow table (incidents, problems, change requests, etc.)',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                table: { type: 'string', description: 'Table name (e.g., incident, problem, change_request, task)' },
-                fields: { 
-                  type: 'object', 
-                  description: 'Field values for the new record as key-value pairs',
-                  additionalProperties: true,
-                  examples: [
-                    {
-                      short_description: 'Email server down',
-                      priority: '2',
-                      urgency: '2',
-                      impact: '2',
-                      category: 'software',
-                      subcategory: 'email'
-                    }
-                  ]
-                }
-              },
-              required: ['table', 'fields'],
-            },
-          },
-          {
-            name: 'create-catalog-item',
-            description: 'Create a ServiceNow catalog item using natural language',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                command: {
-                  type: 'string',
-                  description: 'Natural language command like "Create a catalog item called \'New Laptop Request\' in IT Service Catalog"',
-                },
-              },
-              required: ['command'],
-            },
-          },
-          {
-            name: 'create-record-producer',
-            description: 'Create a ServiceNow Record Producer with variables and configuration',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Record Producer name' },
-                short_description: { type: 'string', description: 'Short description' },
-                table: { type: 'string', description: 'Target table name' },
-                category: { type: 'string', description: 'Catalog category' },
-                scope: { type: 'string', description: 'Application scope', default: 'global' },
-                access_type: { type: 'string', description: 'Access type (internal/external)', default: 'internal' }
-              },
-              required: ['name', 'short_description', 'table'],
-            },
-          },
-          {
-            name: 'create-variable',
-            description: 'Create a variable for a Record Producer or Catalog Item',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Variable name' },
-                question_text: { type: 'string', description: 'Display label' },
-                type: { type: 'string', description: 'Variable type (string, multi_line_text, reference, choice, boolean, integer, date, date_time, etc.)' },
-                mandatory: { type: 'boolean', description: 'Is mandatory', default: false },
-                reference_table: { type: 'string', description: 'Reference table for reference type variables' },
-                reference_qual: { type: 'string', description: 'Reference qualifier for reference type variables' },
-                choices: { type: 'string', description: 'Choices for choice variables (comma-separated)' },
-                default_value: { type: 'string', description: 'Default value' },
-                max_length: { type: 'number', description: 'Maximum length for string fields' },
-                order: { type: 'number', description: 'Display order', default: 100 },
-                catalog_item: { type: 'string', description: 'Parent catalog item sys_id' }
-              },
-              required: ['name', 'question_text', 'type', 'catalog_item'],
-            },
-          },
-          {
-            name: 'create-variable-set',
-            description: 'Create a multi-row variable set',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Variable set name' },
-                title: { type: 'string', description: 'Display title' },
-                description: { type: 'string', description: 'Description' },
-                max_entries: { type: 'number', description: 'Maximum entries', default: 10 },
-                catalog_item: { type: 'string', description: 'Parent catalog item sys_id' }
-              },
-              required: ['name', 'title', 'catalog_item'],
-            },
-          },
-          {
-            name: 'create-ui-policy',
-            description: 'Create a UI Policy for form behavior',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'UI Policy name' },
-                table: { type: 'string', description: 'Target table' },
-                conditions: { type: 'string', description: 'Condition script or encoded query' },
-                short_description: { type: 'string', description: 'Description' },
-                on_load: { type: 'boolean', description: 'Run on load', default: true },
-                catalog_item: { type: 'string', description: 'Catalog item sys_id if applicable' },
-                script_true: { type: 'string', description: 'Script to execute when condition is true' },
-                script_false: { type: 'string', description: 'Script to execute when condition is false' }
-              },
-              required: ['name', 'table', 'conditions'],
-            },
-          },
-          {
-            name: 'create-catalog-ui-policy',
-            description: 'Create a UI policy specifically for catalog items that controls variable behavior',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                catalog_item: { type: 'string', description: 'sys_id of catalog item' },
-                variable_set: { type: 'string', description: 'sys_id of variable set' },
-                applies_to: { type: 'string', description: "'A Catalog Item' or 'A Variable Set'", default: 'A Catalog Item' },
-                name: { type: 'string', description: 'Policy name' },
-                short_description: { type: 'string', description: 'Brief description' },
-                active: { type: 'boolean', description: 'Active status', default: true },
-                catalog_conditions: { type: 'string', description: 'Conditions using variable names (e.g. equipment_type=Laptop)' },
-                applies_on_catalog_item_view: { type: 'boolean', description: 'Apply in catalog item view', default: true },
-                applies_on_requested_items: { type: 'boolean', description: 'Apply on requested items', default: false },
-                applies_on_catalog_tasks: { type: 'boolean', description: 'Apply on catalog tasks', default: false },
-                applies_on_target_record: { type: 'boolean', description: 'Apply on target record', default: false },
-                on_load: { type: 'boolean', description: 'Run on form load', default: true },
-                reverse_if_false: { type: 'boolean', description: 'Reverse if conditions are false', default: false },
-                order: { type: 'number', description: 'Execution order', default: 100 }
-              },
-              required: ['name'],
-            },
-          },
-          {
-            name: 'create-catalog-ui-policy-action',
-            description: 'Create actions for catalog UI policies that control specific variable behavior',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                catalog_ui_policy: { type: 'string', description: 'sys_id of catalog UI policy' },
-                variable_name: { type: 'string', description: 'Name of catalog variable to control' },
-                order: { type: 'number', description: 'Execution order', default: 100 },
-                mandatory: { type: 'string', description: "'true', 'false', or 'leave_alone'" },
-                visible: { type: 'string', description: "'true', 'false', or 'leave_alone'" },
-                read_only: { type: 'string', description: "'true', 'false', or 'leave_alone'" },
-                value_action: { type: 'string', description: "'leave_alone', 'set_value', or 'clear_value'" },
-                value: { type: 'string', description: "Value to set when value_action is 'set_value'" },
-                field_message_type: { type: 'string', description: "'info', 'warning', 'error', or 'none'" },
-                field_message: { type: 'string', description: 'Message to display' }
-              },
-              required: ['catalog_ui_policy', 'variable_name'],
-            },
-          },
-          {
-            name: 'create-script-include',
-            description: 'Create a Script Include for reusable server-side JavaScript functions',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Script Include name' },
-                script: { type: 'string', description: 'JavaScript code' },
-                description: { type: 'string', description: 'Description' },
-                application_scope: { type: 'string', description: 'Application scope', default: 'global' },
-                api_name: { type: 'string', description: 'API name (defaults to name)' },
-                access: { type: 'string', description: 'Access level (public, package_private, private)', default: 'package_private' },
-                active: { type: 'boolean', description: 'Active status', default: true }
-              },
-              required: ['name', 'script'],
-            },
-          },
-          {
-            name: 'create-scheduled-job',
-            description: 'Create a Scheduled Job for automated script execution',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Scheduled job name' },
-                script: { type: 'string', description: 'JavaScript code to execute' },
-                description: { type: 'string', description: 'Description' },
-                run_period: { type: 'string', description: 'Run period (daily, weekly, monthly, etc.)', default: 'daily' },
-                run_time: { type: 'string', description: 'Run time (HH:MM:SS format)', default: '00:00:00' },
-                run_dayofweek: { type: 'string', description: 'Day of week for weekly jobs (1-7)' },
-                run_dayofmonth: { type: 'string', description: 'Day of month for monthly jobs (1-31)' },
-                active: { type: 'boolean', description: 'Active status', default: true },
-                conditional: { type: 'boolean', description: 'Use conditional execution', default: false },
-                condition: { type: 'string', description: 'Condition script for conditional execution' }
-              },
-              required: ['name', 'script'],
-            },
-          },
-          {
-            name: 'create-email-notification',
-            description: 'Create an Email Notification for automated email sending',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Email notification name' },
-                table: { type: 'string', description: 'Target table' },
-                event: { type: 'string', description: 'Event that triggers the notification (insert, update, delete)' },
-                subject: { type: 'string', description: 'Email subject line' },
-                message: { type: 'string', description: 'Email message body' },
-                recipients: { type: 'string', description: 'Recipient email addresses or field names' },
-                cc_list: { type: 'string', description: 'CC email addresses' },
-                from: { type: 'string', description: 'From email address' },
-                active: { type: 'boolean', description: 'Active status', default: true },
-                advanced_condition: { type: 'string', description: 'Advanced condition script' },
-                weight: { type: 'number', description: 'Execution order weight', default: 0 }
-              },
-              required: ['name', 'table', 'event', 'subject', 'message'],
-            },
-          },
-          {
-            name: 'create-catalog-client-script',
-            description: 'Create a Catalog Client Script for catalog item form behavior',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Client script name' },
-                catalog_item: { type: 'string', description: 'Catalog item sys_id' },
-                type: { type: 'string', description: 'Script type (onLoad, onChange, onSubmit, onCellEdit)' },
-                script: { type: 'string', description: 'JavaScript code' },
-                field: { type: 'string', description: 'Field name for onChange scripts' },
-                description: { type: 'string', description: 'Description' },
-                active: { type: 'boolean', description: 'Active status', default: true },
-                applies_to: { type: 'string', description: 'Where the script applies', default: 'catalog' }
-              },
-              required: ['name', 'catalog_item', 'type', 'script'],
-            },
-          },
-          {
-            name: 'create-ui-policy-action',
-            description: 'Create UI Policy Action',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                ui_policy: { type: 'string', description: 'UI Policy sys_id' },
-                field: { type: 'string', description: 'Target field name' },
-                visible: { type: 'boolean', description: 'Make field visible' },
-                mandatory: { type: 'boolean', description: 'Make field mandatory' },
-                disabled: { type: 'boolean', description: 'Disable field' }
-              },
-              required: ['ui_policy', 'field'],
-            },
-          },
-          {
-            name: 'create-client-script',
-            description: 'Create a Client Script for form interactivity',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Client Script name' },
-                table: { type: 'string', description: 'Target table' },
-                type: { type: 'string', description: 'Script type (onLoad, onChange, onSubmit, onCellEdit)' },
-                field: { type: 'string', description: 'Field name for onChange scripts' },
-                script: { type: 'string', description: 'JavaScript code' },
-                description: { type: 'string', description: 'Description' },
-                catalog_item: { type: 'string', description: 'Catalog item sys_id if applicable' }
-              },
-              required: ['name', 'table', 'type', 'script'],
-            },
-          },
-          {
-            name: 'create-business-rule',
-            description: 'Create a Business Rule for server-side logic',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Business Rule name' },
-                table: { type: 'string', description: 'Target table name (e.g., incident, problem, change_request)' },
-                when: { type: 'string', description: 'When to run: before, after, async, display', enum: ['before', 'after', 'async', 'display'] },
-                operation: { 
-                  type: 'array', 
-                  description: 'Database operations to trigger on',
-                  items: { type: 'string', enum: ['insert', 'update', 'delete', 'query'] },
-                  default: ['insert', 'update']
-                },
-                script: { type: 'string', description: 'JavaScript code wrapped in function(current, previous) {}' },
-                description: { type: 'string', description: 'Description of what the business rule does' },
-                order: { type: 'number', description: 'Execution order (lower numbers run first)', default: 100 },
-                condition: { type: 'string', description: 'JavaScript condition that must return true' },
-                filter_condition: { type: 'string', description: 'Encoded query string for filtering records' },
-                advanced: { type: 'boolean', description: 'Enable advanced options', default: false },
-                active: { type: 'boolean', description: 'Whether the rule is active', default: true },
-                role_conditions: { type: 'string', description: 'Comma-separated list of roles' }
-              },
-              required: ['name', 'table', 'when', 'script'],
-            },
-          },
-          {
-            name: 'update-business-rule',
-            description: 'Update an existing Business Rule',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                sys_id: { type: 'string', description: 'Business Rule sys_id to update' },
-                name: { type: 'string', description: 'Business Rule name' },
-                table: { type: 'string', description: 'Target table name' },
-                when: { type: 'string', description: 'When to run: before, after, async, display', enum: ['before', 'after', 'async', 'display'] },
-                operation: { 
-                  type: 'array', 
-                  description: 'Database operations to trigger on',
-                  items: { type: 'string', enum: ['insert', 'update', 'delete', 'query'] }
-                },
-                script: { type: 'string', description: 'JavaScript code wrapped in function(current, previous) {}' },
-                description: { type: 'string', description: 'Description of what the business rule does' },
-                order: { type: 'number', description: 'Execution order (lower numbers run first)' },
-                condition: { type: 'string', description: 'JavaScript condition that must return true' },
-                filter_condition: { type: 'string', description: 'Encoded query string for filtering records' },
-                advanced: { type: 'boolean', description: 'Enable advanced options' },
-                active: { type: 'boolean', description: 'Whether the rule is active' },
-                role_conditions: { type: 'string', description: 'Comma-separated list of roles' }
-              },
-              required: ['sys_id'],
-            },
-          },
-          {
-            name: 'create-table-field',
-            description: 'Add a field to a ServiceNow table',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                table: { type: 'string', description: 'Target table name' },
-                column_name: { type: 'string', description: 'Field name' },
-                column_label: { type: 'string', description: 'Field label' },
-                type: { type: 'string', description: 'Field type (string, reference, boolean, choice, etc.)' },
-                reference_table: { type: 'string', description: 'Reference table for reference fields' },
-                max_length: { type: 'number', description: 'Maximum length for string fields' },
-                choices: { type: 'string', description: 'Choices for choice fields (comma-separated)' },
-                mandatory: { type: 'boolean', description: 'Is mandatory', default: false }
-              },
-              required: ['table', 'column_name', 'column_label', 'type'],
-            },
-          },
-          {
-            name: 'create-assignment-group',
-            description: 'Create an Assignment Group',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Group name' },
-                description: { type: 'string', description: 'Group description' },
-                type: { type: 'string', description: 'Group type', default: 'itil' },
-                active: { type: 'boolean', description: 'Active status', default: true }
-              },
-              required: ['name'],
-            },
-          },
-          {
-            name: 'implement-invoice-status-inquiry',
-            description: 'Complete implementation of Invoice Status Inquiry system with all components',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                dry_run: { type: 'boolean', description: 'Preview changes without creating', default: false },
-                scope: { type: 'string', description: 'Application scope', default: 'sn_customerservice' }
-              },
-            },
-          },
-          {
-            name: 'create-update-set',
-            description: 'Create a new update set for tracking changes',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Update set name' },
-                description: { type: 'string', description: 'Update set description' }
-              },
-              required: ['name', 'description'],
-            },
-          },
-          {
-            name: 'set-current-update-set',
-            description: 'Set the current update set for capturing changes',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                update_set_id: { type: 'string', description: 'Update set sys_id' }
-              },
-              required: ['update_set_id'],
-            },
-          },
-          {
-            name: 'create-application-scope',
-            description: 'Create a new application scope',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Application name' },
-                scope: { type: 'string', description: 'Application scope identifier' },
-                short_description: { type: 'string', description: 'Short description' },
-                version: { type: 'string', description: 'Version number', default: '1.0.0' }
-              },
-              required: ['name', 'scope', 'short_description'],
-            },
-          },
-          {
-            name: 'set-application-scope',
-            description: 'Set the current application scope for development',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                scope: { type: 'string', description: 'Application scope to set as current' }
-              },
-              required: ['scope'],
-            },
-          },
-          {
-            name: 'create-flow',
-            description: 'Create a Flow Designer flow',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                name: { type: 'string', description: 'Flow name' },
-                description: { type: 'string', description: 'Flow description' },
-                scope: { type: 'string', description: 'Application scope', default: 'global' },
-                active: { type: 'boolean', description: 'Active status', default: true }
-              },
-              required: ['name'],
-            },
-          },
-          {
-            name: 'create-flow-trigger',
-            description: 'Create a trigger for a Flow Designer flow',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                flow_id: { type: 'string', description: 'Flow sys_id' },
-                type: { type: 'string', description: 'Trigger type (record_created, record_updated, scheduled)' },
-                table: { type: 'string', description: 'Table name for record triggers' },
-                condition: { type: 'string', description: 'Condition for when the trigger fires' }
-              },
-              required: ['flow_id', 'type'],
-            },
-          },
-          {
-            name: 'add-create-record-action',
-            description: 'Add a Create Record action to a flow',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                flow_id: { type: 'string', description: 'Flow sys_id' },
-                table: { type: 'string', description: 'Table to create record in' },
-                field_values: { type: 'object', description: 'Field values for the new record' },
-                order: { type: 'number', description: 'Action execution order' }
-              },
-              required: ['flow_id', 'table', 'field_values', 'order'],
-            },
-          },
-          {
-            name: 'add-send-email-action',
-            description: 'Add a Send Email action to a flow',
-            inputSchema: {
-              type: 'object',
-              properties: {
-                flow_id: { type: 'string', description: 'Flow sys_id' },
-                to: { type: 'string', description: 'Email recipient(s)' },
-                subject: { type: 'string', description: 'Email subject' },
-                body: { type: 'string', description: 'Email body' },
-                order: { type: 'number', description: 'Action execution order' }
-              },
-              required: ['flow_id', 'to', 'subject', 'body', 'order'],
-            },
-          },
-          {
-            name: 'get-current-update-set',
-            description: 'Get the currently tracked update set for this session',
-            inputSchema: {
-              type: 'object',
-              properties: {},
-            },
-          },
-        ],
+        tools: this.registry.describe((tool) => this.isToolAvailable(tool)),
       };
     });
 
     // Handle tool calls
     this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      // EXTREME LOGGING - Raw request input
-      console.error('[MCP-RAW-INPUT]', JSON.stringify({
-        timestamp: new Date().toISOString(),
-        rawRequest: request,
-        requestType: typeof request,
-        paramsType: typeof request.params,
-        paramsKeys: Object.keys(request.params || {}),
-        fullRequestJson: JSON.stringify(request, null, 2)
-      }));
-
       const { name, arguments: args } = request.params;
+      const correlationId = uuidv4();
+      const startedAt = new Date();
 
-      // EXTREME LOGGING - Extracted parameters
-      console.error('[MCP-EXTRACTED-PARAMS]', JSON.stringify({
-        timestamp: new Date().toISOString(),
-        toolName: name,
-        extractedArgs: args,
-        argsType: typeof args,
-        argsKeys: Object.keys(args || {}),
-        argsJson: JSON.stringify(args, null, 2)
-      }));
-
-      try {
-        switch (name) {
-          case 'test-connection':
-            // EXTREME LOGGING - Test connection specific
-            console.error('[TEST-CONNECTION-ARGS]', JSON.stringify({
-              timestamp: new Date().toISOString(),
-              receivedArgs: args,
-              argsKeys: Object.keys(args || {}),
-              argsType: typeof args,
-              argsIsNull: args === null,
-              argsIsUndefined: args === undefined,
-              argContent: args,
-              message: 'About to call testConnection()'
-            }));
-            return await this.testConnection();
-          case 'query-records':
-            return await this.queryRecords(args as any);
-          case 'create-record':
-            return await this.createRecord(args as any);
-          case 'create-catalog-item':
-            return await this.createCatalogItem((args?.command as string) || '');
-          case 'create-record-producer':
-            return await this.createRecordProducer(args as any);
-          case 'create-variable':
-            return await this.createVariable(args as any);
-          case 'create-variable-set':
-            return await this.createVariableSet(args as any);
-          case 'create-ui-policy':
-            return await this.createUIPolicy(args as any);
-          case 'create-catalog-ui-policy':
-            return await this.createCatalogUIPolicy(args as any);
-          case 'create-catalog-ui-policy-action':
-            return await this.createCatalogUIPolicyAction(args as any);
-          case 'create-script-include':
-            return await this.createScriptInclude(args as any);
-          case 'create-scheduled-job':
-            return await this.createScheduledJob(args as any);
-          case 'create-email-notification':
-            return await this.createEmailNotification(args as any);
-          case 'create-catalog-client-script':
-            return await this.createCatalogClientScript(args as any);
-          case 'create-ui-policy-action':
-            return await this.createUIPolicyAction(args as any);
-          case 'create-client-script':
-            return await this.createClientScript(args as any);
-          case 'create-business-rule':
-            return await this.createBusinessRule(args as any);
-          case 'update-business-rule':
-            return await this.updateBusinessRule(args as any);
-          case 'create-table-field':
-            return await this.createTableField(args as any);
-          case 'create-assignment-group':
-            return await this.createAssignmentGroup(args as any);
-          case 'implement-invoice-status-inquiry':
-            return await this.implementInvoiceStatusInquiry(args as any);
-          case 'create-update-set':
-            return await this.createUpdateSet(args as any);
-          case 'set-current-update-set':
-            return await this.setCurrentUpdateSet(args as any);
-          case 'get-current-update-set':
-            return await this.getCurrentUpdateSet();
-          case 'create-application-scope':
-            return await this.createApplicationScope(args as any);
-          case 'set-application-scope':
-            return await this.setApplicationScope(args as any);
-          case 'create-flow':
-            return await this.createFlow(args as any);
-          case 'create-flow-trigger':
-            return await this.createFlowTrigger(args as any);
-          case 'add-create-record-action':
-            return await this.addCreateRecordAction(args as any);
-          case 'add-send-email-action':
-            return await this.addSendEmailAction(args as any);
-          default:
-            throw new Error(`Unknown tool: ${name}`);
+      const result = await withCorrelationId(correlationId, async (): Promise<ToolResult> => {
+        this.logger.debug(`Calling tool ${name}`, { tool: name, arguments: args });
+        try {
+          const outcome = await this.registry.call(name, args);
+          this.logger.info(`Tool ${name} ${outcome.isError ? 'failed' : 'succeeded'}`, {
+            tool: name,
+            duration_ms: Date.now() - startedAt.getTime(),
+          });
+          return outcome;
+        } catch (error) {
+          this.logger.error(`Tool execution failed: ${name}`, { error: (error as Error).message });
+          return this.errorResponse(`execute ${name}`, error);
         }
-      } catch (error) {
-        this.logger.error(`Tool execution failed: ${name}`, { error: (error as Error).message });
-        return {
-          content: [
-            {
-              type: 'text',
-              text: `Error executing ${name}: ${(error as Error).message}`,
-            },
-          ],
-        };
-      }
+      });
+      this.auditLog.record(this.auditEntry(name, args ?? {}, correlationId, startedAt, result));
+      return result;
     });
   }
 
+  private auditEntry(tool: string, args: Record<string, unknown>, correlationId: string, startedAt: Date, result: ToolResult): Omit<AuditEntry, 'id'> {
+    const { profiles, defaultInstance } = this.config.instances;
+    const instance = typeof args.instance === 'string' ? args.instance : this.session.instance ?? defaultInstance;
+    const profile = profiles[instance];
+    const structured = result.structuredContent as { records?: RecordReference[] } | undefined;
+    const records = (structured?.records ?? [])
+      .filter((record) => record.action !== 'read')
+      .map(({ table, sys_id, action }) => ({ table, sys_id, action }));
+    return {
+      timestamp: startedAt.toISOString(),
+      session: this.session.id,
+      principal: this.session.principal,
+      correlation_id: correlationId,
+      client: this.session.client,
+      user: profile && (profile.username || `OAuth client ${profile.clientId}`),
+      instance,
+      tool,
+      arguments: redactSecrets(args) as Record<string, unknown>,
+      status: result.isError ? 'error' : 'success',
+      duration_ms: Date.now() - startedAt.getTime(),
+      error: result.isError ? truncateError(result.content[0]?.text ?? '') : undefined,
+      records,
+    };
+  }
+
+  /**
+   * Resolves the target instance for a tool call, applies its access mode and
+   * runs the handler inside a call context, so getServiceNowApi() picks the
+   * right pooled client.
+   */
+  private async runOnInstance(tool: ToolDefinition, args: Record<string, unknown>, next: () => Promise<ToolResult>): Promise<ToolResult> {
+    const { profiles, defaultInstance } = this.config.instances;
+    // Everything else, idempotent included, changes what the call does and is part of its approval
+    const { instance: requested, approval_token: approvalToken, ...toolArgs } = args;
+    const instance = (requested as string | undefined) ?? this.session.instance ?? defaultInstance;
+    const profile = profiles[instance];
+    if (!profile) {
+      return this.errorResponse(`run ${tool.name}`,
+        new Error(`Unknown instance '${instance}'. Configured instances: ${Object.keys(profiles).join(', ')}`));
+    }
+
+    if (!tool.readOnly && profile.mode === 'read-only') {
+      return this.errorResponse(`run ${tool.name}`,
+        new Error(`Instance '${instance}' is read-only; '${tool.name}' would modify it`));
+    }
+
+    if (!tool.readOnly && this.session.dryRun) {
+      return this.dryRunResult(tool, instance, toolArgs);
+    }
+
+    if (!tool.readOnly && profile.mode === 'confirm-writes') {
+      if (!approvalToken) {
+        return this.plannedChange(tool, instance, toolArgs);
+      }
+      if (!this.approvals.consume(String(approvalToken), tool.name, instance, toolArgs)) {
+        return this.errorResponse(`run ${tool.name}`, new Error(
+          `Invalid or expired approval token. Tokens are single-use and only valid for the exact call they were issued for; ` +
+          `call ${tool.name} without approval_token to get a new one.`
+        ));
+      }
+      this.logger.info(`Approved ${tool.name} on ${instance}`);
+    }
+
+    const context: CallContext = {
+      toolName: tool.name,
+      instance,
+      idempotent: (toolArgs.idempotent as boolean | undefined) ?? this.config.servicenow.idempotent,
+      artifacts: [],
+      records: [],
+      journal: this.journal,
+      session: this.session,
+    };
+    const result = await runWithCallContext(context, next);
+    if (context.idempotent && context.artifacts.length > 0) {
+      result.content.push({ type: 'text', text: formatArtifactOutcomes(context.artifacts) });
+    }
+    // Handlers report records themselves when they have more to say, e.g. query results
+    if (context.records.length > 0 && !result.structuredContent) {
+      result.structuredContent = { records: context.records };
+    }
+    return result;
+  }
+
+  private plannedChange(tool: ToolDefinition, instance: string, toolArgs: Record<string, unknown>): ToolResult {
+    const token = this.approvals.issue(tool.name, instance, toolArgs);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `⚠️ Instance '${instance}' requires approval for changes.\n\n` +
+                `${this.describePlannedCall(tool, toolArgs)}\n\n` +
+                `To execute, call ${tool.name} again with the same arguments and approval_token: "${token}" ` +
+                `(single use, valid for ${this.approvals.ttlMinutes} minutes).`,
+        },
+      ],
+    };
+  }
+
+  private dryRunResult(tool: ToolDefinition, instance: string, toolArgs: Record<string, unknown>): ToolResult {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🧪 Dry run: nothing was changed on '${instance}'.\n\n` +
+                `${this.describePlannedCall(tool, toolArgs)}\n\n` +
+                `To execute, turn dry run off with set-session (dry_run: false) and call ${tool.name} again.`,
+        },
+      ],
+    };
+  }
+
+  private describePlannedCall(tool: ToolDefinition, toolArgs: Record<string, unknown>): string {
+    const argumentLines = Object.entries(toolArgs)
+      .filter(([, value]) => value !== undefined)
+      .map(([key, value]) => {
+        const text = typeof value === 'string' ? value : JSON.stringify(value);
+        return `  ${key}: ${text.length > PLANNED_CHANGE_VALUE_LIMIT ? `${text.slice(0, PLANNED_CHANGE_VALUE_LIMIT)}… (${text.length} chars)` : text}`;
+      });
+    return `Planned change: ${tool.name} — ${tool.description}\n` +
+           `Arguments:\n${argumentLines.join('\n') || '  (none)'}`;
+  }
+
+  // Mutating tools are only listed if at least one instance could run them
+  private isToolAvailable(tool: ToolDefinition): boolean {
+    return tool.readOnly || Object.values(this.config.instances.profiles).some((profile) => profile.mode !== 'read-only');
+  }
+
+  private activeProfile(): InstanceProfile {
+    const { profiles, defaultInstance } = this.config.instances;
+    return profiles[getCallContext()?.instance ?? this.session.instance ?? defaultInstance];
+  }
+
+  // The session's update set and scope on the instance the call targets
+  private sessionState(): InstanceSessionState {
+    return this.session.state(this.activeProfile().name);
+  }
+
+  private get currentUpdateSetId(): string | null {
+    return this.sessionState().updateSetId ?? null;
+  }
+
+  private set currentUpdateSetId(sysId: string | null) {
+    this.sessionState().updateSetId = sysId ?? undefined;
+  }
+
   private async getServiceNowApi(): Promise<ServiceNowApiService> {
-    if (!this.serviceNowApi) {
-      this.serviceNowApi = new ServiceNowApiService({
-        instanceUrl: this.config.servicenow.instanceUrl,
-        username: this.config.servicenow.username,
-        password: this.config.servicenow.password,
-        clientId: this.config.servicenow.clientId,
-        clientSecret: this.config.servicenow.clientSecret,
-        updateSetPrefix: this.config.servicenow.updateSetPrefix,
-        defaultScope: this.config.servicenow.defaultScope,
-      }, this.logger);
+    const profile = this.activeProfile();
+    let api = this.apiPool.get(profile.name);
+    if (!api) {
+      api = this.createServiceNowApi(profile);
+      this.apiPool.set(profile.name, api);
+      // Drop failed clients so the next call retries authentication
+      api.catch(() => this.apiPool.delete(profile.name));
+    }
+    return api;
+  }
+
+  private async getTableSchemas(): Promise<TableSchemaService> {
+    const profile = this.activeProfile();
+    let service = this.schemaServices.get(profile.name);
+    if (!service) {
+      service = new TableSchemaService(await this.getServiceNowApi());
+      this.schemaServices.set(profile.name, service);
+    }
+    return service;
+  }
 
-      // Test authentication
-      await this.serviceNowApi.authenticate();
+  // Rejects unknown field names before a write. Instances that hide the dictionary
+  // from the integration user are written to unchecked rather than blocked.
+  private async validateFieldNames(table: string, fields: string[]): Promise<void> {
+    try {
+      await (await this.getTableSchemas()).validateFields(table, fields);
+    } catch (error) {
+      if (error instanceof ServiceNowAclError) {
+        this.logger.warn(`Skipping field validation for ${table}: ${error.message}`);
+        return;
+      }
+      throw error;
     }
-    return this.serviceNowApi;
+  }
+
+  private async createServiceNowApi(profile: InstanceProfile): Promise<ServiceNowApiService> {
+    const api = new ServiceNowApiService(getServiceNowConfig(this.config, profile), this.logger.child({ service: 'servicenow-api' }));
+
+    // Test authentication
+    await api.authenticate();
+    return api;
   }
 
   async testConnection() {
     try {
       const api = await this.getServiceNowApi();
+      const profile = this.activeProfile();
       
       // Test by getting user info
-      const response = await api.getRecords('sys_user', 'user_name=' + this.config.servicenow.username);
+      const response = await api.getRecords('sys_user', EncodedQuery.where('user_name', '=', profile.username ?? ''));
+      const identity = profile.username || `OAuth client ${profile.clientId}`;
       
       return {
         content: [
           {
             type: 'text',
-            text: `✅ Successfully connected to ServiceNow instance: ${this.config.servicenow.instanceUrl}\nAuthenticated as: ${this.config.servicenow.username}\nFound ${response.length} user record(s)`,
+            text: `✅ Successfully connected to ServiceNow instance '${profile.name}': ${profile.instanceUrl}\nAuthenticated as: ${identity} (${profile.authType})\nFound ${response.length} user record(s)`,
           },
         ],
       };
     } catch (error) {
+      return this.errorResponse('connect to ServiceNow', error);
+    }
+  }
+
+  async listInstances() {
+    const { profiles, defaultInstance } = this.config.instances;
+    const lines = Object.values(profiles).map((profile) =>
+      `• ${profile.name}${profile.name === defaultInstance ? ' (default)' : ''}${profile.name === this.session.instance ? ' (this session)' : ''} [${profile.mode}]\n` +
+      `  URL: ${profile.instanceUrl}\n` +
+      `  Auth: ${profile.authType}, scope: ${profile.defaultScope}, update set prefix: ${profile.updateSetPrefix}\n` +
+      `  Connected: ${this.apiPool.has(profile.name) ? 'yes' : 'no'}` +
+      (profile.description ? `\n  ${profile.description}` : '')
+    );
+    
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `Configured ServiceNow instances (${lines.length}):\n\n${lines.join('\n\n')}\n\n` +
+                `Pass 'instance' to any tool to target a specific instance.`,
+        },
+      ],
+    };
+  }
+
+  async getSession() {
+    const profile = this.activeProfile();
+    const snapshot = this.session.snapshot();
+    const state = this.sessionState();
+    const others = Object.entries(snapshot.instances).filter(([name]) => name !== profile.name);
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `🧭 Session ${snapshot.id} (started ${snapshot.started_at})\n` +
+                (snapshot.principal ? `Principal: ${snapshot.principal}\n` : '') +
+                `Client: ${snapshot.client ?? 'unknown'}\n` +
+                `Instance: ${profile.name}${this.session.instance ? ' (chosen for this session)' : ' (default)'} — ${profile.instanceUrl}\n` +
+                `Signed in as: ${profile.username || `OAuth client ${profile.clientId}`} (${profile.authType})\n` +
+                `Update set: ${state.updateSetId ?? 'none (instance default)'}\n` +
+                `Application scope: ${state.scope ?? `${profile.defaultScope} (profile default)`}\n` +
+                `Dry run: ${snapshot.dry_run ? 'on, mutating tools only describe their changes' : 'off'}\n` +
+                `Changes journaled: ${this.journal.changes(profile.name).length}` +
+                (others.length > 0
+                  ? `\n\nOther instances:\n${others.map(([name, other]) =>
+                      `  ${name}: update set ${other.update_set_id ?? 'none'}, scope ${other.scope ?? 'profile default'}`).join('\n')}`
+                  : ''),
+        },
+      ],
+      structuredContent: { session: snapshot },
+    };
+  }
+
+  async setSession(args: schemas.SetSessionArgs) {
+    try {
+      const { default_instance: instance, dry_run: dryRun } = args;
+      const { profiles } = this.config.instances;
+      if (instance !== undefined && !profiles[instance]) {
+        throw new Error(`Unknown instance '${instance}'. Configured instances: ${Object.keys(profiles).join(', ')}`);
+      }
+      if (instance !== undefined) {
+        this.session.instance = instance;
+      }
+      if (dryRun !== undefined) {
+        this.session.dryRun = dryRun;
+      }
+
       return {
         content: [
           {
             type: 'text',
-            text: `❌ Failed to connect to ServiceNow: ${(error as Error).message}`,
+            text: `✅ Session updated.\n` +
+                  `Instance: ${this.session.instance ?? `${this.config.instances.defaultInstance} (default)`}\n` +
+                  `Dry run: ${this.session.dryRun ? 'on' : 'off'}`,
           },
         ],
       };
+    } catch (error) {
+      return this.errorResponse('update the session', error);
     }
   }
 
-  async queryRecords(args: any) {
+  async resetSession() {
+    this.session.reset();
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `✅ Session reset: instance back to ${this.config.instances.defaultInstance}, no update set or scope chosen, dry run off.\n` +
+                `Changes made so far are kept; list-session-changes and undo-session-changes still cover them.`,
+        },
+      ],
+    };
+  }
+
+  async queryRecords(args: schemas.QueryRecordsArgs) {
     try {
       const api = await this.getServiceNowApi();
-      const { table, query, limit = 10, fields } = args;
-      
-      this.logger.info(`Querying table: ${table}`, { query, limit, fields });
-      
-      // Build query parameters
-      let queryString = query || '';
-      if (limit) {
-        queryString += `^ORDERBYDESCsys_created_on`;
+      const {
+        table,
+        query,
+        limit = 10,
+        offset = 0,
+        fields,
+        order_by = 'sys_created_on',
+        order_direction = 'desc',
+        display_value = 'false'
+      } = args;
+      
+      this.logger.info(`Querying table: ${table}`, { query, limit, offset, fields, order_by, order_direction });
+      
+      // Parsing rejects malformed queries before they reach the instance, where they
+      // would silently match everything
+      const encodedQuery = EncodedQuery.parse(query ?? '');
+      // Respect an ordering embedded in the caller's query, otherwise apply the requested one
+      if (order_by && !encodedQuery.isOrdered) {
+        encodedQuery.orderBy(order_by, order_direction);
       }
       
-      const records = await api.getRecords(table, queryString);
-      
-      // Limit results
-      const limitedRecords = records.slice(0, limit);
+      const records: any[] = [];
+      let totalCount: number | undefined;
+      for await (const page of api.iterateRecordPages(table, encodedQuery, {
+        limit: Math.min(limit, QUERY_PAGE_SIZE),
+        offset,
+        fields,
+        displayValue: display_value === 'all' ? 'all' : display_value === 'true',
+        excludeReferenceLink: true
+      })) {
+        totalCount = totalCount ?? page.totalCount;
+        records.push(...page.records.slice(0, limit - records.length));
+        if (records.length >= limit) {
+          break;
+        }
+      }
       
-      // Filter fields if specified
-      let displayRecords = limitedRecords;
-      if (fields) {
-        const fieldList = fields.split(',').map((f: string) => f.trim());
-        displayRecords = limitedRecords.map(record => {
-          const filtered: any = {};
-          fieldList.forEach((field: string) => {
-            if (record[field] !== undefined) {
-              filtered[field] = record[field];
-            }
-          });
-          return filtered;
-        });
+      const lines = [
+        `✅ Found ${totalCount ?? records.length} record(s) in table '${table}'`,
+        `Filter: ${encodedQuery.describe()}`,
+        records.length > 0
+          ? `Showing records ${offset + 1}-${offset + records.length}:`
+          : `No records at offset ${offset}.`
+      ];
+      if (totalCount !== undefined && offset + records.length < totalCount) {
+        lines.push(`More records available: use offset=${offset + records.length} to see the next page.`);
       }
       
       return {
         content: [
           {
             type: 'text',
-            text: `✅ Found ${records.length} record(s) in table '${table}'\n` +
-                  `Showing first ${limitedRecords.length} records:\n\n` +
-                  JSON.stringify(displayRecords, null, 2),
+            text: lines.join('\n') + '\n\n' + JSON.stringify(records, null, 2),
           },
         ],
+        structuredContent: {
+          total_count: totalCount ?? records.length,
+          records: records
+            .filter((record) => record.sys_id)
+            .map((record) => recordReference(this.activeProfile().instanceUrl, table, record, 'read')),
+        },
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to query records: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('query records', error);
     }
   }
 
-  async createRecord(args: any) {
+  async createRecord(args: schemas.CreateRecordArgs) {
     try {
       const api = await this.getServiceNowApi();
       const { table, fields } = args;
@@ -773,6 +995,7 @@ export class SimpleServiceNowMCPServer {
         throw new Error('Fields parameter is required and must be an object with field values');
       }
       
+      await this.validateFieldNames(table, Object.keys(fields));
       this.logger.info(`Creating record in table: ${table}`, { fields });
       
       // Add update set to record data if available
@@ -792,17 +1015,275 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
+      return this.errorResponse('create record', error);
+    }
+  }
+
+  async updateRecord(args: schemas.UpdateRecordArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { table, sys_id, fields, dry_run = false } = args;
+      
+      if (!fields || typeof fields !== 'object' || Object.keys(fields).length === 0) {
+        throw new Error('Fields parameter is required and must be an object with at least one field value');
+      }
+      this.assertTableNotProtected(table);
+      
+      // Pre-flight read so the caller sees exactly what will change
+      const current = await api.getRecord(table, sys_id, { excludeReferenceLink: true });
+      const changes = diffRecord(current, fields);
+      const header = `${table} ${this.describeRecord(current)} (${sys_id})`;
+      
+      if (changes.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `ℹ️ No changes for ${header}: all ${Object.keys(fields).length} field(s) already have the requested values.`,
+            },
+          ],
+        };
+      }
+      
+      if (dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `🔍 DRY RUN - ${changes.length} field(s) would change on ${header}:\n${formatChanges(changes)}`,
+            },
+          ],
+        };
+      }
+      
+      this.logger.info(`Updating record ${table}/${sys_id}`, { fields: changes.map((change) => change.field) });
+      
+      const changedFields = Object.fromEntries(changes.map((change) => [change.field, fields[change.field]]));
+      await api.updateRecord(table, sys_id, this.addUpdateSetToRecord(changedFields));
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Successfully updated ${header}:\n${formatChanges(changes)}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('update record', error);
+    }
+  }
+
+  async deleteRecord(args: schemas.DeleteRecordArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { table, sys_id, confirm } = args;
+      
+      this.assertTableNotProtected(table);
+      const current = await api.getRecord(table, sys_id, { excludeReferenceLink: true });
+      const header = `${table} ${this.describeRecord(current)} (${sys_id})`;
+      
+      const instance = this.activeProfile().name;
+      if (!confirm) {
+        const token = this.deleteConfirmations.issue('delete-record', instance, { table, sys_id });
+        
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `⚠️ About to delete ${header}\n` +
+                    `Last updated: ${current.sys_updated_on || 'unknown'} by ${current.sys_updated_by || 'unknown'}\n\n` +
+                    `${JSON.stringify(current, null, 2)}\n\n` +
+                    `To delete this record, call delete-record again with confirm: "${token}" ` +
+                    `(valid for ${this.deleteConfirmations.ttlMinutes} minutes).`,
+            },
+          ],
+        };
+      }
+      
+      if (!this.deleteConfirmations.consume(confirm, 'delete-record', instance, { table, sys_id })) {
+        throw new Error('Invalid or expired confirmation token. Call delete-record without confirm to get a new one.');
+      }
+      
+      this.logger.info(`Deleting record ${table}/${sys_id}`);
+      await api.deleteRecord(table, sys_id);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Successfully deleted ${header}`,
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('delete record', error);
+    }
+  }
+
+  async listSessionChanges(args: schemas.ListSessionChangesArgs) {
+    try {
+      const { limit = 50 } = args;
+      const instance = this.activeProfile().name;
+      const changes = this.journal.changes(instance);
+      if (changes.length === 0) {
+        return {
+          content: [{ type: 'text', text: `No changes recorded on '${instance}' in this session.` }],
+        };
+      }
+
+      const shown = changes.slice(-limit).reverse();
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📒 ${changes.length} change(s) on '${instance}' in this session` +
+                  (shown.length < changes.length ? `, newest ${shown.length} shown` : '') + ':\n' +
+                  shown.map((entry) => `  ${this.describeChange(entry)}`).join('\n') +
+                  (this.config.servicenow.journalFile ? `\n\nJournal file: ${path.resolve(this.config.servicenow.journalFile)}` : ''),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('list session changes', error);
+    }
+  }
+
+  async exportAuditLog(args: schemas.ExportAuditLogArgs) {
+    try {
+      if (!this.auditLog.enabled) {
+        throw new Error('The audit log is disabled; set AUDIT_LOG_FILE to enable it');
+      }
+      const { from, to, target_instance: instance, tool, output_path: outputPath, limit = 200 } = args;
+      const entries = await this.auditLog.read({
+        from: from ? parseAuditDate(from, 'from') : undefined,
+        to: to ? parseAuditDate(to, 'to') : undefined,
+        instance,
+        tool,
+      });
+      const filters = [from && `from ${from}`, to && `to ${to}`, instance && `instance '${instance}'`, tool && `tool '${tool}'`]
+        .filter(Boolean).join(', ');
+      const summary = `🧾 ${entries.length} audit entr${entries.length === 1 ? 'y' : 'ies'}${filters ? ` (${filters})` : ''}`;
+
+      if (outputPath) {
+        const target = resolveInside(this.auditLog.exportDir, outputPath, 'output_path');
+        if (this.auditLog.isLogFileName(target)) {
+          throw new Error(`output_path '${outputPath}' would overwrite an audit log file; choose another name`);
+        }
+        await fs.mkdir(path.dirname(target), { recursive: true });
+        await fs.writeFile(target, entries.map((entry) => `${JSON.stringify(entry)}\n`).join(''), 'utf8');
+        return {
+          content: [{ type: 'text', text: `${summary} written to ${target}` }],
+        };
+      }
+
+      const shown = entries.slice(-limit);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: summary + (shown.length < entries.length ? `, newest ${shown.length} shown` : '') +
+                  (shown.length > 0 ? `:\n${shown.map((entry) => JSON.stringify(entry)).join('\n')}` : '.'),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('export the audit log', error);
+    }
+  }
+
+  async undoSessionChanges(args: schemas.UndoSessionChangesArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const instance = this.activeProfile().name;
+      const changes = this.journal.changes(instance).reverse();
+      const pending = args.count ? changes.slice(0, args.count) : changes;
+      if (pending.length === 0) {
+        return {
+          content: [{ type: 'text', text: `Nothing to undo on '${instance}' in this session.` }],
+        };
+      }
+
+      if (args.dry_run) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `🔍 DRY RUN - would revert ${pending.length} change(s), newest first:\n` +
+                    pending.map((entry) => `  ${this.describeChange(entry)}`).join('\n'),
+            },
+          ],
+        };
+      }
+
+      // Reverts are not journaled themselves; the undo entries record them instead
+      const context = getCallContext();
+      const unjournaled = context ? { ...context, journal: undefined } : undefined;
+      const reverted: string[] = [];
+      for (const entry of pending) {
+        try {
+          await (unjournaled ? runWithCallContext(unjournaled, () => this.revertChange(api, entry)) : this.revertChange(api, entry));
+        } catch (error) {
+          return this.errorResponse('undo session changes', error,
+            `Stopped at: ${this.describeChange(entry)}\n` +
+            (reverted.length > 0 ? `Reverted before the failure:\n${reverted.join('\n')}` : 'Nothing was reverted.'));
+        }
+        this.journal.markUndone(entry);
+        reverted.push(`  ↩️ ${this.describeChange(entry)}`);
+      }
+
       return {
         content: [
           {
             type: 'text',
-            text: `❌ Failed to create record: ${(error as Error).message}`,
+            text: `✅ Reverted ${reverted.length} change(s), newest first:\n${reverted.join('\n')}`,
           },
         ],
       };
+    } catch (error) {
+      return this.errorResponse('undo session changes', error);
+    }
+  }
+
+  private async revertChange(api: ServiceNowApiService, entry: ChangeEntry): Promise<void> {
+    switch (entry.operation) {
+      case 'create':
+        try {
+          await api.deleteRecord(entry.table, entry.sys_id);
+        } catch (error) {
+          // Already deleted by other means; the change is gone either way
+          if (!(error instanceof ServiceNowNotFoundError)) {
+            throw error;
+          }
+        }
+        return;
+      case 'update': {
+        // Only the fields the change wrote; the update set just said where it was captured
+        const restore = Object.fromEntries(entry.fields
+          .filter((field) => field !== 'sys_update_set' && entry.before && field in entry.before)
+          .map((field) => [field, entry.before![field]]));
+        if (Object.keys(restore).length > 0) {
+          await api.updateRecord(entry.table, entry.sys_id, restore);
+        }
+        return;
+      }
+      case 'delete': {
+        // Re-inserted under its old sys_id, so references to it resolve again
+        const restore = Object.fromEntries(Object.entries(entry.before ?? {})
+          .filter(([field]) => field === 'sys_id' || !field.startsWith('sys_')));
+        await api.createRecord(entry.table, restore);
+        return;
+      }
     }
   }
 
+  private describeChange(entry: ChangeEntry): string {
+    const image = entry.after ?? entry.before ?? {};
+    const label = displayValueOf(image, entry.table);
+    return `${entry.timestamp} ${entry.operation} ${entry.table} '${label}' (${entry.sys_id}) by ${entry.tool}` +
+      (entry.operation === 'update' ? `: ${entry.fields.filter((field) => field !== 'sys_update_set').join(', ')}` : '');
+  }
+
   async createCatalogItem(command: string) {
     try {
       // Simple pattern matching for demo
@@ -829,7 +1310,7 @@ export class SimpleServiceNowMCPServer {
       // Find or create category
       let categoryRecord;
       try {
-        const categories = await api.getRecords('sc_category', `title=${category}`);
+        const categories = await api.getRecords('sc_category', EncodedQuery.where('title', '=', category));
         if (categories.length > 0) {
           categoryRecord = categories[0];
         } else {
@@ -842,7 +1323,7 @@ export class SimpleServiceNowMCPServer {
         }
       } catch (error) {
         // Default to first available category
-        const categories = await api.getRecords('sc_category', 'active=true');
+        const categories = await api.getRecords('sc_category', EncodedQuery.where('active', '=', true));
         if (categories.length > 0) {
           categoryRecord = categories[0];
         } else {
@@ -874,18 +1355,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create catalog item: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create catalog item', error);
     }
   }
 
-  async createRecordProducer(args: any) {
+  async createRecordProducer(args: schemas.CreateRecordProducerArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -915,18 +1389,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Record Producer: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Record Producer', error);
     }
   }
 
-  async createVariable(args: any) {
+  async createVariable(args: schemas.CreateVariableArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -941,9 +1408,11 @@ export class SimpleServiceNowMCPServer {
       }
 
       // Validate choice type has choices
-      if (args.type === 'choice' && !args.choices) {
-        throw new Error('choices parameter is required when type is "choice"');
+      const hasChoices = CHOICE_VARIABLE_TYPES.includes(args.type);
+      if (hasChoices && !args.choices) {
+        throw new Error(`choices parameter is required when type is "${args.type}"`);
       }
+      const choices = hasChoices && args.choices ? normalizeChoices(args.choices) : [];
       
       // ServiceNow variable type mappings
       const variableTypeMap: Record<string, string> = {
@@ -999,20 +1468,7 @@ export class SimpleServiceNowMCPServer {
       const variableSysId = (variable as any).sys_id;
 
       // Handle choice variables - create choice records
-      if (args.type === 'choice' && args.choices) {
-        const choiceList = args.choices.split(',');
-        for (let i = 0; i < choiceList.length; i++) {
-          const choice = choiceList[i].trim();
-          const choiceData = this.addUpdateSetToRecord({
-            question: variableSysId,
-            text: choice,
-            value: choice,
-            order: (i + 1) * 100,
-            inactive: false
-          });
-          await api.createRecord('question_choice', choiceData);
-        }
-      }
+      await api.createVariableChoices(variableSysId, choices);
 
       return {
         content: [
@@ -1022,24 +1478,17 @@ export class SimpleServiceNowMCPServer {
                   `Name: ${args.name}\n` +
                   `Type: ${args.type} (ServiceNow type: ${variableTypeMap[args.type] || '6'})\n` +
                   `ID: ${variableSysId}` +
-                  (args.type === 'choice' && args.choices ? `\nChoices: ${args.choices}` : '') +
+                  (choices.length > 0 ? `\nChoices: ${formatChoices(choices)}` : '') +
                   (args.type === 'reference' && args.reference_table ? `\nReference Table: ${args.reference_table}` : ''),
           },
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Variable: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Variable', error);
     }
   }
 
-  async createVariableSet(args: any) {
+  async createVariableSet(args: schemas.CreateVariableSetArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1065,18 +1514,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Variable Set: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Variable Set', error);
     }
   }
 
-  async createUIPolicy(args: any) {
+  async createUIPolicy(args: schemas.CreateUIPolicyArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1099,6 +1541,12 @@ export class SimpleServiceNowMCPServer {
       if (!args.table) {
         throw new Error('Table parameter is required for regular UI policies. For catalog items, use create-catalog-ui-policy instead.');
       }
+      if (args.conditions) {
+        // Only the first segment of a dot-walked condition field belongs to the policy's table
+        const conditionFields = parseEncodedQuery(args.conditions).groups
+          .flatMap((group) => group.clauses.flatMap((clause) => clause.conditions.map((condition) => condition.field.split('.')[0])));
+        await this.validateFieldNames(args.table, [...new Set(conditionFields)]);
+      }
       
       const uiPolicy = await api.createUIPolicy(args.table, args.name, args.conditions, {
         description: args.short_description,
@@ -1120,18 +1568,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create UI Policy: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create UI Policy', error);
     }
   }
 
-  async createCatalogUIPolicy(args: any) {
+  async createCatalogUIPolicy(args: schemas.CreateCatalogUIPolicyArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1171,18 +1612,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Catalog UI Policy: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Catalog UI Policy', error);
     }
   }
 
-  async createCatalogUIPolicyAction(args: any) {
+  async createCatalogUIPolicyAction(args: schemas.CreateCatalogUIPolicyActionArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1211,18 +1645,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Catalog UI Policy Action: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Catalog UI Policy Action', error);
     }
   }
 
-  async createScriptInclude(args: any) {
+  async createScriptInclude(args: schemas.CreateScriptIncludeArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1249,18 +1676,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Script Include: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Script Include', error);
     }
   }
 
-  async createScheduledJob(args: any) {
+  async createScheduledJob(args: schemas.CreateScheduledJobArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1290,18 +1710,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Scheduled Job: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Scheduled Job', error);
     }
   }
 
-  async createEmailNotification(args: any) {
+  async createEmailNotification(args: schemas.CreateEmailNotificationArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1333,18 +1746,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Email Notification: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Email Notification', error);
     }
   }
 
-  async createCatalogClientScript(args: any) {
+  async createCatalogClientScript(args: schemas.CreateCatalogClientScriptArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1372,18 +1778,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Catalog Client Script: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Catalog Client Script', error);
     }
   }
 
-  async createUIPolicyAction(args: any) {
+  async createUIPolicyAction(args: schemas.CreateUIPolicyActionArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1426,18 +1825,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create UI Policy Action: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create UI Policy Action', error);
     }
   }
 
-  async createClientScript(args: any) {
+  async createClientScript(args: schemas.CreateClientScriptArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1468,18 +1860,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Client Script: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Client Script', error);
     }
   }
 
-  async createBusinessRule(args: any) {
+  async createBusinessRule(args: schemas.CreateBusinessRuleArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1500,10 +1885,9 @@ export class SimpleServiceNowMCPServer {
       }
       
       // Handle operations - support both array and string formats
-      let operations = args.operation || ['insert', 'update'];
-      if (typeof operations === 'string') {
-        operations = operations.split(',').map((op: string) => op.trim());
-      }
+      const operations: string[] = typeof args.operation === 'string'
+        ? args.operation.split(',').map((op: string) => op.trim())
+        : args.operation || ['insert', 'update'];
       
       const recordData = this.addUpdateSetToRecord({
         name: args.name,
@@ -1551,18 +1935,212 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
+      return this.errorResponse('create Business Rule', error);
+    }
+  }
+
+  async describeTable(args: schemas.DescribeTableArgs) {
+    try {
+      const { table, include_inherited = true } = args;
+      const schema = await (await this.getTableSchemas()).describeTable(table);
+      const columns = schema.columns.filter((column) => include_inherited || column.definedOn === table);
+
+      const lines = [
+        `📋 Table ${schema.name} (${schema.label})` +
+          (schema.hierarchy.length > 1 ? ` extends ${schema.hierarchy.slice(1).join(' → ')}` : ''),
+        `${columns.length} field(s):`,
+        '',
+        ...columns.map((column) => {
+          const attributes = [
+            column.reference ? `${column.type} → ${column.reference}` : column.type,
+            column.mandatory ? 'mandatory' : undefined,
+            column.readOnly ? 'read-only' : undefined,
+            column.maxLength ? `max ${column.maxLength}` : undefined,
+            column.defaultValue ? `default ${column.defaultValue}` : undefined,
+            column.definedOn !== table ? `from ${column.definedOn}` : undefined,
+          ].filter(Boolean);
+          const choices = column.choices.length > 0
+            ? `\n    choices: ${column.choices.map((choice) => `${choice.value}=${choice.label}`).join(', ')}`
+            : '';
+          return `• ${column.name} — ${column.label} [${attributes.join(', ')}]${choices}`;
+        }),
+      ];
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: lines.join('\n'),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('describe table', error);
+    }
+  }
+
+  async listTables(args: schemas.ListTablesArgs) {
+    try {
+      const { filter, limit = 50 } = args;
+      const tables = await (await this.getTableSchemas()).listTables({ filter, extendsTable: args.extends, limit });
+
+      const lines = tables.map((table) =>
+        `• ${table.name} — ${table.label}` +
+        (table.superClass ? ` (extends ${table.superClass})` : '') +
+        (table.scope && table.scope !== 'Global' ? ` [${table.scope}]` : '')
+      );
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `📋 Found ${tables.length} table(s)` + (tables.length === limit ? ` (limit ${limit} reached; narrow the filter)` : '') +
+              (lines.length > 0 ? `:\n\n${lines.join('\n')}` : '.'),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('list tables', error);
+    }
+  }
+
+  async createTable(args: schemas.CreateTableArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const created = await api.createTable({
+        name: args.name,
+        label: args.label,
+        scope: args.scope,
+        extends: args.extends,
+        extensible: args.extensible,
+        number_prefix: args.number_prefix,
+        columns: args.columns,
+        create_module: args.create_module,
+        menu: args.menu
+      });
+      (await this.getTableSchemas()).invalidate(args.name);
+
+      const lines = [
+        `✅ Successfully created table ${args.name} (${args.label})`,
+        `Table ID: ${created.table.sys_id}`,
+        `Extends: ${args.extends || 'none'}`,
+        `Auto-number: ${args.number_prefix ? `${args.number_prefix}0001000` : 'none'}`,
+        `Columns: ${created.columns.length > 0 ? created.columns.map((column) => column.element).join(', ') : 'none'}`,
+      ];
+      if (created.menu && created.module) {
+        lines.push(`Module: ${created.menu.record.title} → ${args.label} ` +
+          `(${created.menu.created ? 'new' : 'existing'} application menu ${created.menu.record.sys_id})`);
+      }
+
+      return {
+        content: [
+          {
+            type: 'text',
+            text: lines.join('\n'),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('create table', error);
+    }
+  }
+
+  async manageChoices(args: schemas.ManageChoicesArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { table, field, add = [], order, deactivate = [], language = DEFAULT_CHOICE_LANGUAGE } = args;
+      if (add.length === 0 && !order && deactivate.length === 0) {
+        throw new Error('Nothing to change: pass add, order or deactivate');
+      }
+      await this.validateFieldNames(table, [field]);
+
+      const existing = await api.getRecords('sys_choice',
+        EncodedQuery.where('name', '=', table).and('element', '=', field).and('language', '=', language).orderBy('sequence'), {
+          fields: ['sys_id', 'value', 'label', 'sequence', 'inactive', 'dependent_value'],
+          excludeReferenceLink: true
+        });
+      const rows = existing.map((row) => ({
+        sysId: row.sys_id as string | undefined,
+        value: row.value as string,
+        label: row.label as string,
+        sequence: Number(row.sequence) || 0,
+        inactive: row.inactive === 'true',
+        dependentValue: (row.dependent_value || undefined) as string | undefined,
+        changed: false,
+      }));
+
+      // New choices go after the existing ones unless given a sequence
+      const lastSequence = Math.max(0, ...rows.map((row) => row.sequence));
+      const additions = normalizeChoices(add.map((choice, index) => ({
+        ...choice,
+        language,
+        sequence: choice.sequence ?? lastSequence + (index + 1) * CHOICE_SEQUENCE_STEP,
+      })));
+      const summary: string[] = [];
+      for (const choice of additions) {
+        const row = rows.find((candidate) => candidate.value === choice.value && candidate.dependentValue === choice.dependent_value);
+        if (!row) {
+          rows.push({ sysId: undefined, value: choice.value, label: choice.label, sequence: choice.sequence,
+            inactive: choice.inactive, dependentValue: choice.dependent_value, changed: true });
+          summary.push(`➕ Added ${choice.value}=${choice.label}`);
+        } else if (row.label !== choice.label || row.inactive !== choice.inactive) {
+          Object.assign(row, { label: choice.label, inactive: choice.inactive, changed: true });
+          summary.push(`✏️ Updated ${choice.value}=${choice.label}`);
+        }
+      }
+
+      const unknown = [...deactivate, ...(order ?? [])].filter((value) => !rows.some((row) => row.value === value));
+      if (unknown.length > 0) {
+        throw new Error(`No choice with value ${[...new Set(unknown)].map((value) => `'${value}'`).join(', ')} on ${table}.${field} (${language})`);
+      }
+
+      for (const row of rows.filter((candidate) => deactivate.includes(candidate.value) && !candidate.inactive)) {
+        Object.assign(row, { inactive: true, changed: true });
+        summary.push(`⏸️ Deactivated ${row.value}`);
+      }
+
+      if (order) {
+        // Listed values first, then everything else in its current order
+        const rank = (value: string) => order.includes(value) ? order.indexOf(value) : order.length;
+        const sorted = [...rows].sort((a, b) => rank(a.value) - rank(b.value) || a.sequence - b.sequence);
+        sorted.forEach((row, index) => {
+          const sequence = (index + 1) * CHOICE_SEQUENCE_STEP;
+          if (row.sequence !== sequence) {
+            Object.assign(row, { sequence, changed: true });
+          }
+        });
+        summary.push(`🔀 Reordered: ${sorted.map((row) => row.value).join(', ')}`);
+      }
+
+      for (const row of rows.filter((candidate) => candidate.changed)) {
+        if (row.sysId) {
+          await api.updateRecord('sys_choice', row.sysId, { label: row.label, sequence: row.sequence, inactive: row.inactive });
+        } else {
+          await api.createFieldChoices(table, field, [{
+            value: row.value, label: row.label, sequence: row.sequence, language, inactive: row.inactive, dependent_value: row.dependentValue,
+          }]);
+        }
+      }
+      (await this.getTableSchemas()).invalidate(table);
+
+      const current = [...rows].sort((a, b) => a.sequence - b.sequence)
+        .map((row) => `  ${row.sequence}. ${row.value}=${row.label}${row.inactive ? ' (inactive)' : ''}`);
       return {
         content: [
           {
             type: 'text',
-            text: `❌ Failed to create Business Rule: ${(error as Error).message}`,
+            text: `✅ Choices for ${table}.${field} (${language}):\n` +
+              (summary.length > 0 ? summary.join('\n') : 'ℹ️ No changes needed') +
+              `\n\nCurrent choices:\n${current.join('\n')}`,
           },
         ],
       };
+    } catch (error) {
+      return this.errorResponse('manage choices', error);
     }
   }
 
-  async createTableField(args: any) {
+  async createTableField(args: schemas.CreateTableFieldArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1582,13 +2160,15 @@ export class SimpleServiceNowMCPServer {
         fieldData.max_length = args.max_length;
       }
 
-      if (args.choices) {
-        fieldData.choice = '1';
-        // Note: Choices need to be created separately in sys_choice table
+      const choices = args.choices ? normalizeChoices(args.choices) : [];
+      if (choices.length > 0) {
+        fieldData.choice = CHOICE_DROPDOWN_WITH_NONE;
       }
 
       const recordDataWithUpdateSet = this.addUpdateSetToRecord(fieldData);
       const field = await api.createRecord('sys_dictionary', recordDataWithUpdateSet);
+      await api.createFieldChoices(args.table, args.column_name, choices);
+      (await this.getTableSchemas()).invalidate(args.table);
 
       return {
         content: [
@@ -1598,23 +2178,17 @@ export class SimpleServiceNowMCPServer {
                   `Table: ${args.table}\n` +
                   `Field: ${args.column_name}\n` +
                   `Type: ${args.type}\n` +
+                  (choices.length > 0 ? `Choices: ${formatChoices(choices)}\n` : '') +
                   `ID: ${(field as any).sys_id}`,
           },
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Table Field: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Table Field', error);
     }
   }
 
-  async createAssignmentGroup(args: any) {
+  async createAssignmentGroup(args: schemas.CreateAssignmentGroupArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -1639,21 +2213,15 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Assignment Group: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Assignment Group', error);
     }
   }
 
-  async implementInvoiceStatusInquiry(args: any) {
+  async implementInvoiceStatusInquiry(args: schemas.ImplementInvoiceStatusInquiryArgs) {
+    const results: string[] = [];
+    // Everything the steps wrote, so a failed run can delete what it created
+    const written: RecordReference[] = [];
     try {
-      const api = await this.getServiceNowApi();
-      const results: string[] = [];
       
       if (args.dry_run) {
         results.push('🔍 DRY RUN MODE - Preview of changes:');
@@ -1669,14 +2237,14 @@ export class SimpleServiceNowMCPServer {
         { name: 'u_invoice_entries', label: 'Invoice Entries', type: 'longstring' },
         { name: 'u_bulk_upload_used', label: 'Bulk Upload Used', type: 'boolean' },
         { name: 'u_additional_comments', label: 'Additional Comments', type: 'string', max_length: 4000 },
-        { name: 'u_urgency_level', label: 'Urgency Level', type: 'choice', choices: 'low,medium,high,critical' },
+        { name: 'u_urgency_level', label: 'Urgency Level', type: 'choice', choices: 'low=Low,medium=Medium,high=High,critical=Critical' },
         { name: 'u_bot_eligible', label: 'Bot Eligible', type: 'boolean' },
         { name: 'u_bot_eligibility_reason', label: 'Bot Eligibility Reason', type: 'string', max_length: 255 }
       ];
 
       for (const field of fields) {
         if (!args.dry_run) {
-          await this.createTableField({
+          await this.runStep(written, () => this.createTableField({
             table: 'sn_customerservice_case',
             column_name: field.name,
             column_label: field.label,
@@ -1684,7 +2252,7 @@ export class SimpleServiceNowMCPServer {
             reference_table: field.reference,
             max_length: field.max_length,
             choices: field.choices
-          });
+          }));
         }
         results.push(`  ✓ ${field.label} (${field.name})`);
       }
@@ -1702,11 +2270,11 @@ export class SimpleServiceNowMCPServer {
 
       for (const groupName of groups) {
         if (!args.dry_run) {
-          await this.createAssignmentGroup({
+          await this.runStep(written, () => this.createAssignmentGroup({
             name: groupName,
             description: `Accounts Payable helpdesk for ${groupName.split('_')[2] || 'Global'} region`,
             type: 'itil'
-          });
+          }));
         }
         results.push(`  ✓ ${groupName}`);
       }
@@ -1716,18 +2284,17 @@ export class SimpleServiceNowMCPServer {
       
       let recordProducerId = '';
       if (!args.dry_run) {
-        const rpResult = await this.createRecordProducer({
+        const records = await this.runStep(written, () => this.createRecordProducer({
           name: 'Invoice Status Inquiry',
           short_description: 'Check payment status for invoices',
           table: 'sn_customerservice_case',
           category: 'Finance & Accounting',
           scope: args.scope || 'sn_customerservice',
           access_type: 'internal'
-        });
-        // Extract sys_id from result (simplified for demo)
-        recordProducerId = 'generated-rp-id';
+        }));
+        recordProducerId = this.writtenSysId(records, 'sc_cat_item_producer');
       }
-      results.push('  ✓ Invoice Status Inquiry Record Producer');
+      results.push('  ✓ Invoice Status Inquiry Record Producer' + (recordProducerId ? ` (${recordProducerId})` : ''));
 
       // Step 4: Create Variables
       results.push('\n🔧 Creating variables...');
@@ -1738,12 +2305,12 @@ export class SimpleServiceNowMCPServer {
         { name: 'bulk_upload_option', label: 'Upload Excel template for >10 invoices', type: 'checkbox' },
         { name: 'excel_attachment', label: 'Excel Template', type: 'file_attachment' },
         { name: 'additional_comments', label: 'Additional Information', type: 'multi_line_text' },
-        { name: 'urgency_level', label: 'Urgency Level', type: 'choice', choices: 'low,medium,high,critical', default: 'medium' }
+        { name: 'urgency_level', label: 'Urgency Level', type: 'choice', choices: 'low=Low,medium=Medium,high=High,critical=Critical', default: 'medium' }
       ];
 
       for (const variable of variables) {
-        if (!args.dry_run && recordProducerId) {
-          await this.createVariable({
+        if (!args.dry_run) {
+          await this.runStep(written, () => this.createVariable({
             name: variable.name,
             question_text: variable.label,
             type: variable.type,
@@ -1752,7 +2319,7 @@ export class SimpleServiceNowMCPServer {
             choices: variable.choices,
             default_value: variable.default,
             catalog_item: recordProducerId
-          });
+          }));
         }
         results.push(`  ✓ ${variable.label}`);
       }
@@ -1779,45 +2346,45 @@ export class SimpleServiceNowMCPServer {
           order: 300,
           description: 'Assigns appropriate SLA based on urgency'
         }
-      ];
+      ] as const;
 
       for (const rule of businessRules) {
         if (!args.dry_run) {
-          await this.createBusinessRule({
+          await this.runStep(written, () => this.createBusinessRule({
             name: rule.name,
             table: 'sn_customerservice_case',
             when: rule.when,
             script: `// ${rule.description}\n// Generated by ServiceNow MCP\n// Implementation details in CLAUDE.md`,
             description: rule.description,
             order: rule.order
-          });
+          }));
         }
         results.push(`  ✓ ${rule.name}`);
       }
 
-      // Step 6: Create Client Scripts
+      // Step 6: Create Client Scripts on the record producer
       results.push('\n💻 Creating client scripts...');
       
       const clientScripts = [
         { name: 'Invoice Form Validation', type: 'onSubmit' },
-        { name: 'Bulk Upload Toggle', type: 'onChange' },
+        { name: 'Bulk Upload Toggle', type: 'onChange', field: 'bulk_upload_option' },
         { name: 'Multi-row Management', type: 'onLoad' }
       ];
 
       for (const script of clientScripts) {
-        if (!args.dry_run && recordProducerId) {
-          await this.createClientScript({
+        if (!args.dry_run) {
+          await this.runStep(written, () => this.createCatalogClientScript({
             name: script.name,
-            table: 'sn_customerservice_case',
+            catalog_item: recordProducerId,
             type: script.type,
-            script: `// ${script.name}\n// Generated by ServiceNow MCP\n// Implementation details in CLAUDE.md`,
-            catalog_item: recordProducerId
-          });
+            field: script.field,
+            script: `// ${script.name}\n// Generated by ServiceNow MCP\n// Implementation details in CLAUDE.md`
+          }));
         }
         results.push(`  ✓ ${script.name}`);
       }
 
-      // Step 7: Create UI Policies
+      // Step 7: Create UI Policies on the record producer; their conditions use variable names
       results.push('\n🎨 Creating UI policies...');
       
       const uiPolicies = [
@@ -1827,12 +2394,11 @@ export class SimpleServiceNowMCPServer {
 
       for (const policy of uiPolicies) {
         if (!args.dry_run) {
-          await this.createUIPolicy({
+          await this.runStep(written, () => this.createCatalogUIPolicy({
+            catalog_item: recordProducerId,
             name: policy.name,
-            table: 'sn_customerservice_case',
-            conditions: policy.condition,
-            catalog_item: recordProducerId
-          });
+            catalog_conditions: policy.condition
+          }));
         }
         results.push(`  ✓ ${policy.name}`);
       }
@@ -1853,49 +2419,167 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
+      const rollback = await this.rollBackCreated(written);
+      return this.errorResponse('implement Invoice Status Inquiry', error, `Completed steps:${results.join('\n')}\n\n${rollback}`);
+    }
+  }
+
+  /**
+   * Runs one step of a composite builder in its own call context, so the
+   * records it writes can be told apart from earlier steps. An error result
+   * fails the whole build.
+   */
+  private async runStep(written: RecordReference[], step: () => Promise<ToolResult>): Promise<RecordReference[]> {
+    const parent = getCallContext();
+    const context: CallContext = {
+      toolName: parent?.toolName ?? 'step',
+      instance: parent?.instance ?? this.activeProfile().name,
+      idempotent: parent?.idempotent ?? this.config.servicenow.idempotent,
+      artifacts: parent?.artifacts ?? [],
+      records: [],
+      journal: parent?.journal,
+      session: parent?.session ?? this.session,
+    };
+    const result = await runWithCallContext(context, step);
+    written.push(...context.records);
+    parent?.records.push(...context.records);
+    if (result.isError) {
+      throw new Error(result.content.map((item) => item.text).join('\n').replace(/^❌ /, ''));
+    }
+    return context.records;
+  }
+
+  private writtenSysId(records: RecordReference[], table: string): string {
+    const record = records.find((candidate) => candidate.table === table);
+    if (!record) {
+      throw new Error(`Expected a ${table} record, but the step wrote none`);
+    }
+    return record.sys_id;
+  }
+
+  // Deletes what a failed composite call created, newest first. Records it only
+  // updated (in idempotent mode) are left as they are.
+  private async rollBackCreated(written: RecordReference[]): Promise<string> {
+    const created = written.filter((record) => record.action === 'created').reverse();
+    if (created.length === 0) {
+      return 'Nothing was created, so there is nothing to roll back.';
+    }
+
+    const api = await this.getServiceNowApi();
+    const lines: string[] = [];
+    for (const record of created) {
+      try {
+        await api.deleteRecord(record.table, record.sys_id);
+        lines.push(`  ↩️ deleted ${record.table} '${record.display_value}' (${record.sys_id})`);
+      } catch (error) {
+        lines.push(`  ⚠️ could not delete ${record.table} ${record.sys_id}: ${describeError(error)}`);
+      }
+    }
+    return `Rolled back ${created.length} created record(s):\n${lines.join('\n')}`;
+  }
+
+  async planManifest(args: schemas.PlanManifestArgs) {
+    try {
+      const manifest = await this.readManifest(args);
+      const api = await this.getServiceNowApi();
+      const plan = await new ManifestRunner(api).plan(manifest);
+      const changes = plan.artifacts.filter((planned) => planned.action !== 'no-op').length;
+
       return {
         content: [
           {
             type: 'text',
-            text: `❌ Failed to implement Invoice Status Inquiry: ${(error as Error).message}`,
+            text: `${formatPlan(plan)}\n\n` +
+                  (changes > 0
+                    ? `Run apply-manifest with the same manifest to make these ${changes} change(s).`
+                    : 'The instance already matches the manifest.'),
           },
         ],
       };
+    } catch (error) {
+      return this.errorResponse('plan manifest', error);
     }
   }
 
-  async createUpdateSet(args: any) {
+  async applyManifest(args: schemas.ApplyManifestArgs) {
     try {
+      const manifest = await this.readManifest(args);
       const api = await this.getServiceNowApi();
-      const { name, description } = args;
-      
-      const updateSet = await api.createUpdateSet(name, description);
-      
+
+      const updateSet = await api.createUpdateSet(manifest.update_set ?? manifest.name,
+        manifest.description || `Applied from manifest '${manifest.name}'`);
+      this.logger.info(`Applying manifest ${manifest.name}`, { artifacts: manifest.artifacts.length, updateSet: updateSet.sys_id });
+
+      let outcomes: ArtifactOutcome[];
+      try {
+        outcomes = await new ManifestRunner(api).apply(manifest, updateSet.sys_id);
+      } catch (error) {
+        if (error instanceof ManifestApplyError) {
+          return this.errorResponse('apply manifest', error,
+            `Update set: ${fieldValue(updateSet.name)} (${updateSet.sys_id})\n` +
+            (error.applied.length > 0 ? `Applied before the failure:\n${formatArtifactOutcomes(error.applied)}` : 'Nothing was applied.'));
+        }
+        throw error;
+      } finally {
+        // Manifests that add tables, columns or choices leave cached schemas stale
+        if (manifest.artifacts.some((artifact) => SCHEMA_TABLES.includes(artifact.table))) {
+          (await this.getTableSchemas()).invalidate();
+        }
+      }
+
       return {
         content: [
           {
             type: 'text',
-            text: `✅ Successfully created update set:\n` +
-                  `Name: ${updateSet.name}\n` +
-                  `Description: ${updateSet.description}\n` +
-                  `State: ${updateSet.state}\n` +
-                  `Sys ID: ${updateSet.sys_id}`,
+            text: `✅ Applied manifest '${manifest.name}'\n` +
+                  `Update set: ${fieldValue(updateSet.name)} (${updateSet.sys_id})\n\n` +
+                  formatArtifactOutcomes(outcomes),
           },
         ],
       };
     } catch (error) {
+      return this.errorResponse('apply manifest', error);
+    }
+  }
+
+  private async readManifest(args: schemas.PlanManifestArgs): Promise<Manifest> {
+    if (Boolean(args.file_path) === Boolean(args.manifest)) {
+      throw new Error('Provide exactly one of file_path or manifest');
+    }
+    const source = args.manifest ?? await fs.readFile(resolveInside(this.config.servicenow.manifestDir, args.file_path!, 'file_path'), 'utf8');
+    const manifest = parseManifest(source);
+    // Artifacts are upserted, so they get the same guard as update-record
+    for (const artifact of manifest.artifacts) {
+      this.assertTableNotProtected(artifact.table);
+    }
+    return manifest;
+  }
+
+  async createUpdateSet(args: schemas.CreateUpdateSetArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { name, description } = args;
+      
+      const updateSet = await api.createUpdateSet(name, description);
+      
       return {
         content: [
           {
             type: 'text',
-            text: `❌ Failed to create update set: ${(error as Error).message}`,
+            text: `✅ Successfully created update set:\n` +
+                  `Name: ${updateSet.name}\n` +
+                  `Description: ${updateSet.description}\n` +
+                  `State: ${updateSet.state}\n` +
+                  `Sys ID: ${updateSet.sys_id}`,
           },
         ],
       };
+    } catch (error) {
+      return this.errorResponse('create update set', error);
     }
   }
 
-  async setCurrentUpdateSet(args: any) {
+  async setCurrentUpdateSet(args: schemas.SetCurrentUpdateSetArgs) {
     try {
       const api = await this.getServiceNowApi();
       const { update_set_id } = args;
@@ -1923,18 +2607,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to set current update set: ${(error as Error).message}. We'll still track it locally for direct field setting.`,
-          },
-        ],
-      };
+      return this.errorResponse('set current update set', error, "We'll still track it locally for direct field setting.");
     }
   }
 
-  async createApplicationScope(args: any) {
+  async createApplicationScope(args: schemas.CreateApplicationScopeArgs) {
     try {
       const api = await this.getServiceNowApi();
       const { name, scope, short_description, version = '1.0.0' } = args;
@@ -1955,47 +2632,32 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create application scope: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create application scope', error);
     }
   }
 
-  async setApplicationScope(args: any) {
+  async setApplicationScope(args: schemas.SetApplicationScopeArgs) {
     try {
-      const api = await this.getServiceNowApi();
       const { scope } = args;
-      
-      await api.setApplicationScope(scope);
-      
+      const profile = this.activeProfile();
+      // Kept in the session rather than on the shared client, so other sessions keep their own scope
+      this.sessionState().scope = scope;
+
       return {
         content: [
           {
             type: 'text',
             text: `✅ Application scope set to: ${scope}\n` +
-                  `Future development operations will be performed in this scope.\n` +
-                  `Note: This operation may require additional permissions in your ServiceNow instance.`,
+                  `Future development operations on '${profile.name}' in this session will be performed in this scope.`,
           },
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to set application scope: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('set application scope', error);
     }
   }
 
-  async createFlow(args: any) {
+  async createFlow(args: schemas.CreateFlowArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -2020,18 +2682,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Flow: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Flow', error);
     }
   }
 
-  async createFlowTrigger(args: any) {
+  async createFlowTrigger(args: schemas.CreateFlowTriggerArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -2056,18 +2711,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to create Flow Trigger: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('create Flow Trigger', error);
     }
   }
 
-  async addCreateRecordAction(args: any) {
+  async addCreateRecordAction(args: schemas.AddCreateRecordActionArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -2092,18 +2740,11 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to add Create Record action: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('add Create Record action', error);
     }
   }
 
-  async addSendEmailAction(args: any) {
+  async addSendEmailAction(args: schemas.AddSendEmailActionArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -2129,24 +2770,53 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to add Send Email action: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('add Send Email action', error);
     }
   }
 
   async start() {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.connect(new StdioServerTransport());
     // Logger output is redirected to stderr in MCP mode
     this.logger.debug(`ServiceNow MCP Server started successfully`);
   }
 
+  async connect(transport: Transport) {
+    await this.server.connect(transport);
+  }
+
+  // Closes the transport and waits for pending journal and audit log writes
+  async close() {
+    await this.server.close();
+    await Promise.all([this.journal.flush(), this.auditLog.flush()]);
+  }
+
+  // Helper method to render a failed tool call, with ServiceNow's context when available
+  private errorResponse(action: string, error: unknown, note?: string) {
+    return {
+      content: [
+        {
+          type: 'text',
+          text: `❌ Failed to ${action}: ${describeError(error)}` + (note ? `\n${note}` : ''),
+        },
+      ],
+      isError: true,
+    };
+  }
+
+  // Helper method to refuse generic and manifest writes to tables configured as protected
+  private assertTableNotProtected(table: string): void {
+    if (this.config.servicenow.protectedTables.includes(table)) {
+      throw new Error(`Table '${table}' is protected and cannot be modified with generic record tools or manifests. ` +
+        `Adjust PROTECTED_TABLES to change this.`);
+    }
+  }
+
+  // Helper method to pick a human-readable label for a record
+  private describeRecord(record: any): string {
+    const label = record.number || record.name || record.short_description || record.title || record.sys_id;
+    return `'${fieldValue(label)}'`;
+  }
+
   // Helper method to add update set to record data
   private addUpdateSetToRecord(recordData: any): any {
     if (this.currentUpdateSetId && !recordData.sys_update_set) {
@@ -2161,7 +2831,7 @@ export class SimpleServiceNowMCPServer {
         // Optionally fetch details about the update set
         const api = await this.getServiceNowApi();
         try {
-          const updateSets = await api.getRecords('sys_update_set', `sys_id=${this.currentUpdateSetId}`);
+          const updateSets = await api.getRecords('sys_update_set', EncodedQuery.where('sys_id', '=', this.currentUpdateSetId));
           if (updateSets.length > 0) {
             return {
               content: [
@@ -2200,18 +2870,351 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
+      return this.errorResponse('get current update set', error);
+    }
+  }
+
+  async listUpdateSets(args: schemas.ListUpdateSetsArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { state, scope, all_prefixes = false, limit = 25 } = args;
+      const prefix = all_prefixes ? '' : args.prefix ?? this.activeProfile().updateSetPrefix;
+      
+      const query = EncodedQuery.create();
+      if (prefix) {
+        query.and('name', 'STARTSWITH', prefix);
+      }
+      if (state) {
+        query.and('state', '=', state);
+      }
+      if (scope) {
+        query.and('application.scope', '=', scope);
+      }
+      query.orderBy('sys_created_on', 'desc');
+      
+      const page = await api.getRecordPage('sys_update_set', query, {
+        limit,
+        fields: ['sys_id', 'name', 'state', 'application', 'description', 'sys_created_on', 'sys_created_by'],
+        displayValue: 'all',
+        excludeReferenceLink: true
+      });
+      
+      if (page.records.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `ℹ️ No update sets found${prefix ? ` with prefix '${prefix}'` : ''}${state ? ` in state '${state}'` : ''}.`,
+            },
+          ],
+        };
+      }
+      
+      const lines = page.records.map((updateSet) =>
+        `• ${fieldValue(updateSet.name)} [${fieldValue(updateSet.state)}] ` +
+        `scope: ${updateSet.application?.display_value ?? fieldValue(updateSet.application)}, ` +
+        `created ${fieldValue(updateSet.sys_created_on)} by ${fieldValue(updateSet.sys_created_by)}\n` +
+        `  ID: ${fieldValue(updateSet.sys_id)}`
+      );
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Found ${page.totalCount ?? page.records.length} update set(s)` +
+                  `${prefix ? ` with prefix '${prefix}'` : ''}, showing ${page.records.length}:\n\n` +
+                  lines.join('\n'),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('list update sets', error);
+    }
+  }
+
+  async getUpdateSetContents(args: schemas.GetUpdateSetContentsArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { update_set_id, limit = 200 } = args;
+      
+      const updateSet = await api.getRecord('sys_update_set', update_set_id, { fields: ['name', 'state'] });
+      const page = await api.getRecordPage('sys_update_xml',
+        EncodedQuery.where('update_set', '=', update_set_id).orderBy('type').orderBy('target_name'), {
+        limit,
+        fields: ['sys_id', 'type', 'target_name', 'name', 'action', 'sys_updated_on', 'sys_updated_by'],
+        excludeReferenceLink: true
+      });
+      const total = page.totalCount ?? page.records.length;
+      
+      if (page.records.length === 0) {
+        return {
+          content: [
+            {
+              type: 'text',
+              text: `ℹ️ Update set '${updateSet.name}' (${updateSet.state}) has not captured any changes yet.`,
+            },
+          ],
+        };
+      }
+      
+      const lines = page.records.map((update) =>
+        `• [${update.action}] ${update.type}: ${update.target_name || update.name}` +
+        ` (updated ${update.sys_updated_on} by ${update.sys_updated_by})`
+      );
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Update set '${updateSet.name}' (${updateSet.state}) contains ${total} customer update(s)` +
+                  `${total > page.records.length ? `, showing first ${page.records.length}` : ''}:\n\n` +
+                  lines.join('\n'),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('get update set contents', error);
+    }
+  }
+
+  async completeUpdateSet(args: schemas.CompleteUpdateSetArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { update_set_id, allow_empty = false } = args;
+      
+      const updateSet = await api.getRecord('sys_update_set', update_set_id, { fields: ['name', 'state'] });
+      if (updateSet.state !== 'build') {
+        throw new Error(`Update set '${updateSet.name}' is in state '${updateSet.state}'; only in-progress (build) update sets can be completed`);
+      }
+      
+      // An empty update set is almost always a sign that changes were captured elsewhere
+      const contents = await api.getRecordPage('sys_update_xml', EncodedQuery.where('update_set', '=', update_set_id), { limit: 1, fields: ['sys_id'] });
+      const updateCount = contents.totalCount ?? contents.records.length;
+      if (updateCount === 0 && !allow_empty) {
+        throw new Error(`Update set '${updateSet.name}' has not captured any changes. ` +
+          `Check that work was done in this update set, or pass allow_empty: true to complete it anyway.`);
+      }
+      
+      await api.completeUpdateSet(update_set_id);
+      const wasCurrent = this.currentUpdateSetId === update_set_id;
+      if (wasCurrent) {
+        this.currentUpdateSetId = null;
+      }
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Update set '${updateSet.name}' marked complete with ${updateCount} customer update(s).\n` +
+                  `ID: ${update_set_id}` +
+                  (wasCurrent ? `\nNote: This was the current update set; set a new one before making further changes.` : ''),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('complete update set', error);
+    }
+  }
+
+  async exportUpdateSet(args: schemas.ExportUpdateSetArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { update_set_id } = args;
+      
+      const updateSet = await api.getRecord('sys_update_set', update_set_id, { displayValue: 'all' });
+      if (fieldValue(updateSet.state) !== 'complete') {
+        this.logger.warn(`Exporting update set ${update_set_id} that is not complete`, { state: fieldValue(updateSet.state) });
+      }
+      
+      const updates: any[] = [];
+      for await (const update of api.iterateRecords('sys_update_xml',
+        EncodedQuery.where('update_set', '=', update_set_id).orderBy('sys_created_on'), {
+        fields: UPDATE_XML_EXPORT_FIELDS,
+        displayValue: 'all',
+        excludeReferenceLink: true
+      })) {
+        updates.push(update);
+      }
+      
+      const fileName = args.output_path || `${fieldValue(updateSet.name).replace(/[^\w.-]+/g, '_')}.xml`;
+      const filePath = resolveInside(this.config.servicenow.updateSetExportDir, fileName, 'output_path');
+      await fs.mkdir(path.dirname(filePath), { recursive: true });
+      await fs.writeFile(filePath, buildUpdateSetXml(updateSet, updates), 'utf8');
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Exported update set '${fieldValue(updateSet.name)}' with ${updates.length} customer update(s)\n` +
+                  `File: ${filePath}` +
+                  (fieldValue(updateSet.state) !== 'complete' ? `\nNote: The update set is still '${fieldValue(updateSet.state)}'; complete it before promoting.` : ''),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('export update set', error);
+    }
+  }
+
+  async loadUpdateSetXml(args: schemas.LoadUpdateSetXmlArgs) {
+    try {
+      if (Boolean(args.file_path) === Boolean(args.xml)) {
+        throw new Error('Provide exactly one of file_path or xml');
+      }
+      const api = await this.getServiceNowApi();
+      
+      const xml = args.xml ?? await fs.readFile(resolveInside(this.config.servicenow.updateSetExportDir, args.file_path!, 'file_path'), 'utf8');
+      const parsed = parseUpdateSetXml(xml);
+      
+      this.logger.info(`Loading remote update set ${parsed.updateSet.name}`, { updates: parsed.updates.length });
+      const remoteUpdateSet = await api.loadRemoteUpdateSet(parsed);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ Retrieved update set '${parsed.updateSet.name}' with ${parsed.updates.length} customer update(s)\n` +
+                  `Remote update set ID: ${remoteUpdateSet.sys_id}\n\n` +
+                  `Next: run preview-remote-update-set to check for collisions.`,
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('load update set XML', error);
+    }
+  }
+
+  async previewRemoteUpdateSet(args: schemas.PreviewRemoteUpdateSetArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { remote_update_set_id, timeout_ms = 300000 } = args;
+      
+      const progress = await api.waitForCicdProgress(await api.previewRemoteUpdateSet(remote_update_set_id), timeout_ms);
+      if (progress.status !== '2') {
+        throw new Error(`Preview ${progress.status_label ?? 'failed'}: ${progress.error || progress.status_message || 'no details returned'}`);
+      }
+      
+      const problems = await this.getPreviewProblems(remote_update_set_id, false);
+      return {
+        content: [
+          {
+            type: 'text',
+            text: problems.length === 0
+              ? `✅ Preview finished with no problems. The update set is ready to commit.`
+              : `⚠️ Preview finished with ${problems.length} unresolved problem(s):\n\n` +
+                formatPreviewProblems(problems) +
+                `\n\nResolve each problem with resolve-preview-problem before committing.`,
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('preview remote update set', error);
+    }
+  }
+
+  async listPreviewProblems(args: schemas.ListPreviewProblemsArgs) {
+    try {
+      const { remote_update_set_id, include_resolved = false } = args;
+      const problems = await this.getPreviewProblems(remote_update_set_id, include_resolved);
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: problems.length === 0
+              ? `✅ No ${include_resolved ? '' : 'unresolved '}preview problems for remote update set ${remote_update_set_id}.`
+              : `Found ${problems.length} ${include_resolved ? '' : 'unresolved '}preview problem(s):\n\n` + formatPreviewProblems(problems),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('list preview problems', error);
+    }
+  }
+
+  async resolvePreviewProblem(args: schemas.ResolvePreviewProblemArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { problem_id, resolution } = args;
+      
+      const { status, proposedAction } = PREVIEW_PROBLEM_RESOLUTIONS[resolution];
+      
+      const problem = await api.getRecord('sys_update_preview_problem', problem_id, {
+        fields: ['description', 'status', 'remote_update'],
+        excludeReferenceLink: true
+      });
+      if (!problem.remote_update) {
+        throw new Error(`Preview problem ${problem_id} is not linked to a remote update, so there is nothing to ${resolution}`);
+      }
+      await api.updateRecord('sys_update_xml', problem.remote_update, { proposed_action: proposedAction });
+      await api.updateRecord('sys_update_preview_problem', problem_id, { status });
+      
+      return {
+        content: [
+          {
+            type: 'text',
+            text: `✅ ${resolution === 'accept' ? 'Accepted' : 'Skipped'} remote update for problem:\n` +
+                  `${problem.description}` +
+                  (problem.status ? `\nNote: The problem was previously marked '${problem.status}'.` : ''),
+          },
+        ],
+      };
+    } catch (error) {
+      return this.errorResponse('resolve preview problem', error);
+    }
+  }
+
+  async commitRemoteUpdateSet(args: schemas.CommitRemoteUpdateSetArgs) {
+    try {
+      const api = await this.getServiceNowApi();
+      const { remote_update_set_id, force = false, timeout_ms = 600000 } = args;
+      
+      const remoteUpdateSet = await api.getRecord('sys_remote_update_set', remote_update_set_id, { fields: ['name', 'state'] });
+      if (remoteUpdateSet.state !== 'previewed') {
+        throw new Error(`Remote update set '${remoteUpdateSet.name}' is in state '${remoteUpdateSet.state}'; run preview-remote-update-set first`);
+      }
+      
+      const unresolved = await this.getPreviewProblems(remote_update_set_id, false);
+      if (unresolved.length > 0 && !force) {
+        throw new Error(`${unresolved.length} preview problem(s) are unresolved. ` +
+          `Accept or skip them with resolve-preview-problem, or pass force: true to commit anyway.`);
+      }
+      
+      this.logger.info(`Committing remote update set ${remote_update_set_id}`, { force, unresolved: unresolved.length });
+      const progress = await api.waitForCicdProgress(await api.commitRemoteUpdateSet(remote_update_set_id, force), timeout_ms);
+      if (progress.status !== '2') {
+        throw new Error(`Commit ${progress.status_label ?? 'failed'}: ${progress.error || progress.status_message || 'no details returned'}`);
+      }
+      
       return {
         content: [
           {
             type: 'text',
-            text: `❌ Failed to get current update set: ${(error as Error).message}`,
+            text: `✅ Committed update set '${remoteUpdateSet.name}'\n` +
+                  `Remote update set ID: ${remote_update_set_id}` +
+                  (progress.status_message ? `\n${progress.status_message}` : ''),
           },
         ],
       };
+    } catch (error) {
+      return this.errorResponse('commit remote update set', error);
     }
   }
 
-  async updateBusinessRule(args: any) {
+  private async getPreviewProblems(remoteUpdateSetId: string, includeResolved: boolean): Promise<any[]> {
+    const api = await this.getServiceNowApi();
+    const query = EncodedQuery.where('remote_update_set', '=', remoteUpdateSetId);
+    if (!includeResolved) {
+      query.and('status', 'ISEMPTY');
+    }
+    query.orderBy('type');
+    return api.getRecords('sys_update_preview_problem', query, {
+      fields: ['sys_id', 'type', 'description', 'status', 'missing_item', 'remote_update'],
+      excludeReferenceLink: true
+    });
+  }
+
+  async updateBusinessRule(args: schemas.UpdateBusinessRuleArgs) {
     try {
       const api = await this.getServiceNowApi();
       
@@ -2221,7 +3224,7 @@ export class SimpleServiceNowMCPServer {
       }
       
       // Get existing business rule
-      const existingRules = await api.getRecords('sys_script', `sys_id=${args.sys_id}`);
+      const existingRules = await api.getRecords('sys_script', EncodedQuery.where('sys_id', '=', args.sys_id));
       if (!existingRules || existingRules.length === 0) {
         throw new Error(`Business Rule with sys_id ${args.sys_id} not found`);
       }
@@ -2240,10 +3243,9 @@ export class SimpleServiceNowMCPServer {
       let updateData: any = {};
       
       if (args.operation) {
-        let operations = args.operation;
-        if (typeof operations === 'string') {
-          operations = operations.split(',').map((op: string) => op.trim());
-        }
+        const operations: string[] = typeof args.operation === 'string'
+          ? args.operation.split(',').map((op: string) => op.trim())
+          : args.operation;
         
         updateData.insert = operations.includes('insert');
         updateData.update = operations.includes('update');
@@ -2252,7 +3254,7 @@ export class SimpleServiceNowMCPServer {
       }
       
       // Build update data with only provided fields
-      const fieldsToUpdate = ['name', 'when', 'script', 'description', 'order', 'condition', 'filter_condition', 'advanced', 'active', 'role_conditions'];
+      const fieldsToUpdate = ['name', 'when', 'script', 'description', 'order', 'condition', 'filter_condition', 'advanced', 'active', 'role_conditions'] as const;
       fieldsToUpdate.forEach(field => {
         if (args[field] !== undefined) {
           updateData[field] = args[field];
@@ -2298,14 +3300,7 @@ export class SimpleServiceNowMCPServer {
         ],
       };
     } catch (error) {
-      return {
-        content: [
-          {
-            type: 'text',
-            text: `❌ Failed to update Business Rule: ${(error as Error).message}`,
-          },
-        ],
-      };
+      return this.errorResponse('update Business Rule', error);
     }
   }
 }
\ No newline at end of file
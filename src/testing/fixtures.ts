@@ -0,0 +1,189 @@
+export type MockFixtures = Record<string, Array<Record<string, unknown>>>;
+
+// table -> reference field -> referenced table
+export type MockReferences = Record<string, Record<string, string>>;
+
+export const DEFAULT_REFERENCES: MockReferences = {
+  sys_user: { manager: 'sys_user' },
+  sys_user_has_role: { user: 'sys_user', role: 'sys_user_role' },
+  sys_user_grmember: { user: 'sys_user', group: 'sys_user_group' },
+  sys_user_preference: { user: 'sys_user' },
+  sys_db_object: { super_class: 'sys_db_object', sys_scope: 'sys_scope' },
+  sys_app_module: { application: 'sys_app_application' },
+  sys_update_set: { application: 'sys_scope' },
+  sys_update_xml: { update_set: 'sys_update_set', remote_update_set: 'sys_remote_update_set' },
+  sys_update_preview_problem: { remote_update_set: 'sys_remote_update_set' },
+  sc_category: { sc_catalog: 'sc_catalog', parent: 'sc_category' },
+  sc_cat_item: { category: 'sc_category' },
+  item_option_new: { cat_item: 'sc_cat_item' },
+  catalog_ui_policy: { catalog_item: 'sc_cat_item' },
+  catalog_ui_policy_action: { ui_policy: 'catalog_ui_policy' },
+  catalog_script_client: { cat_item: 'sc_cat_item' },
+  sys_ui_policy_action: { ui_policy: 'sys_ui_policy' },
+  incident: { caller_id: 'sys_user', assigned_to: 'sys_user', assignment_group: 'sys_user_group' },
+};
+
+// Field shown as the display value of a reference, where it is not `name`
+export const DISPLAY_FIELDS: Record<string, string> = {
+  sc_category: 'title',
+  sc_catalog: 'title',
+  sys_app_application: 'title',
+  item_option_new: 'question_text',
+  incident: 'number',
+  sys_scope: 'name',
+};
+
+// Stable sys_ids so tests can reference seeded records directly
+export const FIXTURE_IDS = {
+  adminUser: '6816f79cc0a8016401c5a33be04be441',
+  serviceDeskGroup: 'd625dccec0a8016700a222a0f7900d06',
+  globalScope: 'global',
+  serviceCatalog: 'e0d08b13c3330100c8b837659bba8fb4',
+  hardwareCategory: 'd258b953c611227a0146101fb1be7c31',
+  softwareCategory: '2809952237b1300054b6a3549dbe5dd4',
+  laptopItem: '04b7e94b4f7b4200086eeed18110c7fd',
+  justificationVariable: '11ef812ac3872e102bd4b2ddd40131d9',
+  ramVariable: '3c7a1a7ec3872e102bd4b2ddd40131a2',
+  laptopPolicy: '9f2b6f42c3872e102bd4b2ddd40131e5',
+  defaultUpdateSet: 'b0a4f5f2c3872e102bd4b2ddd4013100',
+  taskTable: '8cc6b7a1c0a80164014b8a73fc59b0e9',
+  incidentTable: '8d6353eac0a8016400d8a125ca14fc1f',
+  userTable: '2a3e6ed3c0a80164016f6e2d9d0cfd4b',
+};
+
+type DictionaryEntry = [element: string, label: string, type: string, extra?: Record<string, string>];
+
+// Columns every table carries, as ServiceNow defines them per table
+const SYSTEM_COLUMNS: DictionaryEntry[] = [
+  ['sys_id', 'Sys ID', 'GUID', { max_length: '32', read_only: 'true' }],
+  ['sys_created_on', 'Created', 'glide_date_time', { read_only: 'true' }],
+  ['sys_created_by', 'Created by', 'string', { max_length: '40', read_only: 'true' }],
+  ['sys_updated_on', 'Updated', 'glide_date_time', { read_only: 'true' }],
+  ['sys_updated_by', 'Updated by', 'string', { max_length: '40', read_only: 'true' }],
+];
+
+function dictionary(table: string, entries: DictionaryEntry[]): Array<Record<string, unknown>> {
+  return [...SYSTEM_COLUMNS, ...entries].map(([element, column_label, internal_type, extra]) => ({
+    name: table,
+    element,
+    column_label,
+    internal_type,
+    mandatory: 'false',
+    read_only: 'false',
+    ...extra,
+  }));
+}
+
+function choices(table: string, element: string, values: Array<[value: string, label: string]>): Array<Record<string, unknown>> {
+  return values.map(([value, label], index) => ({
+    name: table, element, value, label, sequence: String((index + 1) * 10), language: 'en', inactive: 'false',
+  }));
+}
+
+export const DEFAULT_FIXTURES: MockFixtures = {
+  sys_user: [
+    {
+      sys_id: FIXTURE_IDS.adminUser,
+      user_name: 'admin',
+      name: 'System Administrator',
+      first_name: 'System',
+      last_name: 'Administrator',
+      email: 'admin@example.com',
+      active: 'true',
+    },
+  ],
+  sys_user_group: [
+    { sys_id: FIXTURE_IDS.serviceDeskGroup, name: 'Service Desk', active: 'true' },
+  ],
+  sys_db_object: [
+    { sys_id: FIXTURE_IDS.taskTable, name: 'task', label: 'Task', super_class: '', is_extendable: 'true', sys_scope: FIXTURE_IDS.globalScope },
+    { sys_id: FIXTURE_IDS.incidentTable, name: 'incident', label: 'Incident', super_class: FIXTURE_IDS.taskTable, is_extendable: 'true', sys_scope: FIXTURE_IDS.globalScope },
+    { sys_id: FIXTURE_IDS.userTable, name: 'sys_user', label: 'User', super_class: '', is_extendable: 'true', sys_scope: FIXTURE_IDS.globalScope },
+  ],
+  sys_dictionary: [
+    ...dictionary('task', [
+      ['number', 'Number', 'string', { max_length: '40', read_only: 'true' }],
+      ['short_description', 'Short description', 'string', { max_length: '160' }],
+      ['description', 'Description', 'string', { max_length: '4000' }],
+      ['active', 'Active', 'boolean', { default_value: 'true' }],
+      ['priority', 'Priority', 'integer', { default_value: '4' }],
+      ['state', 'State', 'integer', { default_value: '1' }],
+      ['assigned_to', 'Assigned to', 'reference', { reference: 'sys_user' }],
+      ['assignment_group', 'Assignment group', 'reference', { reference: 'sys_user_group' }],
+    ]),
+    ...dictionary('incident', [
+      ['caller_id', 'Caller', 'reference', { reference: 'sys_user', mandatory: 'true' }],
+      ['category', 'Category', 'string', { max_length: '40', default_value: 'inquiry' }],
+    ]),
+    ...dictionary('sys_user', [
+      ['user_name', 'User ID', 'string', { max_length: '40', mandatory: 'true' }],
+      ['name', 'Name', 'string', { max_length: '151', read_only: 'true' }],
+      ['first_name', 'First name', 'string', { max_length: '50' }],
+      ['last_name', 'Last name', 'string', { max_length: '50' }],
+      ['email', 'Email', 'email', { max_length: '100' }],
+      ['active', 'Active', 'boolean', { default_value: 'true' }],
+      ['manager', 'Manager', 'reference', { reference: 'sys_user' }],
+    ]),
+  ],
+  sys_choice: [
+    ...choices('task', 'priority', [['1', '1 - Critical'], ['2', '2 - High'], ['3', '3 - Moderate'], ['4', '4 - Low'], ['5', '5 - Planning']]),
+    ...choices('task', 'state', [['1', 'Open'], ['2', 'Work in Progress'], ['3', 'Closed Complete']]),
+    ...choices('incident', 'state', [['1', 'New'], ['2', 'In Progress'], ['3', 'On Hold'], ['6', 'Resolved'], ['7', 'Closed']]),
+    ...choices('incident', 'category', [['inquiry', 'Inquiry / Help'], ['software', 'Software'], ['hardware', 'Hardware']]),
+  ],
+  sys_scope: [
+    { sys_id: FIXTURE_IDS.globalScope, scope: 'global', name: 'Global' },
+  ],
+  sys_update_set: [
+    {
+      sys_id: FIXTURE_IDS.defaultUpdateSet,
+      name: 'Default',
+      state: 'build',
+      application: FIXTURE_IDS.globalScope,
+      description: 'Default update set',
+    },
+  ],
+  sc_catalog: [
+    { sys_id: FIXTURE_IDS.serviceCatalog, title: 'Service Catalog', active: 'true' },
+  ],
+  sc_category: [
+    { sys_id: FIXTURE_IDS.hardwareCategory, title: 'Hardware', sc_catalog: FIXTURE_IDS.serviceCatalog, active: 'true' },
+    { sys_id: FIXTURE_IDS.softwareCategory, title: 'Software', sc_catalog: FIXTURE_IDS.serviceCatalog, active: 'true' },
+  ],
+  sc_cat_item: [
+    {
+      sys_id: FIXTURE_IDS.laptopItem,
+      name: 'Standard Laptop',
+      short_description: 'Standard issue laptop',
+      category: FIXTURE_IDS.hardwareCategory,
+      active: 'true',
+    },
+  ],
+  item_option_new: [
+    {
+      sys_id: FIXTURE_IDS.justificationVariable,
+      name: 'business_justification',
+      question_text: 'Business justification',
+      type: '2',
+      cat_item: FIXTURE_IDS.laptopItem,
+      order: '100',
+    },
+    {
+      sys_id: FIXTURE_IDS.ramVariable,
+      name: 'ram',
+      question_text: 'Memory',
+      type: '5',
+      cat_item: FIXTURE_IDS.laptopItem,
+      order: '200',
+    },
+  ],
+  catalog_ui_policy: [
+    {
+      sys_id: FIXTURE_IDS.laptopPolicy,
+      short_description: 'Require justification for 32GB',
+      catalog_item: FIXTURE_IDS.laptopItem,
+      catalog_conditions: 'IO:3c7a1a7ec3872e102bd4b2ddd40131a2=32GB^EQ',
+      active: 'true',
+    },
+  ],
+};
@@ -0,0 +1,151 @@
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { CallToolResultSchema } from '@modelcontextprotocol/sdk/types.js';
+import { SimpleServiceNowMCPServer } from '../simple-server.js';
+import { McpHttpServer } from '../http-server.js';
+import { createLinkedTransports } from './linked-transport.js';
+import { SseClientTransport } from './sse-client-transport.js';
+import { MockServiceNowInstance, MockServiceNowOptions } from './mock-servicenow.js';
+
+export interface ToolCallOutcome {
+  text: string;
+  isError: boolean;
+  result: Record<string, unknown>;
+}
+
+export interface TestServer {
+  mock: MockServiceNowInstance;
+  client: Client;
+  callTool(name: string, args?: Record<string, unknown>): Promise<ToolCallOutcome>;
+  close(): Promise<void>;
+}
+
+export interface TestHttpClient {
+  client: Client;
+  callTool(name: string, args?: Record<string, unknown>): Promise<ToolCallOutcome>;
+  close(): Promise<void>;
+}
+
+export interface TestHttpServer {
+  mock: MockServiceNowInstance;
+  server: McpHttpServer;
+  // Base URL of the HTTP server
+  url: string;
+  connect(token: string, clientName?: string): Promise<TestHttpClient>;
+  close(): Promise<void>;
+}
+
+// Bearer token startTestHttpServer accepts, and the principal it maps to
+export const TEST_AUTH_TOKEN = 'test-token';
+export const TEST_PRINCIPAL = 'tester';
+
+const MOCK_USERNAME = 'admin';
+const MOCK_PASSWORD = 'admin';
+
+/**
+ * Starts a mock instance and an MCP server pointed at it, connected to an
+ * in-process MCP client. `env` overrides are applied before the server reads
+ * its configuration and restored by close().
+ */
+export async function startTestServer(options: MockServiceNowOptions = {}, env: Record<string, string> = {}): Promise<TestServer> {
+  const mock = new MockServiceNowInstance({ username: MOCK_USERNAME, password: MOCK_PASSWORD, ...options });
+  const restoreEnv = applyTestEnv(await mock.start(), options, env);
+
+  const server = new SimpleServiceNowMCPServer();
+  const client = new Client({ name: 'integration-test', version: '1.0.0' });
+  const [clientTransport, serverTransport] = createLinkedTransports();
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+
+  return {
+    mock,
+    client,
+    callTool: (name, args) => callTool(client, name, args),
+    async close() {
+      await client.close();
+      await server.close();
+      await mock.stop();
+      restoreEnv();
+    },
+  };
+}
+
+/**
+ * Starts a mock instance and the HTTP transport pointed at it on a free local
+ * port, accepting TEST_AUTH_TOKEN as TEST_PRINCIPAL. Clients connect over SSE
+ * with connect().
+ */
+export async function startTestHttpServer(options: MockServiceNowOptions = {}, env: Record<string, string> = {}): Promise<TestHttpServer> {
+  const mock = new MockServiceNowInstance({ username: MOCK_USERNAME, password: MOCK_PASSWORD, ...options });
+  const restoreEnv = applyTestEnv(await mock.start(), options, {
+    MCP_TRANSPORT: 'http',
+    MCP_HTTP_HOST: '127.0.0.1',
+    MCP_HTTP_PORT: '0',
+    MCP_AUTH_TOKENS: `${TEST_PRINCIPAL}:${TEST_AUTH_TOKEN}`,
+    ...env,
+  });
+
+  const server = new McpHttpServer();
+  const { port } = await server.start();
+  const url = `http://127.0.0.1:${port}`;
+  const clients: Client[] = [];
+
+  return {
+    mock,
+    server,
+    url,
+    async connect(token, clientName = 'integration-test') {
+      const client = new Client({ name: clientName, version: '1.0.0' });
+      await client.connect(new SseClientTransport(new URL('/sse', url), token));
+      clients.push(client);
+      return {
+        client,
+        callTool: (name, args) => callTool(client, name, args),
+        close: () => client.close(),
+      };
+    },
+    async close() {
+      await Promise.all(clients.map((client) => client.close()));
+      await server.close();
+      await mock.stop();
+      restoreEnv();
+    },
+  };
+}
+
+async function callTool(client: Client, name: string, args: Record<string, unknown> = {}): Promise<ToolCallOutcome> {
+  const result = await client.request({ method: 'tools/call', params: { name, arguments: args } }, CallToolResultSchema);
+  const text = result.content.map((item) => item.type === 'text' ? item.text : '').join('\n');
+  return { text, isError: result.isError === true, result };
+}
+
+// Points the server configuration at the mock instance; returns a function restoring the previous environment
+function applyTestEnv(instanceUrl: string, options: MockServiceNowOptions, env: Record<string, string>): () => void {
+  const overrides: Record<string, string> = {
+    SERVICENOW_INSTANCE_URL: instanceUrl,
+    SERVICENOW_USERNAME: options.username ?? MOCK_USERNAME,
+    SERVICENOW_PASSWORD: options.password ?? MOCK_PASSWORD,
+    SERVICENOW_AUTH_TYPE: 'basic',
+    // An empty path disables the instance profiles file, so only the mock is configured
+    SERVICENOW_INSTANCES_FILE: '',
+    SERVICENOW_CASSETTE: '',
+    SERVICENOW_IDEMPOTENT: 'false',
+    SERVICENOW_JOURNAL_FILE: '',
+    AUDIT_LOG_FILE: '',
+    SERVICENOW_MAX_RETRIES: '0',
+    MCP_TRANSPORT: 'stdio',
+    LOG_LEVEL: 'error',
+    ...env,
+  };
+  const previous = Object.fromEntries(Object.keys(overrides).map((key) => [key, process.env[key]]));
+  Object.assign(process.env, overrides);
+
+  return () => {
+    for (const [key, value] of Object.entries(previous)) {
+      if (value === undefined) {
+        delete process.env[key];
+      } else {
+        process.env[key] = value;
+      }
+    }
+  };
+}
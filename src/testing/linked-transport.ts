@@ -0,0 +1,39 @@
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+class LinkedTransport implements Transport {
+  peer?: LinkedTransport;
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+
+  async start(): Promise<void> {}
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    // Deliver asynchronously, as a real transport would
+    const peer = this.peer;
+    setImmediate(() => peer?.onmessage?.(message));
+  }
+
+  async close(): Promise<void> {
+    const peer = this.peer;
+    this.peer = undefined;
+    this.onclose?.();
+    if (peer) {
+      peer.peer = undefined;
+      peer.onclose?.();
+    }
+  }
+}
+
+/**
+ * Two in-memory transports wired to each other, for connecting an MCP client
+ * to the server inside a single process.
+ */
+export function createLinkedTransports(): [Transport, Transport] {
+  const client = new LinkedTransport();
+  const server = new LinkedTransport();
+  client.peer = server;
+  server.peer = client;
+  return [client, server];
+}
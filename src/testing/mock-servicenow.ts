@@ -0,0 +1,530 @@
+import http from 'http';
+import { AddressInfo } from 'net';
+import { v4 as uuidv4 } from 'uuid';
+import { EncodedQueryAst, parseEncodedQuery, QueryClause, QueryCondition } from '../utils/encoded-query.js';
+import { DEFAULT_FIXTURES, DEFAULT_REFERENCES, DISPLAY_FIELDS, MockFixtures, MockReferences } from './fixtures.js';
+
+export type MockRecord = Record<string, string>;
+
+export interface MockServiceNowOptions {
+  // Accepted basic-auth credentials; any request is allowed when omitted
+  username?: string;
+  password?: string;
+  // Serves /oauth_token.do and accepts the bearer tokens it issues
+  oauth?: MockOAuthOptions;
+  fixtures?: MockFixtures;
+  references?: MockReferences;
+}
+
+export interface MockOAuthOptions {
+  clientId: string;
+  clientSecret: string;
+  // Lifetime reported for access tokens (default 1800)
+  expiresInSeconds?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  body?: any;
+  // X-Request-Id sent by the client, if any
+  requestId?: string;
+}
+
+// Table API default when sysparm_limit is not supplied
+const DEFAULT_LIMIT = 10000;
+
+const NUMBER_PREFIXES: Record<string, string> = {
+  incident: 'INC',
+  problem: 'PRB',
+  change_request: 'CHG',
+  sc_request: 'REQ',
+  sc_req_item: 'RITM',
+  sc_task: 'SCTASK',
+};
+
+class MockHttpError extends Error {
+  constructor(public status: number, message: string, public detail: string | null = null, public headers: Record<string, string> = {}) {
+    super(message);
+  }
+}
+
+export interface MockFailureOptions {
+  // Requests to fail before the table answers normally again (default 1)
+  times?: number;
+  // Retry-After header sent with the failure, e.g. '5' or an HTTP date
+  retryAfter?: string;
+}
+
+interface ScriptedFailure {
+  status: number;
+  remaining: number;
+  retryAfter?: string;
+}
+
+function formatTimestamp(date: Date): string {
+  return date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, '');
+}
+
+function toStoredValue(value: unknown): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object' && 'value' in (value as Record<string, unknown>)) {
+    return toStoredValue((value as Record<string, unknown>).value);
+  }
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+}
+
+function compareValues(left: string, right: string): number {
+  const leftNumber = Number(left);
+  const rightNumber = Number(right);
+  if (left !== '' && right !== '' && !Number.isNaN(leftNumber) && !Number.isNaN(rightNumber)) {
+    return leftNumber - rightNumber;
+  }
+  return left.localeCompare(right);
+}
+
+function matchesTerm(actual: string, term: QueryCondition): boolean {
+  const value = term.value.replace(/\^\^/g, '^');
+  const lowerActual = actual.toLowerCase();
+  const lowerValue = value.toLowerCase();
+  switch (term.operator) {
+    case '=': return actual === value;
+    case '!=': return actual !== value;
+    case 'LIKE': return lowerActual.includes(lowerValue);
+    case 'NOT LIKE': return !lowerActual.includes(lowerValue);
+    case 'STARTSWITH': return lowerActual.startsWith(lowerValue);
+    case 'ENDSWITH': return lowerActual.endsWith(lowerValue);
+    case 'IN': return value.split(',').includes(actual);
+    case 'NOT IN': return !value.split(',').includes(actual);
+    case 'ISEMPTY': return actual === '';
+    case 'ISNOTEMPTY': return actual !== '';
+    case '>': return compareValues(actual, value) > 0;
+    case '>=': return compareValues(actual, value) >= 0;
+    case '<': return compareValues(actual, value) < 0;
+    case '<=': return compareValues(actual, value) <= 0;
+    default: throw new MockHttpError(400, `Unsupported encoded query operator: ${term.operator}`);
+  }
+}
+
+/**
+ * In-process fake of the ServiceNow Table API for offline tests. Records are
+ * held in memory as the string values ServiceNow returns, and reference fields
+ * are resolved against other mock tables for dot-walking and display values.
+ *
+ * Point the server at it with SERVICENOW_INSTANCE_URL=<url returned by start()>.
+ */
+export class MockServiceNowInstance {
+  readonly requests: MockRequest[] = [];
+  private tables = new Map<string, Map<string, MockRecord>>();
+  private references: MockReferences;
+  private numberCounters = new Map<string, number>();
+  // "METHOD table" pairs that the instance refuses, like an ACL would
+  private deniedRequests = new Set<string>();
+  // "METHOD table" pairs answered with an error status, like a throttled or restarting node
+  private scriptedFailures = new Map<string, ScriptedFailure>();
+  // CI/CD progress records by id; preview and commit finish immediately
+  private progress = new Map<string, Record<string, unknown>>();
+  private accessTokens = new Set<string>();
+  private refreshTokens = new Set<string>();
+  // Set while the token endpoint refuses every request, as for a revoked OAuth client
+  private tokenRequestsRejected = false;
+  // Set while even freshly issued access tokens get a 401
+  private accessTokensRejected = false;
+  private server?: http.Server;
+  private baseUrl = '';
+
+  constructor(private options: MockServiceNowOptions = {}) {
+    this.references = { ...DEFAULT_REFERENCES, ...options.references };
+    this.seed(options.fixtures ?? DEFAULT_FIXTURES);
+  }
+
+  get url(): string {
+    return this.baseUrl;
+  }
+
+  async start(port: number = 0): Promise<string> {
+    this.server = http.createServer((req, res) => this.handle(req, res));
+    await new Promise<void>((resolve) => this.server!.listen(port, '127.0.0.1', resolve));
+    this.baseUrl = `http://127.0.0.1:${(this.server.address() as AddressInfo).port}`;
+    return this.baseUrl;
+  }
+
+  async stop(): Promise<void> {
+    if (this.server) {
+      await new Promise<void>((resolve, reject) => this.server!.close((error) => error ? reject(error) : resolve()));
+      this.server = undefined;
+    }
+  }
+
+  seed(fixtures: MockFixtures): void {
+    for (const [table, records] of Object.entries(fixtures)) {
+      for (const record of records) {
+        this.insert(table, record);
+      }
+    }
+  }
+
+  reset(fixtures: MockFixtures = this.options.fixtures ?? DEFAULT_FIXTURES): void {
+    this.tables.clear();
+    this.numberCounters.clear();
+    this.deniedRequests.clear();
+    this.scriptedFailures.clear();
+    this.progress.clear();
+    this.revokeOAuthTokens();
+    this.tokenRequestsRejected = false;
+    this.accessTokensRejected = false;
+    this.requests.length = 0;
+    this.seed(fixtures);
+  }
+
+  deny(method: string, table: string): void {
+    this.deniedRequests.add(`${method.toUpperCase()} ${table}`);
+  }
+
+  // Answers the next `times` matching requests with `status` (e.g. 429 or 503)
+  failNext(method: string, table: string, status: number, options: MockFailureOptions = {}): void {
+    this.scriptedFailures.set(`${method.toUpperCase()} ${table}`, { status, remaining: options.times ?? 1, retryAfter: options.retryAfter });
+  }
+
+  // Invalidates issued access tokens, and refresh tokens too unless `keepRefreshTokens`
+  revokeOAuthTokens(keepRefreshTokens = false): void {
+    this.accessTokens.clear();
+    if (!keepRefreshTokens) {
+      this.refreshTokens.clear();
+    }
+  }
+
+  rejectTokenRequests(reject = true): void {
+    this.tokenRequestsRejected = reject;
+  }
+
+  rejectAccessTokens(reject = true): void {
+    this.accessTokensRejected = reject;
+  }
+
+  records(table: string): MockRecord[] {
+    return [...(this.tables.get(table)?.values() ?? [])];
+  }
+
+  find(table: string, query: string): MockRecord[] {
+    return this.queryRecords(table, query);
+  }
+
+  insert(table: string, data: Record<string, unknown>): MockRecord {
+    const now = formatTimestamp(new Date());
+    const record: MockRecord = {
+      sys_id: uuidv4().replace(/-/g, ''),
+      sys_class_name: table,
+      sys_created_on: now,
+      sys_created_by: this.options.username ?? 'admin',
+      sys_updated_on: now,
+      sys_updated_by: this.options.username ?? 'admin',
+      sys_mod_count: '0',
+    };
+    const prefix = NUMBER_PREFIXES[table];
+    if (prefix) {
+      const next = (this.numberCounters.get(table) ?? 10000) + 1;
+      this.numberCounters.set(table, next);
+      record.number = `${prefix}00${next}`;
+    }
+    for (const [field, value] of Object.entries(data)) {
+      record[field] = toStoredValue(value);
+    }
+    this.table(table).set(record.sys_id, record);
+    return record;
+  }
+
+  private table(name: string): Map<string, MockRecord> {
+    let table = this.tables.get(name);
+    if (!table) {
+      table = new Map();
+      this.tables.set(name, table);
+    }
+    return table;
+  }
+
+  private handle(req: http.IncomingMessage, res: http.ServerResponse): void {
+    let body = '';
+    req.on('data', (chunk) => body += chunk);
+    req.on('end', () => {
+      const url = new URL(req.url ?? '/', this.baseUrl);
+      const query = Object.fromEntries(url.searchParams.entries());
+      const request: MockRequest = { method: req.method ?? 'GET', path: url.pathname, query, requestId: req.headers['x-request-id'] as string | undefined };
+      try {
+        if (url.pathname === '/oauth_token.do') {
+          request.body = Object.fromEntries(new URLSearchParams(body).entries());
+          this.requests.push(request);
+          return this.issueToken(request, res);
+        }
+        request.body = body ? JSON.parse(body) : undefined;
+        this.requests.push(request);
+        this.authorize(req);
+        this.route(request, url, res);
+      } catch (error) {
+        const status = error instanceof MockHttpError ? error.status : 400;
+        const detail = error instanceof MockHttpError ? error.detail : null;
+        const headers = error instanceof MockHttpError ? error.headers : {};
+        this.send(res, status, { error: { message: (error as Error).message, detail }, status: 'failure' }, headers);
+      }
+    });
+  }
+
+  private authorize(req: http.IncomingMessage): void {
+    const bearer = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+    if (this.options.oauth && bearer) {
+      if (this.accessTokensRejected || !this.accessTokens.has(bearer[1])) {
+        throw new MockHttpError(401, 'User Not Authenticated', 'Invalid or expired OAuth access token');
+      }
+      return;
+    }
+    if (!this.options.username) {
+      return;
+    }
+    const expected = `Basic ${Buffer.from(`${this.options.username}:${this.options.password ?? ''}`).toString('base64')}`;
+    if (req.headers.authorization !== expected) {
+      throw new MockHttpError(401, 'User Not Authenticated', 'Required to provide Auth information');
+    }
+  }
+
+  // OAuth 2.0 token endpoint: password, client_credentials and refresh_token grants
+  private issueToken(request: MockRequest, res: http.ServerResponse): void {
+    const oauth = this.options.oauth;
+    if (!oauth || request.method !== 'POST') {
+      throw new MockHttpError(400, `Requested URI does not represent any resource: ${request.path}`);
+    }
+    const params: Record<string, string> = request.body;
+    const denied = (description: string) => this.send(res, 401, { error: 'access_denied', error_description: description });
+    if (this.tokenRequestsRejected || params.client_id !== oauth.clientId || params.client_secret !== oauth.clientSecret) {
+      return denied('Invalid client credentials');
+    }
+
+    let refreshToken: string | undefined;
+    switch (params.grant_type) {
+      case 'password':
+        if (params.username !== this.options.username || params.password !== (this.options.password ?? '')) {
+          return denied('Invalid user credentials');
+        }
+        refreshToken = uuidv4();
+        break;
+      case 'client_credentials':
+        break;
+      case 'refresh_token':
+        if (!this.refreshTokens.delete(params.refresh_token)) {
+          return denied('Invalid refresh token');
+        }
+        refreshToken = uuidv4();
+        break;
+      default:
+        throw new MockHttpError(400, `Unsupported grant_type: ${params.grant_type}`);
+    }
+
+    const accessToken = uuidv4();
+    this.accessTokens.add(accessToken);
+    if (refreshToken) {
+      this.refreshTokens.add(refreshToken);
+    }
+    this.send(res, 200, {
+      access_token: accessToken,
+      refresh_token: refreshToken,
+      scope: 'useraccount',
+      token_type: 'Bearer',
+      expires_in: oauth.expiresInSeconds ?? 1800,
+    });
+  }
+
+  private route(request: MockRequest, url: URL, res: http.ServerResponse): void {
+    if (request.path.startsWith('/api/sn_cicd/')) {
+      return this.cicd(request, res);
+    }
+    const match = /^\/api\/now\/table\/(\w+)(?:\/(\w+))?$/.exec(request.path);
+    if (!match) {
+      throw new MockHttpError(400, `Requested URI does not represent any resource: ${request.path}`);
+    }
+    const [, tableName, sysId] = match;
+    const failure = this.scriptedFailures.get(`${request.method} ${tableName}`);
+    if (failure && failure.remaining > 0) {
+      failure.remaining--;
+      throw new MockHttpError(failure.status, http.STATUS_CODES[failure.status] ?? 'Request failed', null,
+        failure.retryAfter !== undefined ? { 'Retry-After': failure.retryAfter } : {});
+    }
+    if (this.deniedRequests.has(`${request.method} ${tableName}`)) {
+      throw new MockHttpError(403, 'Operation Failed', 'ACL Exception Insert Failed due to security constraints');
+    }
+
+    if (!sysId) {
+      if (request.method === 'GET') {
+        return this.list(tableName, request.query, url, res);
+      }
+      if (request.method === 'POST') {
+        const record = this.insert(tableName, request.body ?? {});
+        return this.send(res, 201, { result: this.render(tableName, record, request.query) });
+      }
+      throw new MockHttpError(405, `Method ${request.method} not allowed on a table`);
+    }
+
+    const record = this.tables.get(tableName)?.get(sysId);
+    if (!record) {
+      throw new MockHttpError(404, 'No Record found', "Record doesn't exist or ACL restricts the record retrieval");
+    }
+
+    switch (request.method) {
+      case 'GET':
+        return this.send(res, 200, { result: this.render(tableName, record, request.query) });
+      case 'PUT':
+      case 'PATCH':
+        for (const [field, value] of Object.entries(request.body ?? {})) {
+          record[field] = toStoredValue(value);
+        }
+        record.sys_updated_on = formatTimestamp(new Date());
+        record.sys_mod_count = String(Number(record.sys_mod_count || '0') + 1);
+        return this.send(res, 200, { result: this.render(tableName, record, request.query) });
+      case 'DELETE':
+        this.tables.get(tableName)!.delete(sysId);
+        res.writeHead(204);
+        res.end();
+        return;
+      default:
+        throw new MockHttpError(405, `Method ${request.method} not allowed on a record`);
+    }
+  }
+
+  // Remote update set preview and commit, which move sys_remote_update_set through its states
+  private cicd(request: MockRequest, res: http.ServerResponse): void {
+    const progressMatch = /^\/api\/sn_cicd\/progress\/(\w+)$/.exec(request.path);
+    if (progressMatch && request.method === 'GET') {
+      const progress = this.progress.get(progressMatch[1]);
+      if (!progress) {
+        throw new MockHttpError(404, `No progress record found: ${progressMatch[1]}`);
+      }
+      return this.send(res, 200, { result: progress });
+    }
+
+    const actionMatch = /^\/api\/sn_cicd\/update_set\/(preview|commit)\/(\w+)$/.exec(request.path);
+    if (!actionMatch || request.method !== 'POST') {
+      throw new MockHttpError(400, `Requested URI does not represent any resource: ${request.path}`);
+    }
+    const [, action, remoteUpdateSetId] = actionMatch;
+    const remoteUpdateSet = this.tables.get('sys_remote_update_set')?.get(remoteUpdateSetId);
+    if (!remoteUpdateSet) {
+      throw new MockHttpError(404, 'No Record found', `Remote update set ${remoteUpdateSetId} does not exist`);
+    }
+    remoteUpdateSet.state = action === 'preview' ? 'previewed' : 'committed';
+
+    const id = uuidv4().replace(/-/g, '');
+    const progress = {
+      links: { progress: { id, url: `${this.baseUrl}/api/sn_cicd/progress/${id}` } },
+      status: '2',
+      status_label: 'Succeeded',
+      status_message: action === 'preview' ? 'Update set previewed' : 'Update set committed',
+      percent_complete: 100,
+    };
+    this.progress.set(id, progress);
+    this.send(res, 200, { result: progress });
+  }
+
+  private list(tableName: string, params: Record<string, string>, url: URL, res: http.ServerResponse): void {
+    const matches = this.queryRecords(tableName, params.sysparm_query ?? '');
+    const limit = params.sysparm_limit ? Number(params.sysparm_limit) : DEFAULT_LIMIT;
+    const offset = params.sysparm_offset ? Number(params.sysparm_offset) : 0;
+    const page = matches.slice(offset, offset + limit);
+
+    const headers: Record<string, string> = { 'X-Total-Count': String(matches.length) };
+    if (offset + limit < matches.length) {
+      const next = new URL(url.toString());
+      next.searchParams.set('sysparm_offset', String(offset + limit));
+      next.searchParams.set('sysparm_limit', String(limit));
+      headers.Link = `<${next.toString()}>;rel="next"`;
+    }
+    this.send(res, 200, { result: page.map((record) => this.render(tableName, record, params)) }, headers);
+  }
+
+  private queryRecords(tableName: string, query: string): MockRecord[] {
+    let parsed: EncodedQueryAst;
+    try {
+      parsed = parseEncodedQuery(query);
+    } catch (error) {
+      throw new MockHttpError(400, error instanceof Error ? error.message : String(error));
+    }
+    const records = this.records(tableName).filter((record) => parsed.groups.some((group) =>
+      group.clauses.every((clause) => this.matchesClause(tableName, record, clause))
+    ));
+
+    for (const { field, direction } of [...parsed.orderBy].reverse()) {
+      records.sort((a, b) => {
+        const order = compareValues(this.resolve(tableName, a, field), this.resolve(tableName, b, field));
+        return direction === 'desc' ? -order : order;
+      });
+    }
+    return records;
+  }
+
+  private matchesClause(tableName: string, record: MockRecord, clause: QueryClause): boolean {
+    if (clause.textSearch !== undefined) {
+      const terms = clause.textSearch.replace(/\^\^/g, '^').toLowerCase();
+      return Object.values(record).some((value) => value.toLowerCase().includes(terms));
+    }
+    if (clause.relatedList) {
+      const { table, field, operator, count, clauses } = clause.relatedList;
+      const related = this.records(table).filter((candidate) => candidate[field] === record.sys_id &&
+        clauses.every((inner) => this.matchesClause(table, candidate, inner)));
+      return matchesTerm(String(related.length), { field, operator, value: String(count) });
+    }
+    return clause.conditions.some((term) => matchesTerm(this.resolve(tableName, record, term.field), term));
+  }
+
+  // Follows dot-walked paths such as `catalog_item.name` through reference fields
+  private resolve(tableName: string, record: MockRecord, path: string): string {
+    const [field, ...rest] = path.split('.');
+    const value = record[field] ?? '';
+    if (rest.length === 0) {
+      return value;
+    }
+    const referencedTable = this.references[tableName]?.[field];
+    const referenced = referencedTable ? this.tables.get(referencedTable)?.get(value) : undefined;
+    return referenced ? this.resolve(referencedTable!, referenced, rest.join('.')) : '';
+  }
+
+  private displayValue(tableName: string, sysId: string): string {
+    const record = this.tables.get(tableName)?.get(sysId);
+    if (!record) {
+      return '';
+    }
+    const displayField = DISPLAY_FIELDS[tableName] ?? ['name', 'number', 'short_description'].find((field) => record[field]);
+    return displayField ? record[displayField] ?? '' : sysId;
+  }
+
+  private render(tableName: string, record: MockRecord, params: Record<string, string>): Record<string, unknown> {
+    const displayMode = params.sysparm_display_value ?? 'false';
+    const excludeLink = params.sysparm_exclude_reference_link === 'true';
+    const fields = params.sysparm_fields ? params.sysparm_fields.split(',').map((field) => field.trim()) : Object.keys(record);
+
+    const rendered: Record<string, unknown> = {};
+    for (const field of fields) {
+      const value = this.resolve(tableName, record, field);
+      const referencedTable = field.includes('.') ? undefined : this.references[tableName]?.[field];
+      if (!referencedTable || value === '') {
+        rendered[field] = displayMode === 'all' ? { display_value: value, value } : value;
+        continue;
+      }
+
+      const link = `${this.baseUrl}/api/now/table/${referencedTable}/${value}`;
+      const display = this.displayValue(referencedTable, value);
+      if (displayMode === 'true') {
+        rendered[field] = excludeLink ? display : { display_value: display, link };
+      } else if (displayMode === 'all') {
+        rendered[field] = excludeLink ? { display_value: display, value } : { display_value: display, link, value };
+      } else {
+        rendered[field] = excludeLink ? value : { link, value };
+      }
+    }
+    return rendered;
+  }
+
+  private send(res: http.ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { 'Content-Type': 'application/json', ...headers });
+    res.end(JSON.stringify(body));
+  }
+}
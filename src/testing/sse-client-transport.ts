@@ -0,0 +1,85 @@
+import http from 'http';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { JSONRPCMessage, JSONRPCMessageSchema } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Minimal MCP client transport for the HTTP server: reads server-sent events
+ * from the stream and POSTs messages to the endpoint it announces, sending a
+ * bearer token with both. The SDK's SSE client relies on a global EventSource
+ * and can't send headers, so tests use this instead.
+ */
+export class SseClientTransport implements Transport {
+  onclose?: () => void;
+  onerror?: (error: Error) => void;
+  onmessage?: (message: JSONRPCMessage) => void;
+  private request?: http.ClientRequest;
+  private endpoint?: URL;
+
+  constructor(private url: URL, private token: string) {}
+
+  start(): Promise<void> {
+    return new Promise((resolve, reject) => {
+      this.request = http.get(this.url, { headers: { Accept: 'text/event-stream', Authorization: `Bearer ${this.token}` } }, (res) => {
+        if (res.statusCode !== 200) {
+          reject(new Error(`SSE connection failed with HTTP ${res.statusCode}`));
+          res.resume();
+          return;
+        }
+        let buffer = '';
+        res.setEncoding('utf8');
+        res.on('data', (chunk: string) => {
+          buffer += chunk;
+          let boundary: number;
+          while ((boundary = buffer.indexOf('\n\n')) >= 0) {
+            const event = buffer.slice(0, boundary);
+            buffer = buffer.slice(boundary + 2);
+            this.dispatch(event, resolve);
+          }
+        });
+        res.on('close', () => this.onclose?.());
+      });
+      this.request.on('error', (error) => {
+        reject(error);
+        this.onerror?.(error);
+      });
+    });
+  }
+
+  async send(message: JSONRPCMessage): Promise<void> {
+    if (!this.endpoint) {
+      throw new Error('Not connected');
+    }
+    const body = JSON.stringify(message);
+    await new Promise<void>((resolve, reject) => {
+      const post = http.request(this.endpoint!, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${this.token}` },
+      }, (res) => {
+        res.resume();
+        res.on('end', () => res.statusCode === 202 ? resolve() : reject(new Error(`POST failed with HTTP ${res.statusCode}`)));
+      });
+      post.on('error', reject);
+      post.end(body);
+    });
+  }
+
+  async close(): Promise<void> {
+    this.request?.destroy();
+    this.request = undefined;
+  }
+
+  private dispatch(event: string, connected: () => void): void {
+    const type = /^event: (.*)$/m.exec(event)?.[1] ?? 'message';
+    const data = event.split('\n').filter((line) => line.startsWith('data: ')).map((line) => line.slice(6)).join('\n');
+    if (type === 'endpoint') {
+      this.endpoint = new URL(data, this.url);
+      connected();
+    } else if (type === 'message') {
+      try {
+        this.onmessage?.(JSONRPCMessageSchema.parse(JSON.parse(data)));
+      } catch (error) {
+        this.onerror?.(error as Error);
+      }
+    }
+  }
+}
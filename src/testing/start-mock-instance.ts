@@ -0,0 +1,26 @@
+#!/usr/bin/env node
+
+import { MockServiceNowInstance } from './mock-servicenow.js';
+
+// Runs the mock instance on its own so the MCP server can be pointed at it by hand
+async function main() {
+  const port = Number(process.env.MOCK_SERVICENOW_PORT || 8787);
+  const mock = new MockServiceNowInstance({
+    username: process.env.SERVICENOW_USERNAME || 'admin',
+    password: process.env.SERVICENOW_PASSWORD || 'admin',
+  });
+  const url = await mock.start(port);
+  process.stderr.write(`Mock ServiceNow instance listening on ${url}\n`);
+  process.stderr.write(`Start the server with SERVICENOW_INSTANCE_URL=${url}\n`);
+
+  const shutdown = () => {
+    mock.stop().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  process.stderr.write(`Failed to start mock instance: ${error}\n`);
+  process.exit(1);
+});
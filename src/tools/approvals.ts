@@ -0,0 +1,66 @@
+import { v4 as uuidv4 } from 'uuid';
+
+interface PendingApproval {
+  toolName: string;
+  instance: string;
+  fingerprint: string;
+  expiresAt: number;
+}
+
+// Serializes arguments with sorted keys so the same call always fingerprints the same way
+export function fingerprintArgs(args: Record<string, unknown>): string {
+  return JSON.stringify(args, (_key, value) =>
+    value && typeof value === 'object' && !Array.isArray(value)
+      ? Object.fromEntries(Object.keys(value).sort().map((key) => [key, value[key]]))
+      : value
+  );
+}
+
+/**
+ * One-time approval tokens, for confirm-writes mode and delete-record
+ * confirmations. A token is bound to the tool, instance and exact arguments it
+ * was issued for and is consumed on use. Expired tokens are dropped whenever a
+ * token is issued or checked.
+ */
+export class ApprovalStore {
+  private pending = new Map<string, PendingApproval>();
+
+  constructor(private ttlMs: number) {}
+
+  issue(toolName: string, instance: string, args: Record<string, unknown>, now: number = Date.now()): string {
+    this.prune(now);
+    const token = uuidv4();
+    this.pending.set(token, { toolName, instance, fingerprint: fingerprintArgs(args), expiresAt: now + this.ttlMs });
+    return token;
+  }
+
+  consume(token: string, toolName: string, instance: string, args: Record<string, unknown>, now: number = Date.now()): boolean {
+    this.prune(now);
+    const approval = this.pending.get(token);
+    if (!approval) {
+      return false;
+    }
+    if (approval.toolName !== toolName || approval.instance !== instance || approval.fingerprint !== fingerprintArgs(args)) {
+      return false;
+    }
+    this.pending.delete(token);
+    return true;
+  }
+
+  get ttlMinutes(): number {
+    return this.ttlMs / 60000;
+  }
+
+  // Tokens issued and not yet consumed or expired
+  get size(): number {
+    return this.pending.size;
+  }
+
+  private prune(now: number): void {
+    for (const [token, approval] of this.pending) {
+      if (approval.expiresAt < now) {
+        this.pending.delete(token);
+      }
+    }
+  }
+}
@@ -0,0 +1,141 @@
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+
+export type ToolCategory =
+  | 'connection'
+  | 'records'
+  | 'catalog'
+  | 'forms'
+  | 'scripting'
+  | 'notifications'
+  | 'schema'
+  | 'users'
+  | 'update-sets'
+  | 'applications'
+  | 'flows'
+  | 'solutions';
+
+export interface ToolResult {
+  content: Array<{ type: string; text: string }>;
+  isError?: boolean;
+  [key: string]: unknown;
+}
+
+export interface ToolDefinition<S extends z.AnyZodObject = z.AnyZodObject> {
+  name: string;
+  description: string;
+  category: ToolCategory;
+  // Read-only tools never create, change or delete anything on the instance
+  readOnly: boolean;
+  schema: S;
+  handler: (args: z.output<S>) => Promise<ToolResult>;
+}
+
+// Runs around every handler; call next() to continue or return a result to short-circuit
+export type ToolMiddleware = (
+  tool: ToolDefinition,
+  args: Record<string, unknown>,
+  next: () => Promise<ToolResult>
+) => Promise<ToolResult>;
+
+export interface McpToolDescription {
+  name: string;
+  description: string;
+  inputSchema: Record<string, unknown>;
+}
+
+/**
+ * Identity helper that ties a handler's argument type to its schema.
+ */
+export function defineTool<S extends z.AnyZodObject>(definition: ToolDefinition<S>): ToolDefinition<S> {
+  return definition;
+}
+
+type JsonSchemaSource = Parameters<typeof zodToJsonSchema>[0];
+
+export function toInputSchema(schema: z.AnyZodObject): Record<string, unknown> {
+  // zod-to-json-schema types against zod/v3; the cast avoids comparing the two declaration trees
+  const converted = zodToJsonSchema(schema as unknown as JsonSchemaSource, { $refStrategy: 'none', target: 'jsonSchema7' });
+  const { $schema, ...jsonSchema } = converted as Record<string, unknown>;
+  return jsonSchema;
+}
+
+export function formatValidationError(toolName: string, error: z.ZodError): string {
+  const issues = error.issues.map((issue) => {
+    const path = issue.path.length > 0 ? issue.path.join('.') : '(arguments)';
+    return `  - ${path}: ${issue.message}`;
+  });
+  return `❌ Invalid arguments for ${toolName}:\n${issues.join('\n')}`;
+}
+
+export class ToolRegistry {
+  private tools = new Map<string, ToolDefinition>();
+  private middleware: ToolMiddleware[] = [];
+
+  /**
+   * @param commonArgs Arguments accepted by every tool in addition to its own schema
+   * @param writeArgs Arguments accepted only by tools that are not read-only
+   */
+  constructor(private commonArgs: z.ZodRawShape = {}, private writeArgs: z.ZodRawShape = {}) {}
+
+  register(...definitions: ToolDefinition<any>[]): void {
+    for (const definition of definitions) {
+      if (this.tools.has(definition.name)) {
+        throw new Error(`Tool '${definition.name}' is already registered`);
+      }
+      const reserved = { ...this.commonArgs, ...(definition.readOnly ? {} : this.writeArgs) };
+      const clash = Object.keys(reserved).find((key) => key in definition.schema.shape);
+      if (clash) {
+        throw new Error(`Tool '${definition.name}' defines '${clash}', which is reserved for all tools`);
+      }
+      this.tools.set(definition.name, { ...definition, schema: definition.schema.extend(reserved) });
+    }
+  }
+
+  use(middleware: ToolMiddleware): void {
+    this.middleware.push(middleware);
+  }
+
+  get(name: string): ToolDefinition | undefined {
+    return this.tools.get(name);
+  }
+
+  list(): ToolDefinition[] {
+    return [...this.tools.values()];
+  }
+
+  describe(filter: (tool: ToolDefinition) => boolean = () => true): McpToolDescription[] {
+    return this.list()
+      .filter(filter)
+      .map((tool) => ({
+        name: tool.name,
+        description: tool.description,
+        inputSchema: toInputSchema(tool.schema),
+      }));
+  }
+
+  /**
+   * Validates raw MCP arguments against the tool's schema and runs the handler.
+   * Invalid arguments are reported back to the caller without touching the instance.
+   */
+  async call(name: string, rawArgs: unknown): Promise<ToolResult> {
+    const tool = this.tools.get(name);
+    if (!tool) {
+      throw new Error(`Unknown tool: ${name}`);
+    }
+
+    const parsed = tool.schema.safeParse(rawArgs ?? {});
+    if (!parsed.success) {
+      return {
+        content: [{ type: 'text', text: formatValidationError(name, parsed.error) }],
+        isError: true,
+      };
+    }
+
+    const run = this.middleware.reduceRight<() => Promise<ToolResult>>(
+      (next, middleware) => () => middleware(tool, parsed.data, next),
+      () => tool.handler(parsed.data)
+    );
+    return run();
+  }
+}
@@ -0,0 +1,484 @@
+import { z } from 'zod';
+
+// Handlers receive the schema's input type so internal callers can omit defaulted fields
+
+const businessRuleWhen = z.enum(['before', 'after', 'async', 'display'])
+  .describe('When to run: before, after, async, display');
+
+const businessRuleOperation = z.enum(['insert', 'update', 'delete', 'query']);
+
+const catalogActionState = z.string().describe("'true', 'false', or 'leave_alone'");
+
+export const testConnectionSchema = z.object({});
+
+export const listInstancesSchema = z.object({});
+
+export const getSessionSchema = z.object({});
+
+export const setSessionSchema = z.object({
+  default_instance: z.string().optional().describe('Instance profile that calls without an `instance` argument run against for the rest of the session'),
+  dry_run: z.boolean().optional().describe('When true, mutating tools describe the change they would make instead of making it'),
+});
+export type SetSessionArgs = z.input<typeof setSessionSchema>;
+
+export const resetSessionSchema = z.object({});
+
+export const choiceSchema = z.object({
+  value: z.string().optional().describe('Stored value (derived from the label when omitted, e.g. "Very High" -> very_high)'),
+  label: z.string().min(1).describe('Label shown to users'),
+  sequence: z.number().int().optional().describe('Sort order (defaults to list order)'),
+  dependent_value: z.string().optional().describe('Value of the dependent field this choice belongs to'),
+  language: z.string().optional().describe('Language code (defaults to en)'),
+  inactive: z.boolean().optional().describe('Create the choice inactive'),
+});
+
+const choicesSchema = z.union([z.string(), z.array(choiceSchema)]).describe(
+  'Choices as a list of { value, label } entries, or comma-separated labels ("Low,High" or "1=Low,2=High")'
+);
+
+export const queryRecordsSchema = z.object({
+  table: z.string().min(1).describe('Table name (e.g., incident, problem, change_request)'),
+  query: z.string().optional().describe('Encoded query string (e.g., active=true^state=1)'),
+  limit: z.number().int().positive().default(10).describe('Maximum number of records to return'),
+  offset: z.number().int().nonnegative().default(0).describe('Number of records to skip (for paging through results)'),
+  fields: z.string().optional().describe('Comma-separated list of fields to return (optional)'),
+  order_by: z.string().default('sys_created_on').describe('Field to sort by'),
+  order_direction: z.enum(['asc', 'desc']).default('desc').describe('Sort direction'),
+  display_value: z.enum(['false', 'true', 'all']).default('false').describe("Return display values: 'false', 'true', or 'all'"),
+});
+export type QueryRecordsArgs = z.input<typeof queryRecordsSchema>;
+
+export const createRecordSchema = z.object({
+  table: z.string().min(1).describe('Table name (e.g., incident, problem, change_request, task)'),
+  fields: z.record(z.any()).describe(
+    'Field values for the new record as key-value pairs, e.g. { "short_description": "Email server down", "priority": "2" }'
+  ),
+});
+export type CreateRecordArgs = z.input<typeof createRecordSchema>;
+
+export const updateRecordSchema = z.object({
+  table: z.string().min(1).describe('Table name (e.g., incident, problem, change_request)'),
+  sys_id: z.string().min(1).describe('sys_id of the record to update'),
+  fields: z.record(z.any()).describe('Field values to change as key-value pairs'),
+  dry_run: z.boolean().default(false).describe('Only show the diff without saving'),
+});
+export type UpdateRecordArgs = z.input<typeof updateRecordSchema>;
+
+export const listSessionChangesSchema = z.object({
+  limit: z.number().int().positive().default(50).describe('Most recent changes to list'),
+});
+export type ListSessionChangesArgs = z.input<typeof listSessionChangesSchema>;
+
+export const undoSessionChangesSchema = z.object({
+  count: z.number().int().positive().optional().describe('Undo only the most recent N changes (defaults to all of them)'),
+  dry_run: z.boolean().default(false).describe('List what would be reverted without changing anything'),
+});
+export type UndoSessionChangesArgs = z.input<typeof undoSessionChangesSchema>;
+
+export const exportAuditLogSchema = z.object({
+  from: z.string().optional().describe('Earliest call to include, as an ISO date or date-time'),
+  to: z.string().optional().describe('Latest call to include, as an ISO date (the whole day) or date-time'),
+  target_instance: z.string().optional().describe('Only calls made against this instance profile (defaults to all)'),
+  tool: z.string().optional().describe('Only calls of this tool'),
+  output_path: z.string().optional().describe('Write the entries as JSON lines to this file, relative to the exports folder next to the audit log, instead of returning them'),
+  limit: z.number().int().positive().default(200).describe('Most recent entries to return when no output_path is given'),
+});
+export type ExportAuditLogArgs = z.input<typeof exportAuditLogSchema>;
+
+export const deleteRecordSchema = z.object({
+  table: z.string().min(1).describe('Table name'),
+  sys_id: z.string().min(1).describe('sys_id of the record to delete'),
+  confirm: z.string().optional().describe('Confirmation token returned by a previous delete-record call'),
+});
+export type DeleteRecordArgs = z.input<typeof deleteRecordSchema>;
+
+export const createCatalogItemSchema = z.object({
+  command: z.string().min(1).describe(
+    'Natural language command like "Create a catalog item called \'New Laptop Request\' in IT Service Catalog"'
+  ),
+});
+
+export const createRecordProducerSchema = z.object({
+  name: z.string().min(1).describe('Record Producer name'),
+  short_description: z.string().describe('Short description'),
+  table: z.string().min(1).describe('Target table name'),
+  category: z.string().optional().describe('Catalog category'),
+  scope: z.string().default('global').describe('Application scope'),
+  access_type: z.string().default('internal').describe('Access type (internal/external)'),
+});
+export type CreateRecordProducerArgs = z.input<typeof createRecordProducerSchema>;
+
+export const createVariableSchema = z.object({
+  name: z.string().min(1).describe('Variable name'),
+  question_text: z.string().min(1).describe('Display label'),
+  type: z.string().min(1).describe('Variable type (string, multi_line_text, reference, choice, boolean, integer, date, date_time, etc.)'),
+  mandatory: z.boolean().default(false).describe('Is mandatory'),
+  reference_table: z.string().optional().describe('Reference table for reference type variables'),
+  reference_qual: z.string().optional().describe('Reference qualifier for reference type variables'),
+  choices: choicesSchema.optional(),
+  default_value: z.string().optional().describe('Default value'),
+  max_length: z.number().int().positive().optional().describe('Maximum length for string fields'),
+  order: z.number().default(100).describe('Display order'),
+  catalog_item: z.string().min(1).describe('Parent catalog item sys_id'),
+});
+export type CreateVariableArgs = z.input<typeof createVariableSchema>;
+
+export const createVariableSetSchema = z.object({
+  name: z.string().min(1).describe('Variable set name'),
+  title: z.string().min(1).describe('Display title'),
+  description: z.string().optional().describe('Description'),
+  max_entries: z.number().int().positive().default(10).describe('Maximum entries'),
+  catalog_item: z.string().min(1).describe('Parent catalog item sys_id'),
+});
+export type CreateVariableSetArgs = z.input<typeof createVariableSetSchema>;
+
+export const createUIPolicySchema = z.object({
+  name: z.string().min(1).describe('UI Policy name'),
+  table: z.string().min(1).describe('Target table'),
+  conditions: z.string().describe('Condition script or encoded query'),
+  short_description: z.string().optional().describe('Description'),
+  on_load: z.boolean().default(true).describe('Run on load'),
+  catalog_item: z.string().optional().describe('Catalog item sys_id if applicable'),
+  script_true: z.string().optional().describe('Script to execute when condition is true'),
+  script_false: z.string().optional().describe('Script to execute when condition is false'),
+});
+export type CreateUIPolicyArgs = z.input<typeof createUIPolicySchema>;
+
+export const createCatalogUIPolicySchema = z.object({
+  catalog_item: z.string().optional().describe('sys_id of catalog item'),
+  variable_set: z.string().optional().describe('sys_id of variable set'),
+  applies_to: z.string().default('A Catalog Item').describe("'A Catalog Item' or 'A Variable Set'"),
+  name: z.string().min(1).describe('Policy name'),
+  short_description: z.string().optional().describe('Brief description'),
+  active: z.boolean().default(true).describe('Active status'),
+  catalog_conditions: z.string().optional().describe('Conditions using variable names (e.g. equipment_type=Laptop)'),
+  applies_on_catalog_item_view: z.boolean().default(true).describe('Apply in catalog item view'),
+  applies_on_requested_items: z.boolean().default(false).describe('Apply on requested items'),
+  applies_on_catalog_tasks: z.boolean().default(false).describe('Apply on catalog tasks'),
+  applies_on_target_record: z.boolean().default(false).describe('Apply on target record'),
+  on_load: z.boolean().default(true).describe('Run on form load'),
+  reverse_if_false: z.boolean().default(false).describe('Reverse if conditions are false'),
+  order: z.number().default(100).describe('Execution order'),
+});
+export type CreateCatalogUIPolicyArgs = z.input<typeof createCatalogUIPolicySchema>;
+
+export const createCatalogUIPolicyActionSchema = z.object({
+  catalog_ui_policy: z.string().min(1).describe('sys_id of catalog UI policy'),
+  variable_name: z.string().min(1).describe('Name of catalog variable to control'),
+  order: z.number().default(100).describe('Execution order'),
+  mandatory: catalogActionState.optional(),
+  visible: catalogActionState.optional(),
+  read_only: catalogActionState.optional(),
+  value_action: z.string().optional().describe("'leave_alone', 'set_value', or 'clear_value'"),
+  value: z.string().optional().describe("Value to set when value_action is 'set_value'"),
+  field_message_type: z.string().optional().describe("'info', 'warning', 'error', or 'none'"),
+  field_message: z.string().optional().describe('Message to display'),
+});
+export type CreateCatalogUIPolicyActionArgs = z.input<typeof createCatalogUIPolicyActionSchema>;
+
+export const createScriptIncludeSchema = z.object({
+  name: z.string().min(1).describe('Script Include name'),
+  script: z.string().min(1).describe('JavaScript code'),
+  description: z.string().optional().describe('Description'),
+  application_scope: z.string().default('global').describe('Application scope'),
+  api_name: z.string().optional().describe('API name (defaults to name)'),
+  access: z.string().default('package_private').describe('Access level (public, package_private, private)'),
+  active: z.boolean().default(true).describe('Active status'),
+});
+export type CreateScriptIncludeArgs = z.input<typeof createScriptIncludeSchema>;
+
+export const createScheduledJobSchema = z.object({
+  name: z.string().min(1).describe('Scheduled job name'),
+  script: z.string().min(1).describe('JavaScript code to execute'),
+  description: z.string().optional().describe('Description'),
+  run_period: z.string().default('daily').describe('Run period (daily, weekly, monthly, etc.)'),
+  run_time: z.string().default('00:00:00').describe('Run time (HH:MM:SS format)'),
+  run_dayofweek: z.string().optional().describe('Day of week for weekly jobs (1-7)'),
+  run_dayofmonth: z.string().optional().describe('Day of month for monthly jobs (1-31)'),
+  active: z.boolean().default(true).describe('Active status'),
+  conditional: z.boolean().default(false).describe('Use conditional execution'),
+  condition: z.string().optional().describe('Condition script for conditional execution'),
+});
+export type CreateScheduledJobArgs = z.input<typeof createScheduledJobSchema>;
+
+export const createEmailNotificationSchema = z.object({
+  name: z.string().min(1).describe('Email notification name'),
+  table: z.string().min(1).describe('Target table'),
+  event: z.string().min(1).describe('Event that triggers the notification (insert, update, delete)'),
+  subject: z.string().describe('Email subject line'),
+  message: z.string().describe('Email message body'),
+  recipients: z.string().optional().describe('Recipient email addresses or field names'),
+  cc_list: z.string().optional().describe('CC email addresses'),
+  from: z.string().optional().describe('From email address'),
+  active: z.boolean().default(true).describe('Active status'),
+  advanced_condition: z.string().optional().describe('Advanced condition script'),
+  weight: z.number().default(0).describe('Execution order weight'),
+});
+export type CreateEmailNotificationArgs = z.input<typeof createEmailNotificationSchema>;
+
+export const createCatalogClientScriptSchema = z.object({
+  name: z.string().min(1).describe('Client script name'),
+  catalog_item: z.string().min(1).describe('Catalog item sys_id'),
+  type: z.string().min(1).describe('Script type (onLoad, onChange, onSubmit, onCellEdit)'),
+  script: z.string().min(1).describe('JavaScript code'),
+  field: z.string().optional().describe('Field name for onChange scripts'),
+  description: z.string().optional().describe('Description'),
+  active: z.boolean().default(true).describe('Active status'),
+  applies_to: z.string().default('catalog').describe('Where the script applies'),
+});
+export type CreateCatalogClientScriptArgs = z.input<typeof createCatalogClientScriptSchema>;
+
+export const createUIPolicyActionSchema = z.object({
+  ui_policy: z.string().min(1).describe('UI Policy sys_id'),
+  field: z.string().min(1).describe('Target field name'),
+  visible: z.boolean().optional().describe('Make field visible'),
+  mandatory: z.boolean().optional().describe('Make field mandatory'),
+  disabled: z.boolean().optional().describe('Disable field'),
+});
+export type CreateUIPolicyActionArgs = z.input<typeof createUIPolicyActionSchema>;
+
+export const createClientScriptSchema = z.object({
+  name: z.string().min(1).describe('Client Script name'),
+  table: z.string().min(1).describe('Target table'),
+  type: z.string().min(1).describe('Script type (onLoad, onChange, onSubmit, onCellEdit)'),
+  field: z.string().optional().describe('Field name for onChange scripts'),
+  script: z.string().min(1).describe('JavaScript code'),
+  description: z.string().optional().describe('Description'),
+  catalog_item: z.string().optional().describe('Catalog item sys_id if applicable'),
+});
+export type CreateClientScriptArgs = z.input<typeof createClientScriptSchema>;
+
+export const createBusinessRuleSchema = z.object({
+  name: z.string().min(1).describe('Business Rule name'),
+  table: z.string().min(1).describe('Target table name (e.g., incident, problem, change_request)'),
+  when: businessRuleWhen,
+  operation: z.union([z.array(businessRuleOperation), z.string()])
+    .default(['insert', 'update'])
+    .describe('Database operations to trigger on'),
+  script: z.string().min(1).describe('JavaScript code wrapped in function(current, previous) {}'),
+  description: z.string().optional().describe('Description of what the business rule does'),
+  order: z.number().default(100).describe('Execution order (lower numbers run first)'),
+  condition: z.string().optional().describe('JavaScript condition that must return true'),
+  filter_condition: z.string().optional().describe('Encoded query string for filtering records'),
+  advanced: z.boolean().default(false).describe('Enable advanced options'),
+  active: z.boolean().default(true).describe('Whether the rule is active'),
+  role_conditions: z.string().optional().describe('Comma-separated list of roles'),
+});
+export type CreateBusinessRuleArgs = z.input<typeof createBusinessRuleSchema>;
+
+export const updateBusinessRuleSchema = z.object({
+  sys_id: z.string().min(1).describe('Business Rule sys_id to update'),
+  name: z.string().optional().describe('Business Rule name'),
+  table: z.string().optional().describe('Target table name'),
+  when: businessRuleWhen.optional(),
+  operation: z.union([z.array(businessRuleOperation), z.string()]).optional().describe('Database operations to trigger on'),
+  script: z.string().optional().describe('JavaScript code wrapped in function(current, previous) {}'),
+  description: z.string().optional().describe('Description of what the business rule does'),
+  order: z.number().optional().describe('Execution order (lower numbers run first)'),
+  condition: z.string().optional().describe('JavaScript condition that must return true'),
+  filter_condition: z.string().optional().describe('Encoded query string for filtering records'),
+  advanced: z.boolean().optional().describe('Enable advanced options'),
+  active: z.boolean().optional().describe('Whether the rule is active'),
+  role_conditions: z.string().optional().describe('Comma-separated list of roles'),
+});
+export type UpdateBusinessRuleArgs = z.input<typeof updateBusinessRuleSchema>;
+
+export const describeTableSchema = z.object({
+  table: z.string().min(1).describe('Table name (e.g., incident, sc_cat_item)'),
+  include_inherited: z.boolean().default(true).describe('Include fields inherited from parent tables (e.g., task fields on incident)'),
+});
+export type DescribeTableArgs = z.input<typeof describeTableSchema>;
+
+export const listTablesSchema = z.object({
+  filter: z.string().optional().describe('Only tables whose name or label contains this text'),
+  extends: z.string().optional().describe('Only tables that directly extend this table (e.g., task)'),
+  limit: z.number().int().positive().max(500).default(50).describe('Maximum number of tables to return'),
+});
+export type ListTablesArgs = z.input<typeof listTablesSchema>;
+
+export const tableColumnSchema = z.object({
+  name: z.string().regex(/^[a-z][a-z0-9_]*$/, 'Column names are lowercase letters, digits and underscores').describe('Column name'),
+  label: z.string().min(1).describe('Column label'),
+  type: z.string().min(1).describe('Field type (string, integer, boolean, reference, glide_date_time, etc.)'),
+  reference_table: z.string().optional().describe('Referenced table for reference fields'),
+  max_length: z.number().int().positive().optional().describe('Maximum length for string fields'),
+  mandatory: z.boolean().default(false).describe('Is mandatory'),
+  default_value: z.string().optional().describe('Default value'),
+  choices: choicesSchema.optional(),
+});
+
+export const createTableSchema = z.object({
+  name: z.string().min(1).describe("Table name, prefixed with u_ in the global scope or the scope name in a scoped app (e.g. x_acme_invoice_request)"),
+  label: z.string().min(1).describe('Table label, e.g. Invoice Request'),
+  scope: z.string().optional().describe('Application scope (defaults to the instance default scope)'),
+  extends: z.string().optional().describe('Parent table to extend, e.g. task'),
+  extensible: z.boolean().default(false).describe('Allow other tables to extend this one'),
+  number_prefix: z.string().regex(/^[A-Z]{2,10}$/, 'Number prefixes are 2-10 uppercase letters').optional()
+    .describe('Auto-number prefix, e.g. INV for INV0001000'),
+  columns: z.array(tableColumnSchema).default([]).describe('Columns to create on the table'),
+  create_module: z.boolean().default(true).describe('Add a module listing the table to an application menu'),
+  menu: z.string().optional().describe('Application menu title for the module; an existing menu is reused, otherwise one is created (defaults to the table label)'),
+});
+export type CreateTableArgs = z.input<typeof createTableSchema>;
+
+export const manageChoicesSchema = z.object({
+  table: z.string().min(1).describe('Table the field belongs to'),
+  field: z.string().min(1).describe('Field (column) name'),
+  add: z.array(choiceSchema).default([]).describe('Choices to add; an existing value is updated and reactivated instead'),
+  order: z.array(z.string()).optional().describe('Choice values in the desired display order; unlisted choices keep their relative order after them'),
+  deactivate: z.array(z.string()).default([]).describe('Choice values to deactivate'),
+  language: z.string().default('en').describe('Language of the choices to manage'),
+});
+export type ManageChoicesArgs = z.input<typeof manageChoicesSchema>;
+
+export const createTableFieldSchema = z.object({
+  table: z.string().min(1).describe('Target table name'),
+  column_name: z.string().min(1).describe('Field name'),
+  column_label: z.string().min(1).describe('Field label'),
+  type: z.string().min(1).describe('Field type (string, reference, boolean, choice, etc.)'),
+  reference_table: z.string().optional().describe('Reference table for reference fields'),
+  max_length: z.number().int().positive().optional().describe('Maximum length for string fields'),
+  choices: choicesSchema.optional(),
+  mandatory: z.boolean().default(false).describe('Is mandatory'),
+});
+export type CreateTableFieldArgs = z.input<typeof createTableFieldSchema>;
+
+export const createAssignmentGroupSchema = z.object({
+  name: z.string().min(1).describe('Group name'),
+  description: z.string().optional().describe('Group description'),
+  type: z.string().default('itil').describe('Group type'),
+  active: z.boolean().default(true).describe('Active status'),
+});
+export type CreateAssignmentGroupArgs = z.input<typeof createAssignmentGroupSchema>;
+
+export const implementInvoiceStatusInquirySchema = z.object({
+  dry_run: z.boolean().default(false).describe('Preview changes without creating'),
+  scope: z.string().default('sn_customerservice').describe('Application scope'),
+});
+export type ImplementInvoiceStatusInquiryArgs = z.input<typeof implementInvoiceStatusInquirySchema>;
+
+export const planManifestSchema = z.object({
+  file_path: z.string().optional().describe('YAML or JSON solution manifest, relative to the manifest directory'),
+  manifest: z.string().optional().describe('YAML or JSON solution manifest content, instead of a file'),
+});
+export type PlanManifestArgs = z.input<typeof planManifestSchema>;
+
+export const applyManifestSchema = planManifestSchema;
+export type ApplyManifestArgs = z.input<typeof applyManifestSchema>;
+
+export const createUpdateSetSchema = z.object({
+  name: z.string().min(1).describe('Update set name'),
+  description: z.string().describe('Update set description'),
+});
+export type CreateUpdateSetArgs = z.input<typeof createUpdateSetSchema>;
+
+export const setCurrentUpdateSetSchema = z.object({
+  update_set_id: z.string().min(1).describe('Update set sys_id'),
+});
+export type SetCurrentUpdateSetArgs = z.input<typeof setCurrentUpdateSetSchema>;
+
+export const getCurrentUpdateSetSchema = z.object({});
+
+export const listUpdateSetsSchema = z.object({
+  state: z.enum(['build', 'complete', 'ignore']).optional().describe('Filter by state (build = in progress)'),
+  scope: z.string().optional().describe('Filter by application scope (e.g., global, x_acme_app)'),
+  prefix: z.string().optional().describe('Name prefix to filter by (defaults to the configured update set prefix)'),
+  all_prefixes: z.boolean().default(false).describe('List update sets regardless of name prefix'),
+  limit: z.number().int().positive().default(25).describe('Maximum number of update sets to return'),
+});
+export type ListUpdateSetsArgs = z.input<typeof listUpdateSetsSchema>;
+
+export const getUpdateSetContentsSchema = z.object({
+  update_set_id: z.string().min(1).describe('Update set sys_id'),
+  limit: z.number().int().positive().default(200).describe('Maximum number of customer updates to return'),
+});
+export type GetUpdateSetContentsArgs = z.input<typeof getUpdateSetContentsSchema>;
+
+export const completeUpdateSetSchema = z.object({
+  update_set_id: z.string().min(1).describe('Update set sys_id'),
+  allow_empty: z.boolean().default(false).describe('Complete the update set even if it captured no changes'),
+});
+export type CompleteUpdateSetArgs = z.input<typeof completeUpdateSetSchema>;
+
+export const exportUpdateSetSchema = z.object({
+  update_set_id: z.string().min(1).describe('Update set sys_id'),
+  output_path: z.string().optional().describe('File to write, relative to the export directory (defaults to <update set name>.xml)'),
+});
+export type ExportUpdateSetArgs = z.input<typeof exportUpdateSetSchema>;
+
+export const loadUpdateSetXmlSchema = z.object({
+  file_path: z.string().optional().describe('Exported update set XML file, relative to the export directory'),
+  xml: z.string().optional().describe('Exported update set XML content, instead of a file'),
+});
+export type LoadUpdateSetXmlArgs = z.input<typeof loadUpdateSetXmlSchema>;
+
+export const previewRemoteUpdateSetSchema = z.object({
+  remote_update_set_id: z.string().min(1).describe('Retrieved update set (sys_remote_update_set) sys_id'),
+  timeout_ms: z.number().int().positive().default(300000).describe('How long to wait for the preview to finish'),
+});
+export type PreviewRemoteUpdateSetArgs = z.input<typeof previewRemoteUpdateSetSchema>;
+
+export const listPreviewProblemsSchema = z.object({
+  remote_update_set_id: z.string().min(1).describe('Retrieved update set (sys_remote_update_set) sys_id'),
+  include_resolved: z.boolean().default(false).describe('Also list problems already accepted or skipped'),
+});
+export type ListPreviewProblemsArgs = z.input<typeof listPreviewProblemsSchema>;
+
+export const resolvePreviewProblemSchema = z.object({
+  problem_id: z.string().min(1).describe('Preview problem (sys_update_preview_problem) sys_id'),
+  resolution: z.enum(['accept', 'skip']).describe('accept applies the remote update anyway, skip leaves the local version in place'),
+});
+export type ResolvePreviewProblemArgs = z.input<typeof resolvePreviewProblemSchema>;
+
+export const commitRemoteUpdateSetSchema = z.object({
+  remote_update_set_id: z.string().min(1).describe('Retrieved update set (sys_remote_update_set) sys_id'),
+  force: z.boolean().default(false).describe('Commit even if preview problems are still unresolved'),
+  timeout_ms: z.number().int().positive().default(600000).describe('How long to wait for the commit to finish'),
+});
+export type CommitRemoteUpdateSetArgs = z.input<typeof commitRemoteUpdateSetSchema>;
+
+export const createApplicationScopeSchema = z.object({
+  name: z.string().min(1).describe('Application name'),
+  scope: z.string().min(1).describe('Application scope identifier'),
+  short_description: z.string().describe('Short description'),
+  version: z.string().default('1.0.0').describe('Version number'),
+});
+export type CreateApplicationScopeArgs = z.input<typeof createApplicationScopeSchema>;
+
+export const setApplicationScopeSchema = z.object({
+  scope: z.string().min(1).describe('Application scope to set as current'),
+});
+export type SetApplicationScopeArgs = z.input<typeof setApplicationScopeSchema>;
+
+export const createFlowSchema = z.object({
+  name: z.string().min(1).describe('Flow name'),
+  description: z.string().optional().describe('Flow description'),
+  scope: z.string().default('global').describe('Application scope'),
+  active: z.boolean().default(true).describe('Active status'),
+});
+export type CreateFlowArgs = z.input<typeof createFlowSchema>;
+
+export const createFlowTriggerSchema = z.object({
+  flow_id: z.string().min(1).describe('Flow sys_id'),
+  type: z.string().min(1).describe('Trigger type (record_created, record_updated, scheduled)'),
+  table: z.string().optional().describe('Table name for record triggers'),
+  condition: z.string().optional().describe('Condition for when the trigger fires'),
+});
+export type CreateFlowTriggerArgs = z.input<typeof createFlowTriggerSchema>;
+
+export const addCreateRecordActionSchema = z.object({
+  flow_id: z.string().min(1).describe('Flow sys_id'),
+  table: z.string().min(1).describe('Table to create record in'),
+  field_values: z.record(z.any()).describe('Field values for the new record'),
+  order: z.number().describe('Action execution order'),
+});
+export type AddCreateRecordActionArgs = z.input<typeof addCreateRecordActionSchema>;
+
+export const addSendEmailActionSchema = z.object({
+  flow_id: z.string().min(1).describe('Flow sys_id'),
+  to: z.string().min(1).describe('Email recipient(s)'),
+  subject: z.string().describe('Email subject'),
+  body: z.string().describe('Email body'),
+  order: z.number().describe('Action execution order'),
+});
+export type AddSendEmailActionArgs = z.input<typeof addSendEmailActionSchema>;
@@ -1,11 +1,21 @@
+import type { ResilienceOptions } from '../utils/resilience.js';
+import type { CassetteOptions } from '../utils/cassette.js';
+
 export interface ServiceNowConfig {
   instanceUrl: string;
   username?: string;
   password?: string;
   clientId?: string;
   clientSecret?: string;
+  authType?: 'basic' | 'oauth2';
   updateSetPrefix: string;
   defaultScope: string;
+  timeoutMs?: number;
+  resilience?: Partial<ResilienceOptions>;
+  // Record traffic to, or replay it from, a JSON cassette instead of the live instance
+  cassette?: CassetteOptions;
+  // Send the tool call's correlation ID as X-Request-Id
+  requestIdHeader?: boolean;
 }
 
 export interface ServiceNowAuthResponse {
@@ -13,6 +23,7 @@ export interface ServiceNowAuthResponse {
   token_type: string;
   expires_in: number;
   scope: string;
+  refresh_token?: string;
 }
 
 export interface UpdateSet {
@@ -0,0 +1,197 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import type { RecordAction } from './record-reference.js';
+import type { Logger } from './logger.js';
+
+export type AuditStatus = 'success' | 'error';
+
+export interface AuditEntry {
+  id: string;
+  // When the call started
+  timestamp: string;
+  session: string;
+  // Who the session authenticated as, when it came over HTTP
+  principal?: string;
+  // Matches the correlation_id of the call's log entries
+  correlation_id: string;
+  // MCP client that made the call, from its initialize request
+  client?: string;
+  // Account the call ran as on the instance
+  user?: string;
+  instance: string;
+  tool: string;
+  // Secrets are redacted before anything is written
+  arguments: Record<string, unknown>;
+  status: AuditStatus;
+  duration_ms: number;
+  error?: string;
+  records: Array<{ table: string; sys_id: string; action: RecordAction }>;
+}
+
+export interface AuditLogOptions {
+  // Empty disables the audit log
+  filePath: string;
+  // Size at which the file is rotated to <name>.1.jsonl
+  maxBytes: number;
+  // Rotated files kept besides the current one
+  maxFiles: number;
+}
+
+export interface AuditQuery {
+  from?: Date;
+  to?: Date;
+  instance?: string;
+  tool?: string;
+}
+
+// Longest error message kept per entry
+const ERROR_MESSAGE_LIMIT = 500;
+
+export function truncateError(message: string): string {
+  return message.length > ERROR_MESSAGE_LIMIT ? `${message.slice(0, ERROR_MESSAGE_LIMIT)}…` : message;
+}
+
+/**
+ * Parses a date range bound. A bare date covers the whole day, so `to: 2024-03-31`
+ * includes calls made on the 31st.
+ */
+export function parseAuditDate(value: string, bound: 'from' | 'to'): Date {
+  const dateOnly = /^\d{4}-\d{2}-\d{2}$/.test(value);
+  const date = new Date(dateOnly ? `${value}T${bound === 'to' ? '23:59:59.999' : '00:00:00.000'}Z` : value);
+  if (Number.isNaN(date.getTime())) {
+    throw new Error(`Invalid '${bound}' date '${value}'; use an ISO date (2024-03-31) or date-time (2024-03-31T12:00:00Z)`);
+  }
+  return date;
+}
+
+/**
+ * Append-only JSON lines log of every tool call. The current file is rotated
+ * once it reaches `maxBytes`: audit.jsonl becomes audit.1.jsonl, audit.1.jsonl
+ * becomes audit.2.jsonl and so on, dropping files beyond `maxFiles`.
+ */
+export class AuditLog {
+  private size?: number;
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private options: AuditLogOptions, private logger?: Logger) {}
+
+  get enabled(): boolean {
+    return Boolean(this.options.filePath);
+  }
+
+  get filePath(): string {
+    return this.options.filePath;
+  }
+
+  record(entry: Omit<AuditEntry, 'id'>): void {
+    if (!this.enabled) {
+      return;
+    }
+    const line = `${JSON.stringify({ id: uuidv4(), ...entry })}\n`;
+    this.pendingWrite = this.pendingWrite
+      .then(() => this.append(line))
+      .catch((error) => {
+        this.logger?.error(`Failed to write audit log ${this.options.filePath}: ${(error as Error).message}`);
+      });
+  }
+
+  // Resolves once every entry so far is on disk
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  /**
+   * Reads matching entries from the rotated files and the current one, oldest first.
+   */
+  async read(query: AuditQuery = {}): Promise<AuditEntry[]> {
+    await this.flush();
+    const entries: AuditEntry[] = [];
+    for (let index = this.options.maxFiles; index >= 0; index--) {
+      let content: string;
+      try {
+        content = await fs.readFile(this.rotatedPath(index), 'utf8');
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          continue;
+        }
+        throw error;
+      }
+      for (const line of content.split('\n')) {
+        const entry = parseEntry(line);
+        if (entry && matches(entry, query)) {
+          entries.push(entry);
+        }
+      }
+    }
+    return entries;
+  }
+
+  // export-audit-log writes here, away from the log files themselves
+  get exportDir(): string {
+    return path.join(path.dirname(path.resolve(this.options.filePath)), 'exports');
+  }
+
+  // Whether `fileName` is the current log file's name or one of its rotated names
+  isLogFileName(fileName: string): boolean {
+    const { name, ext } = path.parse(this.options.filePath);
+    const escaped = (text: string) => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    return new RegExp(`^${escaped(name)}(\\.\\d+)?${escaped(ext)}$`).test(path.basename(fileName));
+  }
+
+  // Index 0 is the current file
+  rotatedPath(index: number): string {
+    if (index === 0) {
+      return this.options.filePath;
+    }
+    const { dir, name, ext } = path.parse(this.options.filePath);
+    return path.join(dir, `${name}.${index}${ext}`);
+  }
+
+  private async append(line: string): Promise<void> {
+    const bytes = Buffer.byteLength(line);
+    if (this.size === undefined) {
+      await fs.mkdir(path.dirname(path.resolve(this.options.filePath)), { recursive: true });
+      this.size = await fs.stat(this.options.filePath).then((stats) => stats.size, () => 0);
+    }
+    if (this.size > 0 && this.size + bytes > this.options.maxBytes) {
+      await this.rotate();
+      this.size = 0;
+    }
+    await fs.appendFile(this.options.filePath, line, { encoding: 'utf8', flag: 'a' });
+    this.size += bytes;
+  }
+
+  private async rotate(): Promise<void> {
+    // Renaming onto the oldest kept file drops it
+    for (let index = this.options.maxFiles - 1; index >= 0; index--) {
+      try {
+        await fs.rename(this.rotatedPath(index), this.rotatedPath(index + 1));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+          throw error;
+        }
+      }
+    }
+  }
+}
+
+function parseEntry(line: string): AuditEntry | undefined {
+  if (!line.trim()) {
+    return undefined;
+  }
+  try {
+    return JSON.parse(line) as AuditEntry;
+  } catch {
+    // A line cut short by a crash shouldn't hide the rest of the log
+    return undefined;
+  }
+}
+
+function matches(entry: AuditEntry, query: AuditQuery): boolean {
+  const time = Date.parse(entry.timestamp);
+  return (!query.from || time >= query.from.getTime()) &&
+    (!query.to || time <= query.to.getTime()) &&
+    (!query.instance || entry.instance === query.instance) &&
+    (!query.tool || entry.tool === query.tool);
+}
@@ -0,0 +1,31 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import type { ArtifactOutcome } from './natural-keys.js';
+import type { ChangeJournal } from './change-journal.js';
+import type { RecordReference } from './record-reference.js';
+import type { Session } from './session.js';
+
+// State scoped to a single tool call, visible to everything the handler awaits
+export interface CallContext {
+  toolName: string;
+  instance: string;
+  // Creates reuse existing records matched on their natural key
+  idempotent: boolean;
+  // What each create did in idempotent mode, reported back with the result
+  artifacts: ArtifactOutcome[];
+  // Every record the call wrote, returned as structured content
+  records: RecordReference[];
+  // Where writes are journaled for undo; unset while undoing, so reverts aren't journaled themselves
+  journal?: ChangeJournal;
+  // The MCP session making the call: its update set, scope and dry-run setting
+  session: Session;
+}
+
+const storage = new AsyncLocalStorage<CallContext>();
+
+export function runWithCallContext<T>(context: CallContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+export function getCallContext(): CallContext | undefined {
+  return storage.getStore();
+}
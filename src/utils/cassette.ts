@@ -0,0 +1,197 @@
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'fs';
+import path from 'path';
+import { AxiosAdapter, AxiosError, AxiosResponse, InternalAxiosRequestConfig } from 'axios';
+
+export type CassetteMode = 'record' | 'replay';
+
+export interface CassetteOptions {
+  path: string;
+  mode: CassetteMode;
+}
+
+export interface CassetteInteraction {
+  request: {
+    method: string;
+    url: string;
+    body?: unknown;
+  };
+  response: {
+    status: number;
+    statusText: string;
+    headers: Record<string, string>;
+    body: unknown;
+  };
+}
+
+export interface Cassette {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+// Stands in for the instance origin so cassettes replay against any base URL
+export const INSTANCE_PLACEHOLDER = 'https://instance.service-now.com';
+
+const REDACTED = '***REDACTED***';
+
+// Request and response fields that carry credentials or tokens
+const SECRET_FIELDS = ['password', 'client_secret', 'refresh_token', 'access_token', 'username', 'client_id'];
+
+// Response headers worth keeping; the rest (cookies, session ids, timing) is noise or sensitive
+const RECORDED_HEADERS = ['content-type', 'x-total-count', 'link', 'retry-after'];
+
+export class CassetteMismatchError extends Error {
+  constructor(method: string, url: string, cassettePath: string) {
+    super(`No unused interaction in cassette ${cassettePath} matches ${method} ${url}. ` +
+      `Re-record it with SERVICENOW_CASSETTE_MODE=record.`);
+    this.name = 'CassetteMismatchError';
+  }
+}
+
+function parseBody(data: unknown): unknown {
+  if (typeof data !== 'string' || data === '') {
+    return data === '' ? undefined : data;
+  }
+  try {
+    return JSON.parse(data);
+  } catch {
+    // Form-encoded bodies (OAuth token requests) are kept as an object
+    if (/^[\w.-]+=/.test(data)) {
+      return Object.fromEntries(new URLSearchParams(data).entries());
+    }
+    return data;
+  }
+}
+
+export function scrubSecrets(value: unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map(scrubSecrets);
+  }
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(Object.entries(value).map(([key, entry]) =>
+      [key, SECRET_FIELDS.includes(key) ? REDACTED : scrubSecrets(entry)]
+    ));
+  }
+  return value;
+}
+
+// Path plus query with parameters sorted, relative to the instance
+export function normalizeRequestUrl(config: InternalAxiosRequestConfig): string {
+  const url = new URL(config.url ?? '', config.baseURL ? `${config.baseURL.replace(/\/+$/, '')}/` : INSTANCE_PLACEHOLDER);
+  for (const [key, value] of Object.entries(config.params ?? {})) {
+    if (value !== undefined && value !== null) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  url.searchParams.sort();
+  return `${url.pathname}${url.search}`;
+}
+
+function replaceOrigin<T>(value: T, from: string, to: string): T {
+  if (value === undefined || !from || from === to) {
+    return value;
+  }
+  return JSON.parse(JSON.stringify(value).split(from).join(to));
+}
+
+function originOf(config: InternalAxiosRequestConfig): string {
+  return new URL(config.url ?? '', config.baseURL || undefined).origin;
+}
+
+function loadCassette(cassettePath: string): Cassette {
+  if (!existsSync(cassettePath)) {
+    throw new Error(`Cassette ${cassettePath} does not exist; record it first with SERVICENOW_CASSETTE_MODE=record`);
+  }
+  return JSON.parse(readFileSync(cassettePath, 'utf8')) as Cassette;
+}
+
+/**
+ * Wraps an axios adapter to record request/response pairs to a JSON cassette,
+ * or to answer requests from one without touching the network. Requests are
+ * matched in order on method, relative URL and body. Credentials, tokens and
+ * the instance origin are never written to disk.
+ */
+export function createCassetteAdapter(adapter: AxiosAdapter, options: CassetteOptions): AxiosAdapter {
+  if (options.mode === 'record') {
+    const cassette: Cassette = { version: 1, interactions: [] };
+    mkdirSync(path.dirname(options.path), { recursive: true });
+
+    const record = (config: InternalAxiosRequestConfig, response: AxiosResponse) => {
+      const origin = originOf(config);
+      const headers = Object.fromEntries(RECORDED_HEADERS
+        .filter((name) => response.headers[name] !== undefined)
+        .map((name) => [name, String(response.headers[name])]));
+
+      cassette.interactions.push(replaceOrigin({
+        request: {
+          method: (config.method ?? 'get').toUpperCase(),
+          url: normalizeRequestUrl(config),
+          body: scrubSecrets(parseBody(config.data)),
+        },
+        response: {
+          status: response.status,
+          statusText: response.statusText,
+          headers,
+          body: scrubSecrets(parseBody(response.data)),
+        },
+      }, origin, INSTANCE_PLACEHOLDER));
+      // Written after every interaction so an aborted run still leaves a usable cassette
+      writeFileSync(options.path, `${JSON.stringify(cassette, null, 2)}\n`);
+    };
+
+    return async (config) => {
+      try {
+        const response = await adapter(config);
+        record(config, response);
+        return response;
+      } catch (error) {
+        if (error instanceof AxiosError && error.response) {
+          record(config, error.response);
+        }
+        throw error;
+      }
+    };
+  }
+
+  const cassette = loadCassette(options.path);
+  const used = new Set<number>();
+
+  return async (config) => {
+    const method = (config.method ?? 'get').toUpperCase();
+    const url = normalizeRequestUrl(config);
+    const body = JSON.stringify(replaceOrigin(scrubSecrets(parseBody(config.data)), originOf(config), INSTANCE_PLACEHOLDER));
+
+    const index = cassette.interactions.findIndex((interaction, position) =>
+      !used.has(position) &&
+      interaction.request.method === method &&
+      interaction.request.url === url &&
+      JSON.stringify(interaction.request.body) === body
+    );
+    if (index === -1) {
+      throw new CassetteMismatchError(method, url, options.path);
+    }
+    used.add(index);
+
+    const recorded = replaceOrigin(cassette.interactions[index].response, INSTANCE_PLACEHOLDER, originOf(config));
+    const response: AxiosResponse = {
+      status: recorded.status,
+      statusText: recorded.statusText,
+      headers: recorded.headers,
+      // The adapter hands back raw text; axios' transformResponse parses it as usual
+      data: recorded.body === undefined || typeof recorded.body === 'string' ? recorded.body ?? '' : JSON.stringify(recorded.body),
+      config,
+      request: {},
+    };
+
+    const validateStatus = config.validateStatus ?? ((status: number) => status >= 200 && status < 300);
+    if (!validateStatus(response.status)) {
+      throw new AxiosError(
+        `Request failed with status code ${response.status}`,
+        response.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        config,
+        response.request,
+        response
+      );
+    }
+    return response;
+  };
+}
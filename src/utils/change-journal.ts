@@ -0,0 +1,103 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { v4 as uuidv4 } from 'uuid';
+import { fieldValue } from './record-diff.js';
+import type { Logger } from './logger.js';
+
+export type ChangeOperation = 'create' | 'update' | 'delete';
+
+export interface ChangeEntry {
+  type: 'change';
+  id: string;
+  session: string;
+  // Who the session authenticated as, when it came over HTTP
+  principal?: string;
+  timestamp: string;
+  tool: string;
+  instance: string;
+  operation: ChangeOperation;
+  table: string;
+  sys_id: string;
+  // Fields the call wrote; empty for deletes
+  fields: string[];
+  // Record as it was before the change; absent for creates
+  before?: Record<string, string>;
+  // Record as the instance returned it; absent for deletes
+  after?: Record<string, string>;
+}
+
+// Appended when a change is reverted, so the file stays append-only
+export interface UndoEntry {
+  type: 'undo';
+  session: string;
+  principal?: string;
+  timestamp: string;
+  change: string;
+}
+
+export type JournalEntry = ChangeEntry | UndoEntry;
+
+export type ChangeInput = Omit<ChangeEntry, 'type' | 'id' | 'session' | 'principal' | 'timestamp'>;
+
+// Reference fields arrive as `{ value, link }`; the journal keeps raw values, which is what a restore writes back
+export function flattenRecord(record: Record<string, any> | undefined): Record<string, string> | undefined {
+  return record && Object.fromEntries(Object.entries(record).map(([field, value]) => [field, fieldValue(value)]));
+}
+
+/**
+ * Records every change a session makes on an instance, in memory for the
+ * session's own undo and as JSON lines in `filePath` (when set) for later
+ * forensics. Writes to the file are serialized so lines keep their order.
+ */
+export class ChangeJournal {
+  private entries: ChangeEntry[] = [];
+  private undone = new Set<string>();
+  private pendingWrite: Promise<void> = Promise.resolve();
+
+  constructor(private filePath: string, private logger?: Logger, readonly session: string = uuidv4(), readonly principal?: string) {}
+
+  record(change: ChangeInput): ChangeEntry {
+    const entry: ChangeEntry = {
+      type: 'change',
+      id: uuidv4(),
+      session: this.session,
+      principal: this.principal,
+      timestamp: new Date().toISOString(),
+      ...change,
+    };
+    this.entries.push(entry);
+    this.append(entry);
+    return entry;
+  }
+
+  markUndone(entry: ChangeEntry): void {
+    this.undone.add(entry.id);
+    this.append({ type: 'undo', session: this.session, principal: this.principal, timestamp: new Date().toISOString(), change: entry.id });
+  }
+
+  // Changes on `instance` that have not been undone, oldest first
+  changes(instance: string): ChangeEntry[] {
+    return this.entries.filter((entry) => entry.instance === instance && !this.undone.has(entry.id));
+  }
+
+  // Resolves once every entry so far is on disk
+  flush(): Promise<void> {
+    return this.pendingWrite;
+  }
+
+  private append(entry: JournalEntry): void {
+    if (!this.filePath) {
+      return;
+    }
+    const line = `${JSON.stringify(entry)}\n`;
+    this.pendingWrite = this.pendingWrite
+      .then(async () => {
+        await fs.mkdir(path.dirname(path.resolve(this.filePath)), { recursive: true });
+        await fs.appendFile(this.filePath, line, 'utf8');
+      })
+      .catch((error) => {
+        // Losing the file copy must not fail the change itself
+        this.logger?.warn(`Failed to write change journal ${this.filePath}: ${(error as Error).message}`);
+      });
+  }
+}
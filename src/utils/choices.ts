@@ -0,0 +1,73 @@
+export interface ChoiceInput {
+  value?: string;
+  label: string;
+  sequence?: number;
+  dependent_value?: string;
+  language?: string;
+  inactive?: boolean;
+}
+
+export interface ChoiceSpec {
+  value: string;
+  label: string;
+  sequence: number;
+  dependent_value?: string;
+  language: string;
+  inactive: boolean;
+}
+
+export const DEFAULT_CHOICE_LANGUAGE = 'en';
+
+// Gap between generated sequences, leaving room to slot choices in later
+export const CHOICE_SEQUENCE_STEP = 10;
+
+// "Very High" -> very_high, the way ServiceNow suggests values for new choices
+export function choiceValue(label: string): string {
+  return label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '');
+}
+
+function parseChoiceItem(item: string): ChoiceInput {
+  // "value=Label" keeps an explicit stored value; a bare label gets a derived one
+  const separator = item.indexOf('=');
+  return separator > 0
+    ? { value: item.slice(0, separator).trim(), label: item.slice(separator + 1).trim() }
+    : { label: item.trim() };
+}
+
+/**
+ * Normalizes choices given either as a comma-separated string
+ * (`low,medium` or `1=High,2=Low`) or as structured entries. Stored values
+ * are kept apart from labels and sequences follow list order unless given.
+ */
+export function normalizeChoices(input: string | ChoiceInput[]): ChoiceSpec[] {
+  const items = typeof input === 'string'
+    ? input.split(',').filter((item) => item.trim()).map(parseChoiceItem)
+    : input;
+
+  const choices = items.map((item, index) => ({
+    value: item.value?.trim() || choiceValue(item.label),
+    label: item.label.trim(),
+    sequence: item.sequence ?? (index + 1) * CHOICE_SEQUENCE_STEP,
+    dependent_value: item.dependent_value,
+    language: item.language || DEFAULT_CHOICE_LANGUAGE,
+    inactive: item.inactive === true,
+  }));
+
+  const seen = new Set<string>();
+  for (const choice of choices) {
+    if (!choice.value) {
+      throw new Error(`Choice '${choice.label}' has no usable value`);
+    }
+    // The same value may exist once per language and dependent value
+    const key = `${choice.language}|${choice.dependent_value ?? ''}|${choice.value}`;
+    if (seen.has(key)) {
+      throw new Error(`Duplicate choice value '${choice.value}'`);
+    }
+    seen.add(key);
+  }
+  return choices;
+}
+
+export function formatChoices(choices: Array<Pick<ChoiceSpec, 'value' | 'label'>>): string {
+  return choices.map((choice) => choice.value === choice.label ? choice.value : `${choice.value}=${choice.label}`).join(', ');
+}
@@ -0,0 +1,417 @@
+export type QueryOperator =
+  | '=' | '!=' | '<' | '<=' | '>' | '>='
+  | 'LIKE' | 'NOT LIKE' | 'STARTSWITH' | 'ENDSWITH'
+  | 'IN' | 'NOT IN'
+  | 'ISEMPTY' | 'ISNOTEMPTY' | 'EMPTYSTRING' | 'ANYTHING'
+  | 'ON' | 'NOTON' | 'BETWEEN' | 'DATEPART'
+  | 'RELATIVEGT' | 'RELATIVELT' | 'RELATIVEGE' | 'RELATIVELE'
+  | 'MORETHAN' | 'LESSTHAN' | 'SAMEAS' | 'NSAMEAS'
+  | 'GT_FIELD' | 'LT_FIELD' | 'GT_OR_EQUALS_FIELD' | 'LT_OR_EQUALS_FIELD'
+  | 'VALCHANGES' | 'CHANGESFROM' | 'CHANGESTO'
+  | 'DYNAMIC' | 'INSTANCEOF';
+
+export interface QueryCondition {
+  field: string;
+  operator: QueryOperator;
+  value: string;
+}
+
+// Conditions in a clause are OR'd; clauses in a group are AND'd; groups (^NQ) are OR'd.
+// A clause holds either conditions or one of the keyword clauses below.
+export interface QueryClause {
+  conditions: QueryCondition[];
+  // 123TEXTQUERY321=<terms>: keyword search across the record's text
+  textSearch?: string;
+  relatedList?: RelatedListQuery;
+}
+
+export type RelatedCountOperator = '=' | '!=' | '<' | '<=' | '>' | '>=';
+
+/**
+ * RLQUERY<table>.<field>,<operator><count>[,m2m]^…^ENDRLQUERY: records with
+ * `<operator> <count>` related `table` records whose `field` points at them,
+ * counting only related records that match `clauses`.
+ */
+export interface RelatedListQuery {
+  table: string;
+  field: string;
+  operator: RelatedCountOperator;
+  count: number;
+  // Many-to-many relationship, such as sys_user_grmember
+  m2m: boolean;
+  clauses: QueryClause[];
+}
+
+export interface QueryGroup {
+  clauses: QueryClause[];
+}
+
+export interface QueryOrder {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface EncodedQueryAst {
+  groups: QueryGroup[];
+  orderBy: QueryOrder[];
+}
+
+export type QueryValue = string | number | boolean;
+
+export class EncodedQueryError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'EncodedQueryError';
+  }
+}
+
+const UNARY_OPERATORS: QueryOperator[] = ['ISEMPTY', 'ISNOTEMPTY', 'EMPTYSTRING', 'ANYTHING', 'VALCHANGES'];
+
+// Longest first, so `<=` wins over `<` and `INSTANCEOF` over `IN`
+const OPERATORS: QueryOperator[] = ([
+  '=', '!=', '<', '<=', '>', '>=', 'LIKE', 'NOT LIKE', 'STARTSWITH', 'ENDSWITH', 'IN', 'NOT IN',
+  'ISEMPTY', 'ISNOTEMPTY', 'EMPTYSTRING', 'ANYTHING', 'ON', 'NOTON', 'BETWEEN', 'DATEPART',
+  'RELATIVEGT', 'RELATIVELT', 'RELATIVEGE', 'RELATIVELE', 'MORETHAN', 'LESSTHAN', 'SAMEAS', 'NSAMEAS',
+  'GT_FIELD', 'LT_FIELD', 'GT_OR_EQUALS_FIELD', 'LT_OR_EQUALS_FIELD', 'VALCHANGES', 'CHANGESFROM', 'CHANGESTO',
+  'DYNAMIC', 'INSTANCEOF',
+] as QueryOperator[]).sort((a, b) => b.length - a.length);
+
+const FIELD_PATTERN = /^[A-Za-z_][\w.]*$/;
+const TEXT_QUERY_PREFIX = '123TEXTQUERY321=';
+const RELATED_LIST_PATTERN = /^RLQUERY([A-Za-z_]\w*)\.([A-Za-z_]\w*),(!=|<=|>=|=|<|>)(\d+)(,m2m)?$/;
+const CONDITION_PATTERN = new RegExp(
+  `^([A-Za-z_][\\w.]*?)(${OPERATORS.map((op) => op.replace(/[<>=!]/g, '\\$&')).join('|')})([\\s\\S]*)$`
+);
+
+const OPERATOR_LABELS: Partial<Record<QueryOperator, string>> = {
+  '=': 'is',
+  '!=': 'is not',
+  '<': 'is less than',
+  '<=': 'is at most',
+  '>': 'is greater than',
+  '>=': 'is at least',
+  'LIKE': 'contains',
+  'NOT LIKE': 'does not contain',
+  'STARTSWITH': 'starts with',
+  'ENDSWITH': 'ends with',
+  'IN': 'is one of',
+  'NOT IN': 'is not one of',
+  'ISEMPTY': 'is empty',
+  'ISNOTEMPTY': 'is not empty',
+  'ON': 'on',
+  'NOTON': 'not on',
+  'BETWEEN': 'between',
+};
+
+// Date ranges understood by the ON / NOTON operators, with the GlideSystem macros ServiceNow expects
+export const DATE_PERIODS = {
+  'Today': ['beginningOfToday', 'endOfToday'],
+  'Yesterday': ['beginningOfYesterday', 'endOfYesterday'],
+  'Tomorrow': ['beginningOfTomorrow', 'endOfTomorrow'],
+  'This week': ['beginningOfThisWeek', 'endOfThisWeek'],
+  'Last week': ['beginningOfLastWeek', 'endOfLastWeek'],
+  'This month': ['beginningOfThisMonth', 'endOfThisMonth'],
+  'Last month': ['beginningOfLastMonth', 'endOfLastMonth'],
+  'This year': ['beginningOfThisYear', 'endOfThisYear'],
+  'Last year': ['beginningOfLastYear', 'endOfLastYear'],
+} as const;
+
+export type DatePeriod = keyof typeof DATE_PERIODS;
+
+export type RelativeUnit = 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
+
+export function assertField(field: string): string {
+  if (!FIELD_PATTERN.test(field)) {
+    throw new EncodedQueryError(`Invalid field name '${field}'`);
+  }
+  return field;
+}
+
+/**
+ * Escapes a value for use in an encoded query. A literal `^` is written as
+ * `^^`, so values cannot end a condition early and smuggle in their own.
+ * Script values are refused; the date helpers below generate the only macros
+ * the builder needs.
+ */
+export function escapeQueryValue(value: QueryValue): string {
+  const text = String(value);
+  if (/^\s*javascript:/i.test(text)) {
+    throw new EncodedQueryError('Script values (javascript:) are not allowed in query values');
+  }
+  return text.replace(/\^/g, '^^');
+}
+
+export function datePeriodValue(period: DatePeriod): string {
+  const [start, end] = DATE_PERIODS[period];
+  return `${period}@javascript:gs.${start}()@javascript:gs.${end}()`;
+}
+
+// Value for RELATIVEGT/RELATIVELT: "more (or less) than <amount> <unit>s ago"
+export function relativeDateValue(amount: number, unit: RelativeUnit): string {
+  if (!Number.isInteger(amount) || amount < 0) {
+    throw new EncodedQueryError('Relative date amounts must be non-negative integers');
+  }
+  return `@${unit === 'day' ? 'dayofweek' : unit}@ago@${amount}`;
+}
+
+function formatCondition(condition: QueryCondition): string {
+  return `${condition.field}${condition.operator}${condition.value}`;
+}
+
+function formatClause(clause: QueryClause): string {
+  if (clause.textSearch !== undefined) {
+    return `${TEXT_QUERY_PREFIX}${clause.textSearch}`;
+  }
+  if (clause.relatedList) {
+    const { table, field, operator, count, m2m, clauses } = clause.relatedList;
+    return [`RLQUERY${table}.${field},${operator}${count}${m2m ? ',m2m' : ''}`, ...clauses.map(formatClause), 'ENDRLQUERY'].join('^');
+  }
+  return clause.conditions.map(formatCondition).join('^OR');
+}
+
+export function formatEncodedQuery(ast: EncodedQueryAst): string {
+  const groups = ast.groups
+    .filter((group) => group.clauses.length > 0)
+    .map((group) => group.clauses.map(formatClause).join('^'));
+  const orders = ast.orderBy.map((order) => `${order.direction === 'desc' ? 'ORDERBYDESC' : 'ORDERBY'}${order.field}`);
+  return [groups.join('^NQ'), ...orders].filter(Boolean).join('^');
+}
+
+// Splits on `^` separators while keeping `^^` escapes inside values
+function splitSegments(encoded: string): string[] {
+  const segments: string[] = [];
+  let current = '';
+  for (let index = 0; index < encoded.length; index++) {
+    if (encoded[index] !== '^') {
+      current += encoded[index];
+    } else if (encoded[index + 1] === '^') {
+      current += '^';
+      index++;
+    } else {
+      segments.push(current);
+      current = '';
+    }
+  }
+  segments.push(current);
+  return segments;
+}
+
+function parseCondition(segment: string): QueryCondition {
+  const match = CONDITION_PATTERN.exec(segment);
+  if (!match) {
+    throw new EncodedQueryError(`Cannot parse query condition '${segment}'`);
+  }
+  const operator = match[2] as QueryOperator;
+  return {
+    field: match[1],
+    operator,
+    // Values come back unescaped; formatEncodedQuery expects them escaped again
+    value: UNARY_OPERATORS.includes(operator) ? '' : match[3].replace(/\^/g, '^^'),
+  };
+}
+
+// Adds a condition segment to `clauses`, OR'ing it with the previous clause when it starts with OR
+function addCondition(clauses: QueryClause[], segment: string): void {
+  const previous = clauses[clauses.length - 1];
+  if (segment.startsWith('OR') && previous && previous.conditions.length > 0) {
+    previous.conditions.push(parseCondition(segment.slice(2)));
+  } else {
+    clauses.push({ conditions: [parseCondition(segment)] });
+  }
+}
+
+// Parses the RLQUERY segment at `start` through its ENDRLQUERY; returns the index of ENDRLQUERY
+function parseRelatedList(segments: string[], start: number, clauses: QueryClause[]): number {
+  const match = RELATED_LIST_PATTERN.exec(segments[start]);
+  if (!match) {
+    throw new EncodedQueryError(`Cannot parse related list query '${segments[start]}'`);
+  }
+  const [, table, field, operator, count, m2m] = match;
+  const relatedList: RelatedListQuery = {
+    table, field, operator: operator as RelatedCountOperator, count: Number(count), m2m: Boolean(m2m), clauses: [],
+  };
+  let index = start + 1;
+  for (; index < segments.length && segments[index] !== 'ENDRLQUERY'; index++) {
+    if (segments[index] !== '') {
+      addCondition(relatedList.clauses, segments[index]);
+    }
+  }
+  if (index === segments.length) {
+    throw new EncodedQueryError(`Related list query '${segments[start]}' has no ENDRLQUERY`);
+  }
+  clauses.push({ conditions: [], relatedList });
+  return index;
+}
+
+export function parseEncodedQuery(encoded: string): EncodedQueryAst {
+  const ast: EncodedQueryAst = { groups: [{ clauses: [] }], orderBy: [] };
+  const segments = splitSegments(encoded.trim());
+
+  for (let index = 0; index < segments.length; index++) {
+    let segment = segments[index];
+    if (segment === '' || segment === 'EQ') {
+      continue;
+    }
+    if (segment.startsWith('NQ')) {
+      ast.groups.push({ clauses: [] });
+      segment = segment.slice(2);
+      if (segment === '') {
+        continue;
+      }
+    }
+    if (segment.startsWith('ORDERBYDESC')) {
+      ast.orderBy.push({ field: assertField(segment.slice('ORDERBYDESC'.length)), direction: 'desc' });
+      continue;
+    }
+    if (segment.startsWith('ORDERBY')) {
+      ast.orderBy.push({ field: assertField(segment.slice('ORDERBY'.length)), direction: 'asc' });
+      continue;
+    }
+
+    const clauses = ast.groups[ast.groups.length - 1].clauses;
+    if (segment.startsWith(TEXT_QUERY_PREFIX)) {
+      clauses.push({ conditions: [], textSearch: segment.slice(TEXT_QUERY_PREFIX.length).replace(/\^/g, '^^') });
+    } else if (segment.startsWith('RLQUERY')) {
+      index = parseRelatedList(segments, index, clauses);
+    } else {
+      addCondition(clauses, segment);
+    }
+  }
+  return ast;
+}
+
+/**
+ * Renders a parsed query for people, e.g.
+ * `active is true AND (priority is 1 OR priority is 2), ordered by number`.
+ */
+export function describeEncodedQuery(ast: EncodedQueryAst): string {
+  const describeCondition = (condition: QueryCondition) => {
+    const label = OPERATOR_LABELS[condition.operator] ?? condition.operator;
+    const value = condition.value.replace(/\^\^/g, '^').split('@')[0];
+    return UNARY_OPERATORS.includes(condition.operator) ? `${condition.field} ${label}` : `${condition.field} ${label} ${value}`;
+  };
+
+  const describeClause = (clause: QueryClause): string => {
+    if (clause.textSearch !== undefined) {
+      return `text matches "${clause.textSearch.replace(/\^\^/g, '^')}"`;
+    }
+    if (clause.relatedList) {
+      const { table, field, operator, count, clauses } = clause.relatedList;
+      const filter = clauses.length > 0 ? ` where ${clauses.map(describeClause).join(' AND ')}` : '';
+      return `(${table} records by ${field}${filter}) count ${operator} ${count}`;
+    }
+    return clause.conditions.length > 1
+      ? `(${clause.conditions.map(describeCondition).join(' OR ')})`
+      : describeCondition(clause.conditions[0]);
+  };
+
+  const groups = ast.groups
+    .filter((group) => group.clauses.length > 0)
+    .map((group) => group.clauses.map(describeClause).join(' AND '));
+
+  const filter = groups.length > 1 ? groups.map((group) => `[${group}]`).join(' OR ') : groups[0] ?? 'all records';
+  const order = ast.orderBy.map((entry) => `${entry.field}${entry.direction === 'desc' ? ' (descending)' : ''}`);
+  return order.length > 0 ? `${filter}, ordered by ${order.join(', ')}` : filter;
+}
+
+/**
+ * Builds encoded queries with escaped values:
+ *
+ *   EncodedQuery.where('active', '=', true).and('name', 'STARTSWITH', prefix).orderBy('number', 'desc')
+ */
+export class EncodedQuery {
+  private constructor(private ast: EncodedQueryAst) {}
+
+  static create(): EncodedQuery {
+    return new EncodedQuery({ groups: [{ clauses: [] }], orderBy: [] });
+  }
+
+  static where(field: string, operator: QueryOperator, value?: QueryValue | QueryValue[]): EncodedQuery {
+    return EncodedQuery.create().and(field, operator, value);
+  }
+
+  // Parses an existing encoded query so more conditions or ordering can be added to it
+  static parse(encoded: string): EncodedQuery {
+    return new EncodedQuery(parseEncodedQuery(encoded));
+  }
+
+  and(field: string, operator: QueryOperator, value?: QueryValue | QueryValue[]): this {
+    this.currentGroup().clauses.push({ conditions: [this.condition(field, operator, value)] });
+    return this;
+  }
+
+  // OR's a condition with the condition added just before it
+  or(field: string, operator: QueryOperator, value?: QueryValue | QueryValue[]): this {
+    const clauses = this.currentGroup().clauses;
+    if (clauses.length === 0) {
+      throw new EncodedQueryError('or() needs a preceding condition');
+    }
+    clauses[clauses.length - 1].conditions.push(this.condition(field, operator, value));
+    return this;
+  }
+
+  onDate(field: string, period: DatePeriod): this {
+    this.currentGroup().clauses.push({ conditions: [{ field: assertField(field), operator: 'ON', value: datePeriodValue(period) }] });
+    return this;
+  }
+
+  // Records whose field is within (`newerThan`) or before (`olderThan`) the last `amount` units
+  since(field: string, amount: number, unit: RelativeUnit, direction: 'newerThan' | 'olderThan' = 'newerThan'): this {
+    const operator: QueryOperator = direction === 'newerThan' ? 'RELATIVEGT' : 'RELATIVELT';
+    this.currentGroup().clauses.push({ conditions: [{ field: assertField(field), operator, value: relativeDateValue(amount, unit) }] });
+    return this;
+  }
+
+  // Starts a new OR'd group of conditions (^NQ)
+  newQuery(): this {
+    this.ast.groups.push({ clauses: [] });
+    return this;
+  }
+
+  orderBy(field: string, direction: 'asc' | 'desc' = 'asc'): this {
+    this.ast.orderBy.push({ field: assertField(field), direction });
+    return this;
+  }
+
+  get isOrdered(): boolean {
+    return this.ast.orderBy.length > 0;
+  }
+
+  toAst(): EncodedQueryAst {
+    return JSON.parse(JSON.stringify(this.ast));
+  }
+
+  describe(): string {
+    return describeEncodedQuery(this.ast);
+  }
+
+  toString(): string {
+    return formatEncodedQuery(this.ast);
+  }
+
+  private currentGroup(): QueryGroup {
+    return this.ast.groups[this.ast.groups.length - 1];
+  }
+
+  private condition(field: string, operator: QueryOperator, value?: QueryValue | QueryValue[]): QueryCondition {
+    assertField(field);
+    if (UNARY_OPERATORS.includes(operator)) {
+      return { field, operator, value: '' };
+    }
+    if (value === undefined) {
+      throw new EncodedQueryError(`Operator ${operator} on '${field}' needs a value`);
+    }
+    if (Array.isArray(value)) {
+      if (operator !== 'IN' && operator !== 'NOT IN' && operator !== 'BETWEEN') {
+        throw new EncodedQueryError(`Operator ${operator} takes a single value`);
+      }
+      const separator = operator === 'BETWEEN' ? '@' : ',';
+      const items = value.map(escapeQueryValue);
+      if (items.some((item) => item.includes(separator))) {
+        throw new EncodedQueryError(`${operator} values cannot contain '${separator}'`);
+      }
+      return { field, operator, value: items.join(separator) };
+    }
+    return { field, operator, value: escapeQueryValue(value) };
+  }
+}
@@ -0,0 +1,120 @@
+import { existsSync, readFileSync } from 'fs';
+import { z } from 'zod';
+
+// read-only refuses mutating tools, confirm-writes makes them ask for an approval token first
+export const ACCESS_MODES = ['read-only', 'confirm-writes', 'full'] as const;
+export type AccessMode = typeof ACCESS_MODES[number];
+
+export interface InstanceProfile {
+  name: string;
+  instanceUrl: string;
+  username?: string;
+  password?: string;
+  clientId?: string;
+  clientSecret?: string;
+  authType: 'basic' | 'oauth2';
+  defaultScope: string;
+  updateSetPrefix: string;
+  mode: AccessMode;
+  description?: string;
+}
+
+export interface InstanceProfiles {
+  profiles: Record<string, InstanceProfile>;
+  defaultInstance: string;
+}
+
+// Settings a profile inherits when the file leaves them out
+export type ProfileDefaults = Pick<InstanceProfile, 'defaultScope' | 'updateSetPrefix' | 'mode'>;
+
+const profileFileSchema = z.object({
+  default: z.string().optional(),
+  instances: z.record(z.object({
+    url: z.string().url(),
+    auth_type: z.enum(['basic', 'oauth2']).default('basic'),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    client_id: z.string().optional(),
+    client_secret: z.string().optional(),
+    default_scope: z.string().optional(),
+    update_set_prefix: z.string().optional(),
+    mode: z.enum(ACCESS_MODES).optional(),
+    description: z.string().optional(),
+  })),
+});
+
+/**
+ * Replaces `${VAR}` references with environment variables so credentials can
+ * stay out of the profiles file.
+ */
+export function interpolateEnv(value: string, source: string): string {
+  return value.replace(/\$\{(\w+)\}/g, (_match, name) => {
+    const resolved = process.env[name];
+    if (resolved === undefined) {
+      throw new Error(`${source} references \${${name}}, which is not set in the environment`);
+    }
+    return resolved;
+  });
+}
+
+export function validateProfileAuth(profile: InstanceProfile, source: string): void {
+  if (profile.authType === 'basic') {
+    if (!profile.username || !profile.password) {
+      throw new Error(`${source}: username and password are required for basic auth`);
+    }
+  } else if (!profile.clientId || !profile.clientSecret) {
+    throw new Error(`${source}: client_id and client_secret are required for oauth2`);
+  }
+}
+
+export function parseInstanceProfiles(content: string, source: string, defaults: ProfileDefaults): InstanceProfiles {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(content);
+  } catch (error) {
+    throw new Error(`${source} is not valid JSON: ${(error as Error).message}`);
+  }
+
+  const parsed = profileFileSchema.safeParse(raw);
+  if (!parsed.success) {
+    const issues = parsed.error.issues.map((issue) => `${issue.path.join('.')}: ${issue.message}`);
+    throw new Error(`Invalid instance profiles in ${source}:\n  ${issues.join('\n  ')}`);
+  }
+
+  const profiles: Record<string, InstanceProfile> = {};
+  for (const [name, entry] of Object.entries(parsed.data.instances)) {
+    const where = `${source} (instance '${name}')`;
+    const secret = (value?: string) => value === undefined ? undefined : interpolateEnv(value, where);
+    profiles[name] = {
+      name,
+      instanceUrl: entry.url.replace(/\/+$/, ''),
+      username: secret(entry.username),
+      password: secret(entry.password),
+      clientId: secret(entry.client_id),
+      clientSecret: secret(entry.client_secret),
+      authType: entry.auth_type,
+      defaultScope: entry.default_scope ?? defaults.defaultScope,
+      updateSetPrefix: entry.update_set_prefix ?? defaults.updateSetPrefix,
+      mode: entry.mode ?? defaults.mode,
+      description: entry.description,
+    };
+    validateProfileAuth(profiles[name], where);
+  }
+
+  const names = Object.keys(profiles);
+  if (names.length === 0) {
+    throw new Error(`${source} does not define any instances`);
+  }
+  const defaultInstance = parsed.data.default ?? names[0];
+  if (!profiles[defaultInstance]) {
+    throw new Error(`${source}: default instance '${defaultInstance}' is not defined`);
+  }
+  return { profiles, defaultInstance };
+}
+
+export function loadInstanceProfiles(filePath: string, defaults: ProfileDefaults): InstanceProfiles | undefined {
+  if (!existsSync(filePath)) {
+    return undefined;
+  }
+  return parseInstanceProfiles(readFileSync(filePath, 'utf8'), filePath, defaults);
+}
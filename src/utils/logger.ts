@@ -0,0 +1,95 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import path from 'path';
+import winston from 'winston';
+import { redactForLog } from './redaction.js';
+
+export const LOG_LEVELS = ['error', 'warn', 'info', 'debug'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+export const LOG_FORMATS = ['text', 'json'] as const;
+export type LogFormat = typeof LOG_FORMATS[number];
+
+export interface LoggingOptions {
+  level: LogLevel;
+  // Console output: readable lines, or one JSON object per line for log shippers
+  format: LogFormat;
+  // JSON lines log file; empty for console only
+  file: string;
+  // Size at which the file is rotated to <name>1.<ext>
+  maxBytes: number;
+  // Log files kept, the current one included
+  maxFiles: number;
+}
+
+export interface Logger {
+  error(message: string, meta?: Record<string, unknown>): void;
+  warn(message: string, meta?: Record<string, unknown>): void;
+  info(message: string, meta?: Record<string, unknown>): void;
+  debug(message: string, meta?: Record<string, unknown>): void;
+  // Logger that adds `meta` (e.g. the emitting service) to every entry
+  child(meta: Record<string, unknown>): Logger;
+}
+
+const correlation = new AsyncLocalStorage<string>();
+
+// Tags every entry logged while `fn` runs, including from ServiceNow API calls it awaits
+export function withCorrelationId<T>(correlationId: string, fn: () => T): T {
+  return correlation.run(correlationId, fn);
+}
+
+export function getCorrelationId(): string | undefined {
+  return correlation.getStore();
+}
+
+const addCorrelationId = winston.format((info) => {
+  const correlationId = getCorrelationId();
+  if (correlationId && info.correlation_id === undefined) {
+    info.correlation_id = correlationId;
+  }
+  return info;
+});
+
+// Redacts metadata only; messages are written by us and never carry field values
+const redactMeta = winston.format((info) => {
+  for (const [key, value] of Object.entries(redactForLog({ ...info }) as Record<string, unknown>)) {
+    if (key !== 'level' && key !== 'message') {
+      info[key] = value;
+    }
+  }
+  return info;
+});
+
+// [timestamp] LEVEL [correlation]: message {meta}
+const textFormat = winston.format.printf(({ level, message, timestamp, correlation_id: correlationId, ...meta }) => {
+  const metaStr = Object.keys(meta).length > 0 ? ` ${JSON.stringify(meta)}` : '';
+  const prefix = correlationId ? ` [${correlationId}]` : '';
+  return `[${timestamp}] ${level.toUpperCase()}${prefix}: ${message}${metaStr}`;
+});
+
+export function createLogger(options: LoggingOptions): Logger {
+  // In MCP mode stdout carries the protocol, so everything goes to stderr
+  const isMCPMode = process.env.MCP_MODE === 'true' || process.argv.includes('--mcp');
+
+  const transports: winston.transport[] = [
+    new winston.transports.Console({
+      format: options.format === 'json' ? winston.format.json() : textFormat,
+      stderrLevels: isMCPMode ? [...LOG_LEVELS] : ['error', 'warn'],
+    }),
+  ];
+  if (options.file) {
+    transports.push(new winston.transports.File({
+      filename: path.resolve(options.file),
+      format: winston.format.json(),
+      maxsize: options.maxBytes,
+      maxFiles: options.maxFiles,
+      // Keeps the newest entries in `file` itself; older ones move to numbered files
+      tailable: true,
+    }));
+  }
+
+  return winston.createLogger({
+    level: options.level,
+    format: winston.format.combine(winston.format.timestamp(), addCorrelationId(), redactMeta()),
+    transports,
+  });
+}
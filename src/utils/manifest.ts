@@ -0,0 +1,154 @@
+import { parse as parseYaml, YAMLParseError } from 'yaml';
+import { z } from 'zod';
+import { NATURAL_KEYS } from './natural-keys.js';
+
+const ARTIFACT_ID = /^[A-Za-z][\w-]*$/;
+
+// `${id}` in a field value stands for the sys_id of the artifact with that id
+const REFERENCE_PATTERN = /\$\{([A-Za-z][\w-]*)\}/g;
+
+const fieldValueSchema = z.union([z.string(), z.number(), z.boolean()]);
+
+const artifactSchema = z.object({
+  id: z.string().regex(ARTIFACT_ID, 'must start with a letter and contain only letters, digits, _ and -'),
+  table: z.string().min(1),
+  description: z.string().optional(),
+  // Overrides the table's natural key from NATURAL_KEYS
+  key: z.array(z.string().min(1)).min(1).optional(),
+  // Extra ordering constraints besides the ${id} references in fields
+  depends_on: z.array(z.string()).default([]),
+  fields: z.record(fieldValueSchema),
+});
+
+const manifestSchema = z.object({
+  name: z.string().min(1),
+  description: z.string().default(''),
+  // Update set apply-manifest records into; defaults to the manifest name
+  update_set: z.string().min(1).optional(),
+  artifacts: z.array(artifactSchema).min(1),
+});
+
+export type ManifestArtifact = z.output<typeof artifactSchema>;
+export type Manifest = z.output<typeof manifestSchema>;
+export type ManifestFieldValue = z.output<typeof fieldValueSchema>;
+
+export class ManifestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ManifestError';
+  }
+}
+
+export function artifactKey(artifact: ManifestArtifact): string[] {
+  return artifact.key ?? NATURAL_KEYS[artifact.table] ?? [];
+}
+
+// Ids of the artifacts a field value refers to
+export function fieldReferences(value: ManifestFieldValue | undefined): string[] {
+  return typeof value === 'string' ? [...value.matchAll(REFERENCE_PATTERN)].map((match) => match[1]) : [];
+}
+
+// Artifacts this one needs to exist first: ${id} references plus depends_on
+export function artifactDependencies(artifact: ManifestArtifact): string[] {
+  return [...new Set([...artifact.depends_on, ...Object.values(artifact.fields).flatMap(fieldReferences)])];
+}
+
+/**
+ * Replaces `${id}` references with sys_ids. References missing from `sysIds`
+ * are replaced by `unresolved(id)`, which a plan uses to mark artifacts that
+ * do not exist yet.
+ */
+export function resolveReferences(
+  fields: Record<string, ManifestFieldValue>,
+  sysIds: ReadonlyMap<string, string>,
+  unresolved: (id: string) => string = (id) => {
+    throw new ManifestError(`Reference to '${id}' is not resolved yet`);
+  }
+): Record<string, ManifestFieldValue> {
+  return Object.fromEntries(Object.entries(fields).map(([field, value]) => [
+    field,
+    typeof value === 'string'
+      ? value.replace(REFERENCE_PATTERN, (_, id: string) => sysIds.get(id) ?? unresolved(id))
+      : value,
+  ]));
+}
+
+// Depth-first, so artifacts keep their manifest order unless a dependency has to move ahead
+function orderArtifacts(artifacts: ManifestArtifact[]): ManifestArtifact[] {
+  const byId = new Map(artifacts.map((artifact) => [artifact.id, artifact]));
+  const ordered: ManifestArtifact[] = [];
+  const done = new Set<string>();
+  const visiting: string[] = [];
+
+  const visit = (artifact: ManifestArtifact) => {
+    if (done.has(artifact.id)) {
+      return;
+    }
+    if (visiting.includes(artifact.id)) {
+      const cycle = [...visiting.slice(visiting.indexOf(artifact.id)), artifact.id];
+      throw new ManifestError(`Circular dependency between artifacts: ${cycle.join(' → ')}`);
+    }
+    visiting.push(artifact.id);
+    for (const id of artifactDependencies(artifact)) {
+      visit(byId.get(id)!);
+    }
+    visiting.pop();
+    done.add(artifact.id);
+    ordered.push(artifact);
+  };
+
+  artifacts.forEach(visit);
+  return ordered;
+}
+
+function validateArtifacts(artifacts: ManifestArtifact[]): void {
+  const ids = new Set<string>();
+  for (const artifact of artifacts) {
+    if (ids.has(artifact.id)) {
+      throw new ManifestError(`Duplicate artifact id '${artifact.id}'`);
+    }
+    ids.add(artifact.id);
+  }
+
+  for (const artifact of artifacts) {
+    const unknown = artifactDependencies(artifact).filter((id) => !ids.has(id));
+    if (unknown.length > 0) {
+      throw new ManifestError(`Artifact '${artifact.id}' refers to unknown artifact(s): ${unknown.join(', ')}`);
+    }
+
+    // Without a key there is no way to tell whether the artifact already exists
+    const key = artifactKey(artifact);
+    if (key.length === 0) {
+      throw new ManifestError(`Artifact '${artifact.id}': table '${artifact.table}' has no natural key; list the identifying fields under 'key'`);
+    }
+    const missing = key.filter((field) => !(field in artifact.fields));
+    if (missing.length > 0) {
+      throw new ManifestError(`Artifact '${artifact.id}' is missing key field(s) ${missing.join(', ')} (use '' for an empty value)`);
+    }
+  }
+}
+
+/**
+ * Parses a YAML or JSON manifest, validates it and returns its artifacts in
+ * dependency order, so each artifact comes after everything it references.
+ */
+export function parseManifest(source: string): Manifest {
+  let document: unknown;
+  try {
+    // YAML is a superset of JSON, so one parser covers both formats
+    document = parseYaml(source);
+  } catch (error) {
+    throw new ManifestError(`Manifest is not valid YAML or JSON: ${error instanceof YAMLParseError ? error.message : String(error)}`);
+  }
+
+  const result = manifestSchema.safeParse(document);
+  if (!result.success) {
+    const issues = result.error.issues.map((issue) =>
+      `  - ${issue.path.length > 0 ? issue.path.join('.') : '(manifest)'}: ${issue.message}`);
+    throw new ManifestError(`Invalid manifest:\n${issues.join('\n')}`);
+  }
+
+  const manifest = result.data;
+  validateArtifacts(manifest.artifacts);
+  return { ...manifest, artifacts: orderArtifacts(manifest.artifacts) };
+}
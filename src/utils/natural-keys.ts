@@ -0,0 +1,90 @@
+import { EncodedQuery } from './encoded-query.js';
+import { fieldValue } from './record-diff.js';
+
+export type ArtifactAction = 'created' | 'updated' | 'unchanged';
+
+export interface ArtifactOutcome {
+  table: string;
+  action: ArtifactAction;
+  sysId: string;
+  // Natural key of the artifact, e.g. "name=AP_Helpdesk_NA"
+  key: string;
+  changedFields: string[];
+}
+
+/**
+ * Fields that identify a configuration artifact independently of its sys_id.
+ * In idempotent mode a create on one of these tables reuses the record with
+ * the same key instead of inserting a duplicate.
+ */
+export const NATURAL_KEYS: Record<string, string[]> = {
+  sys_user_group: ['name'],
+  sys_db_object: ['name'],
+  sys_dictionary: ['name', 'element'],
+  sys_choice: ['name', 'element', 'value', 'language'],
+  sys_number: ['category'],
+  sys_app: ['scope'],
+  sys_app_application: ['title'],
+  sys_app_module: ['application', 'name'],
+  sys_script: ['name', 'collection'],
+  sys_script_include: ['api_name'],
+  sys_script_client: ['name', 'table'],
+  sys_ui_policy: ['table', 'short_description'],
+  sys_ui_policy_action: ['ui_policy', 'field'],
+  sysauto_script: ['name'],
+  sysevent_email_action: ['name'],
+  sys_hub_flow: ['name'],
+  sys_update_set: ['name'],
+  sc_category: ['title'],
+  sc_cat_item: ['name'],
+  sc_cat_item_producer: ['name'],
+  item_option_new: ['cat_item', 'name'],
+  item_option_new_set: ['name'],
+  question_choice: ['question', 'value'],
+  catalog_ui_policy: ['catalog_item', 'variable_set', 'short_description'],
+  catalog_ui_policy_action: ['ui_policy', 'catalog_variable'],
+  catalog_script_client: ['cat_item', 'name'],
+};
+
+// Missing key fields mean the artifact cannot be matched, so it is always created
+export function naturalKeyFor(table: string, data: Record<string, any>): string[] | undefined {
+  const fields = NATURAL_KEYS[table];
+  return fields && fields.every((field) => field in data) ? fields : undefined;
+}
+
+export function naturalKeyQuery(fields: string[], data: Record<string, any>): EncodedQuery {
+  const query = EncodedQuery.create();
+  for (const field of fields) {
+    const value = fieldValue(data[field]);
+    if (value === '') {
+      query.and(field, 'ISEMPTY');
+    } else {
+      query.and(field, '=', value);
+    }
+  }
+  return query;
+}
+
+export function describeNaturalKey(fields: string[], data: Record<string, any>): string {
+  return fields
+    .filter((field) => fieldValue(data[field]) !== '')
+    .map((field) => `${field}=${fieldValue(data[field])}`)
+    .join(', ');
+}
+
+const ACTION_ICONS: Record<ArtifactAction, string> = {
+  created: '✨',
+  updated: '✏️',
+  unchanged: '✔️',
+};
+
+export function formatArtifactOutcomes(outcomes: ArtifactOutcome[]): string {
+  const counts = (['created', 'updated', 'unchanged'] as const)
+    .map((action) => `${outcomes.filter((outcome) => outcome.action === action).length} ${action}`)
+    .join(', ');
+  const lines = outcomes.map((outcome) =>
+    `${ACTION_ICONS[outcome.action]} ${outcome.action} ${outcome.table} (${outcome.key || outcome.sysId})` +
+    (outcome.changedFields.length > 0 ? `: ${outcome.changedFields.join(', ')}` : '')
+  );
+  return `Artifacts (${counts}):\n${lines.join('\n')}`;
+}
@@ -0,0 +1,36 @@
+export interface FieldChange {
+  field: string;
+  before: string;
+  after: string;
+}
+
+/**
+ * Reduces a Table API field to its raw value. Reference fields arrive as
+ * `{ value, link }` and display-value queries as `{ value, display_value }`.
+ */
+export function fieldValue(value: any): string {
+  if (value === null || value === undefined) {
+    return '';
+  }
+  if (typeof value === 'object' && 'value' in value) {
+    return fieldValue(value.value);
+  }
+  return String(value);
+}
+
+/**
+ * Lists the fields in `changes` whose value differs from `current`. Values are
+ * compared the way ServiceNow stores them, so `true` equals `'true'` and `100`
+ * equals `'100'`.
+ */
+export function diffRecord(current: Record<string, any>, changes: Record<string, any>): FieldChange[] {
+  return Object.keys(changes)
+    .map((field) => ({ field, before: fieldValue(current[field]), after: fieldValue(changes[field]) }))
+    .filter((change) => change.before !== change.after);
+}
+
+export function formatChanges(changes: FieldChange[]): string {
+  return changes
+    .map((change) => `  ${change.field}: ${JSON.stringify(change.before)} → ${JSON.stringify(change.after)}`)
+    .join('\n');
+}
@@ -0,0 +1,46 @@
+import { fieldValue } from './record-diff.js';
+
+export type RecordAction = 'created' | 'updated' | 'unchanged' | 'deleted' | 'read';
+
+/**
+ * A record a tool call touched, returned to the caller as structured content
+ * next to the text so it can chain calls on the sys_id instead of parsing prose.
+ */
+export interface RecordReference {
+  table: string;
+  sys_id: string;
+  display_value: string;
+  // Opens the record form on the instance
+  link: string;
+  action: RecordAction;
+}
+
+// The fields ServiceNow most often uses as a table's display value, most specific first
+const DISPLAY_FIELDS = ['number', 'name', 'title', 'short_description', 'user_name', 'question_text', 'element'];
+
+// Tables whose `name` holds something other than the record's own name
+const TABLE_DISPLAY_FIELDS: Record<string, string> = {
+  sys_dictionary: 'element',
+  sys_choice: 'label',
+  question_choice: 'text',
+};
+
+export function displayValueOf(record: Record<string, any>, table?: string): string {
+  const preferred = table ? TABLE_DISPLAY_FIELDS[table] : undefined;
+  for (const field of preferred ? [preferred, ...DISPLAY_FIELDS] : DISPLAY_FIELDS) {
+    const value = fieldValue(record[field]);
+    if (value) {
+      return value;
+    }
+  }
+  return fieldValue(record.sys_id);
+}
+
+export function recordLink(instanceUrl: string, table: string, sysId: string): string {
+  return `${instanceUrl.replace(/\/+$/, '')}/${table}.do?sys_id=${sysId}`;
+}
+
+export function recordReference(instanceUrl: string, table: string, record: Record<string, any>, action: RecordAction): RecordReference {
+  const sysId = fieldValue(record.sys_id);
+  return { table, sys_id: sysId, display_value: displayValueOf(record, table), link: recordLink(instanceUrl, table, sysId), action };
+}
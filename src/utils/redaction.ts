@@ -0,0 +1,37 @@
+export const REDACTED = '[REDACTED]';
+
+const SECRET_KEY_PATTERN = /password|passphrase|secret|token|authorization|api[_-]?key|credential|private[_-]?key/i;
+
+// Script fields (`script`, `client_script`, `script_true`, …) hold whole code bodies: too long for a log line and often embed credentials
+const SCRIPT_KEY_PATTERN = /(^|_)script(_|$)/i;
+
+function redact(value: unknown, replace: (key: string, inner: unknown) => unknown): unknown {
+  if (Array.isArray(value)) {
+    return value.map((inner) => redact(inner, replace));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(Object.entries(value).map(([key, inner]) => {
+      const replaced = inner !== undefined && inner !== '' ? replace(key, inner) : undefined;
+      return [key, replaced !== undefined ? replaced : redact(inner, replace)];
+    }));
+  }
+  return value;
+}
+
+// Replaces the values of password, token, key and other secret-looking fields at any depth
+export function redactSecrets(value: unknown): unknown {
+  return redact(value, (key) => SECRET_KEY_PATTERN.test(key) ? REDACTED : undefined);
+}
+
+// Like redactSecrets, and also reduces script bodies to their length
+export function redactForLog(value: unknown): unknown {
+  return redact(value, (key, inner) => {
+    if (SECRET_KEY_PATTERN.test(key)) {
+      return REDACTED;
+    }
+    if (SCRIPT_KEY_PATTERN.test(key) && typeof inner === 'string') {
+      return `[script, ${inner.length} chars]`;
+    }
+    return undefined;
+  });
+}
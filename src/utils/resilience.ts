@@ -0,0 +1,153 @@
+import { InstanceUnavailableError } from './servicenow-errors.js';
+
+export interface ResilienceOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+  maxConcurrency: number;
+  circuitBreakerThreshold: number;
+  circuitBreakerResetMs: number;
+}
+
+export const DEFAULT_RESILIENCE_OPTIONS: ResilienceOptions = {
+  maxRetries: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 30000,
+  maxConcurrency: 5,
+  circuitBreakerThreshold: 5,
+  circuitBreakerResetMs: 30000,
+};
+
+// Status codes ServiceNow returns while throttling or while a node restarts
+export const TRANSIENT_STATUS_CODES = [429, 502, 503, 504];
+
+const IDEMPOTENT_METHODS = ['get', 'head', 'options', 'put', 'delete'];
+
+/**
+ * Whether a failed request may be sent again. Idempotent methods are retried on
+ * any transient failure; other methods only on 429, which ServiceNow returns
+ * before processing the request.
+ */
+export function isRetryable(method: string | undefined, status: number | undefined): boolean {
+  if (status === 429) {
+    return true;
+  }
+  if (!IDEMPOTENT_METHODS.includes((method || 'get').toLowerCase())) {
+    return false;
+  }
+  // No status means the request never got a response (reset, timeout, DNS)
+  return status === undefined || TRANSIENT_STATUS_CODES.includes(status);
+}
+
+/**
+ * Converts a Retry-After header (delta seconds or HTTP date) to milliseconds.
+ */
+export function parseRetryAfter(value: string | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? undefined : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter, unless the server told us how long to
+ * wait. Returns undefined when that is longer than `maxDelayMs`: the caller
+ * should give up rather than retry early or block for longer than configured.
+ */
+export function computeBackoffDelay(
+  attempt: number,
+  options: Pick<ResilienceOptions, 'baseDelayMs' | 'maxDelayMs'>,
+  retryAfterMs?: number,
+  random: () => number = Math.random
+): number | undefined {
+  if (retryAfterMs !== undefined) {
+    return retryAfterMs <= options.maxDelayMs ? retryAfterMs : undefined;
+  }
+  const ceiling = Math.min(options.maxDelayMs, options.baseDelayMs * 2 ** attempt);
+  return Math.floor(random() * ceiling);
+}
+
+export class ConcurrencyLimiter {
+  private active = 0;
+  private waiting: Array<() => void> = [];
+
+  constructor(private readonly maxConcurrency: number) {}
+
+  async acquire(): Promise<void> {
+    if (this.active < this.maxConcurrency) {
+      this.active++;
+      return;
+    }
+    // The releasing caller hands its slot straight to the next waiter
+    await new Promise<void>((resolve) => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.active--;
+    }
+  }
+}
+
+/**
+ * Opens after `threshold` consecutive failures and rejects requests until
+ * `resetMs` has passed. It then half-opens: exactly one trial request goes
+ * through while the rest are still rejected. The breaker closes if the trial
+ * succeeds and re-opens for another `resetMs` if it fails.
+ */
+export class CircuitBreaker {
+  private consecutiveFailures = 0;
+  private openedAt?: number;
+  private trialInFlight = false;
+
+  constructor(
+    private readonly instanceUrl: string,
+    private readonly threshold: number,
+    private readonly resetMs: number
+  ) {}
+
+  assertAvailable(now: number = Date.now()): void {
+    if (this.openedAt === undefined) {
+      return;
+    }
+    const elapsed = now - this.openedAt;
+    if (elapsed < this.resetMs) {
+      throw new InstanceUnavailableError(this.instanceUrl, this.resetMs - elapsed, this.consecutiveFailures);
+    }
+    // Its outcome decides for everyone; until then the breaker stays open
+    if (this.trialInFlight) {
+      throw new InstanceUnavailableError(this.instanceUrl, this.resetMs, this.consecutiveFailures);
+    }
+    this.trialInFlight = true;
+  }
+
+  recordSuccess(): void {
+    this.consecutiveFailures = 0;
+    this.openedAt = undefined;
+    this.trialInFlight = false;
+  }
+
+  recordFailure(now: number = Date.now()): void {
+    this.consecutiveFailures++;
+    if (this.trialInFlight || this.consecutiveFailures >= this.threshold) {
+      this.openedAt = now;
+    }
+    this.trialInFlight = false;
+  }
+
+  get isOpen(): boolean {
+    return this.openedAt !== undefined;
+  }
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
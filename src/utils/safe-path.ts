@@ -0,0 +1,26 @@
+import path from 'path';
+
+export class UnsafePathError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UnsafePathError';
+  }
+}
+
+/**
+ * Resolves a caller-supplied path against `baseDir`, refusing absolute paths
+ * and anything that would land outside it (`../`, `a/../../b`). Tools take
+ * file names from the model, so they must never reach the rest of the host.
+ */
+export function resolveInside(baseDir: string, relativePath: string, label: string): string {
+  if (path.isAbsolute(relativePath)) {
+    throw new UnsafePathError(`${label} must be relative to ${baseDir}, got the absolute path '${relativePath}'`);
+  }
+  const base = path.resolve(baseDir);
+  const target = path.resolve(base, relativePath);
+  const relative = path.relative(base, target);
+  if (!relative || relative === '..' || relative.startsWith(`..${path.sep}`) || path.isAbsolute(relative)) {
+    throw new UnsafePathError(`${label} '${relativePath}' resolves outside ${baseDir}`);
+  }
+  return target;
+}
@@ -0,0 +1,218 @@
+import axios from 'axios';
+import { ServiceNowError } from '../types/servicenow.js';
+
+export type ServiceNowErrorKind = 'auth' | 'acl' | 'not_found' | 'validation' | 'transient' | 'unknown';
+
+export interface ServiceNowErrorDetails {
+  status?: number;
+  method?: string;
+  table?: string;
+  sysId?: string;
+  field?: string;
+  detail?: string;
+  businessRule?: string;
+}
+
+/**
+ * Base class for failures reported by a ServiceNow instance. Subclasses map to
+ * the way a caller should react: fix credentials, request a role, correct the
+ * input, or simply try again later.
+ */
+export class ServiceNowApiError extends Error {
+  readonly kind: ServiceNowErrorKind = 'unknown';
+  readonly status?: number;
+  readonly method?: string;
+  readonly table?: string;
+  readonly sysId?: string;
+  readonly field?: string;
+  readonly detail?: string;
+  readonly businessRule?: string;
+
+  constructor(message: string, details: ServiceNowErrorDetails = {}) {
+    super(message);
+    this.name = new.target.name;
+    Object.assign(this, details);
+  }
+
+  get suggestion(): string | undefined {
+    return undefined;
+  }
+}
+
+export class ServiceNowAuthError extends ServiceNowApiError {
+  readonly kind = 'auth';
+
+  get suggestion(): string {
+    return 'Check the configured credentials (SERVICENOW_USERNAME/PASSWORD or OAuth client) and that the account is active.';
+  }
+}
+
+export class ServiceNowAclError extends ServiceNowApiError {
+  readonly kind = 'acl';
+
+  get suggestion(): string {
+    return `The integration user lacks a role or ACL${this.table ? ` on '${this.table}'` : ''}. Grant access or use an account with the required role.`;
+  }
+}
+
+export class ServiceNowNotFoundError extends ServiceNowApiError {
+  readonly kind = 'not_found';
+
+  get suggestion(): string {
+    return this.sysId
+      ? `Verify that sys_id ${this.sysId} exists in '${this.table}'. ServiceNow also reports 404 when read ACLs hide the record.`
+      : `Verify the table name${this.table ? ` '${this.table}'` : ''} and that the record exists.`;
+  }
+}
+
+export class ServiceNowValidationError extends ServiceNowApiError {
+  readonly kind = 'validation';
+
+  get suggestion(): string {
+    if (this.businessRule) {
+      return `Business Rule '${this.businessRule}' rejected the change; adjust the field values to satisfy it.`;
+    }
+    if (this.field) {
+      return `Correct the value of '${this.field}'${this.table ? ` on '${this.table}'` : ''} and try again.`;
+    }
+    return 'Correct the request data and try again.';
+  }
+}
+
+export class ServiceNowTransientError extends ServiceNowApiError {
+  readonly kind = 'transient';
+
+  get suggestion(): string {
+    return 'The instance is busy or restarting. Wait a moment and retry the same call.';
+  }
+}
+
+export class InstanceUnavailableError extends ServiceNowTransientError {
+  constructor(
+    public readonly instanceUrl: string,
+    public readonly retryAfterMs: number,
+    public readonly consecutiveFailures: number
+  ) {
+    super(
+      `ServiceNow instance ${instanceUrl} is unavailable: ${consecutiveFailures} consecutive requests failed. ` +
+      `Requests are paused for ${Math.ceil(retryAfterMs / 1000)}s before the instance is tried again.`
+    );
+  }
+
+  get suggestion(): string {
+    return `Retry in ${Math.ceil(this.retryAfterMs / 1000)}s, or check the instance status page if the outage persists.`;
+  }
+}
+
+// Matches /api/now/table/<table>[/<sys_id>] in request URLs
+const TABLE_URL_PATTERN = /\/api\/now\/table\/([^/?]+)(?:\/([0-9a-f]{32}))?/;
+
+function describeFailure(error: ServiceNowError | undefined): { message?: string; detail?: string } {
+  if (!error || typeof error !== 'object' || !error.error) {
+    return {};
+  }
+  return { message: error.error.message, detail: error.error.detail };
+}
+
+/**
+ * Converts an axios failure into the matching ServiceNowApiError subclass by
+ * inspecting the HTTP status and the `{ error: { message, detail } }` body
+ * ServiceNow returns. Errors that are not HTTP failures are returned untouched.
+ */
+export function toServiceNowError(error: unknown): Error {
+  if (error instanceof ServiceNowApiError || !axios.isAxiosError(error)) {
+    return error as Error;
+  }
+
+  const status = error.response?.status;
+  const url = error.config?.url || '';
+  const urlMatch = url.match(TABLE_URL_PATTERN);
+  const { message: snMessage, detail } = describeFailure(error.response?.data);
+  const text = [snMessage, detail].filter(Boolean).join(' ');
+
+  const details: ServiceNowErrorDetails = {
+    status,
+    method: error.config?.method?.toUpperCase(),
+    table: urlMatch?.[1],
+    sysId: urlMatch?.[2],
+    detail,
+  };
+
+  const businessRule = text.match(/aborted by Business Rule '([^'^]+)/)?.[1];
+  if (businessRule) {
+    return new ServiceNowValidationError(
+      `Business Rule '${businessRule}' aborted the ${details.method || 'request'} on '${details.table}'`,
+      { ...details, businessRule }
+    );
+  }
+
+  const mandatoryFields = text.match(/Data Policy Exception:?\s*(?:The following fields are mandatory:)?\s*(.+)/i)?.[1];
+  if (mandatoryFields) {
+    return new ServiceNowValidationError(`Data policy rejected the record: ${mandatoryFields.trim()}`, {
+      ...details,
+      field: mandatoryFields.split(',')[0].trim(),
+    });
+  }
+
+  const invalidField = text.match(/(?:Invalid|Unknown) field:?\s*'?([\w.]+)/i)?.[1];
+  if (invalidField) {
+    return new ServiceNowValidationError(`Invalid field '${invalidField}'${details.table ? ` on '${details.table}'` : ''}`, {
+      ...details,
+      field: invalidField,
+    });
+  }
+
+  const invalidTable = text.match(/Invalid table:?\s*'?(\w+)/i)?.[1];
+  if (invalidTable) {
+    return new ServiceNowNotFoundError(`Table '${invalidTable}' does not exist`, { ...details, table: invalidTable });
+  }
+
+  const message = snMessage || error.message;
+  if (status === undefined || status === 429 || status >= 500) {
+    return new ServiceNowTransientError(
+      status ? `ServiceNow returned HTTP ${status}: ${message}` : `Could not reach ServiceNow: ${error.message}`,
+      details
+    );
+  }
+  if (status === 401) {
+    return new ServiceNowAuthError(`Authentication failed: ${message}`, details);
+  }
+  if (status === 403) {
+    return new ServiceNowAclError(`Access denied${details.table ? ` on '${details.table}'` : ''}: ${detail || message}`, details);
+  }
+  if (status === 404) {
+    return new ServiceNowNotFoundError(
+      details.sysId ? `Record ${details.sysId} not found in '${details.table}'` : `Not found: ${message}`,
+      details
+    );
+  }
+  if (status === 400 || status === 409 || status === 422) {
+    return new ServiceNowValidationError(`Invalid request: ${detail || message}`, details);
+  }
+  return new ServiceNowApiError(`ServiceNow returned HTTP ${status}: ${message}`, details);
+}
+
+/**
+ * Renders an error as tool output text: the message plus whatever context
+ * ServiceNow gave us and a hint on what to do next.
+ */
+export function describeError(error: unknown): string {
+  if (!(error instanceof ServiceNowApiError)) {
+    return (error as Error).message;
+  }
+
+  const lines = [error.message];
+  if (error.table) {
+    lines.push(`Table: ${error.table}`);
+  }
+  if (error.field) {
+    lines.push(`Field: ${error.field}`);
+  }
+  if (error.detail && !error.message.includes(error.detail)) {
+    lines.push(`Detail: ${error.detail}`);
+  }
+  if (error.suggestion) {
+    lines.push(`Suggestion: ${error.suggestion}`);
+  }
+  return lines.join('\n');
+}
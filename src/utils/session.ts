@@ -0,0 +1,73 @@
+import { v4 as uuidv4 } from 'uuid';
+
+// What a session has chosen on one instance profile
+export interface InstanceSessionState {
+  // Stamped on records the session creates
+  updateSetId?: string;
+  // Application scope for new artifacts; unset uses the profile's default scope
+  scope?: string;
+}
+
+// Plain-object view of a session, returned as structured content by get-session
+export interface SessionSnapshot {
+  id: string;
+  started_at: string;
+  principal?: string;
+  client?: string;
+  instance?: string;
+  dry_run: boolean;
+  instances: Record<string, { update_set_id?: string; scope?: string }>;
+}
+
+/**
+ * State of one MCP session: a stdio process, or one HTTP connection. It is
+ * passed to every tool call through the call context, so two clients (or two
+ * conversations) never see each other's update set, scope or dry-run setting.
+ */
+export class Session {
+  readonly id = uuidv4();
+  readonly startedAt = new Date();
+  // `name/version` from the client's initialize request
+  client?: string;
+  // Instance for calls that don't name one; unset follows the configured default
+  instance?: string;
+  // Mutating tools describe what they would do instead of doing it
+  dryRun = false;
+  private instances = new Map<string, InstanceSessionState>();
+
+  // `principal` names whoever authenticated the session: the holder of the HTTP
+  // bearer token it presented. Unset over stdio.
+  constructor(readonly principal?: string) {}
+
+  // The session's choices on `instance`, created on first use
+  state(instance: string): InstanceSessionState {
+    let state = this.instances.get(instance);
+    if (!state) {
+      state = {};
+      this.instances.set(instance, state);
+    }
+    return state;
+  }
+
+  // Forgets everything chosen so far; the principal and client identity stay
+  reset(): void {
+    this.instance = undefined;
+    this.dryRun = false;
+    this.instances.clear();
+  }
+
+  snapshot(): SessionSnapshot {
+    const instances = Object.fromEntries([...this.instances.entries()]
+      .filter(([, state]) => state.updateSetId || state.scope)
+      .map(([name, state]) => [name, { update_set_id: state.updateSetId, scope: state.scope }]));
+    return {
+      id: this.id,
+      started_at: this.startedAt.toISOString(),
+      principal: this.principal,
+      client: this.client,
+      instance: this.instance,
+      dry_run: this.dryRun,
+      instances,
+    };
+  }
+}
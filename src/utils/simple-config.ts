@@ -1,62 +1,254 @@
 import dotenv from 'dotenv';
+import { DEFAULT_RESILIENCE_OPTIONS, ResilienceOptions } from './resilience.js';
+import { CassetteOptions } from './cassette.js';
+import { AuditLogOptions } from './audit-log.js';
+import { LOG_FORMATS, LOG_LEVELS, LoggingOptions } from './logger.js';
+import { ServiceNowConfig } from '../types/servicenow.js';
+import {
+  ACCESS_MODES,
+  AccessMode,
+  InstanceProfile,
+  InstanceProfiles,
+  ProfileDefaults,
+  loadInstanceProfiles,
+  validateProfileAuth
+} from './instance-profiles.js';
 
 dotenv.config();
 
 export interface SimpleConfig {
+  // Settings shared by every instance profile
   servicenow: {
-    instanceUrl: string;
-    username?: string;
-    password?: string;
-    clientId?: string;
-    clientSecret?: string;
-    authType: 'basic' | 'oauth2';
-    updateSetPrefix: string;
-    defaultScope: string;
-  };
-  logging: {
-    level: 'error' | 'warn' | 'info' | 'debug';
+    updateSetExportDir: string;
+    // Directory plan-manifest and apply-manifest read manifest files from
+    manifestDir: string;
+    timeoutMs: number;
+    resilience: ResilienceOptions;
+    protectedTables: string[];
+    // Default for the per-call `idempotent` argument of create tools
+    idempotent: boolean;
+    // JSONL file every session change is appended to; empty to keep the journal in memory only
+    journalFile: string;
+    // Send each tool call's correlation ID to the instance as X-Request-Id
+    requestIdHeader: boolean;
+    cassette?: CassetteOptions;
   };
+  instances: InstanceProfiles;
+  logging: LoggingOptions;
+  audit: AuditLogOptions;
   server: {
     name: string;
     version: string;
   };
+  transport: TransportConfig;
 }
 
-export function getConfig(): SimpleConfig {
+export const TRANSPORT_TYPES = ['stdio', 'http'] as const;
+export type TransportType = typeof TRANSPORT_TYPES[number];
+
+export interface TransportConfig {
+  // stdio serves the one client that spawned the process; http serves many over SSE
+  type: TransportType;
+  host: string;
+  port: number;
+  // Bearer tokens HTTP clients authenticate with, each naming who holds it
+  authTokens: AuthToken[];
+}
+
+export interface AuthToken {
+  // Recorded in the audit log and change journal for every call made with the token
+  principal: string;
+  token: string;
+}
+
+// Tables the generic update-record/delete-record tools and manifests refuse to touch
+const DEFAULT_PROTECTED_TABLES = [
+  'sys_user',
+  'sys_user_role',
+  'sys_user_has_role',
+  'sys_properties',
+  'sys_db_object',
+  'sys_dictionary',
+  'sys_security_acl',
+];
+
+function numberFromEnv(name: string, fallback: number): number {
+  const value = process.env[name];
+  if (value === undefined || value === '') {
+    return fallback;
+  }
+  const parsed = Number(value);
+  if (Number.isNaN(parsed) || parsed < 0) {
+    throw new Error(`${name} must be a non-negative number`);
+  }
+  return parsed;
+}
+
+function oneOf<T extends string>(name: string, allowed: readonly T[], fallback: T): T {
+  const value = process.env[name] || fallback;
+  if (!allowed.includes(value as T)) {
+    throw new Error(`${name} must be one of ${allowed.join(', ')}`);
+  }
+  return value as T;
+}
+
+// Profile built from SERVICENOW_* variables when no profiles file is present
+const ENV_PROFILE_NAME = 'default';
+
+function getCassette(): CassetteOptions | undefined {
+  const cassettePath = process.env.SERVICENOW_CASSETTE;
+  if (!cassettePath) {
+    return undefined;
+  }
+  const mode = process.env.SERVICENOW_CASSETTE_MODE || 'replay';
+  if (mode !== 'record' && mode !== 'replay') {
+    throw new Error('SERVICENOW_CASSETTE_MODE must be record or replay');
+  }
+  return { path: cassettePath, mode };
+}
+
+function getAccessMode(): AccessMode {
+  const mode = process.env.SERVICENOW_MODE || 'full';
+  if (!ACCESS_MODES.includes(mode as AccessMode)) {
+    throw new Error(`SERVICENOW_MODE must be one of ${ACCESS_MODES.join(', ')}`);
+  }
+  return mode as AccessMode;
+}
+
+function getEnvProfile(defaults: ProfileDefaults): InstanceProfile | undefined {
   const instanceUrl = process.env.SERVICENOW_INSTANCE_URL;
   if (!instanceUrl) {
-    throw new Error('SERVICENOW_INSTANCE_URL is required');
+    return undefined;
   }
 
-  const authType = process.env.SERVICENOW_AUTH_TYPE === 'oauth2' ? 'oauth2' : 'basic';
-  
-  if (authType === 'basic') {
-    if (!process.env.SERVICENOW_USERNAME || !process.env.SERVICENOW_PASSWORD) {
-      throw new Error('SERVICENOW_USERNAME and SERVICENOW_PASSWORD are required for basic auth');
-    }
-  } else {
-    if (!process.env.SERVICENOW_CLIENT_ID || !process.env.SERVICENOW_CLIENT_SECRET) {
-      throw new Error('SERVICENOW_CLIENT_ID and SERVICENOW_CLIENT_SECRET are required for oauth2');
+  const profile: InstanceProfile = {
+    name: ENV_PROFILE_NAME,
+    instanceUrl,
+    username: process.env.SERVICENOW_USERNAME,
+    password: process.env.SERVICENOW_PASSWORD,
+    clientId: process.env.SERVICENOW_CLIENT_ID,
+    clientSecret: process.env.SERVICENOW_CLIENT_SECRET,
+    authType: process.env.SERVICENOW_AUTH_TYPE === 'oauth2' ? 'oauth2' : 'basic',
+    ...defaults,
+  };
+  validateProfileAuth(profile, 'SERVICENOW_* environment');
+  return profile;
+}
+
+function getInstanceProfiles(): InstanceProfiles {
+  const defaults: ProfileDefaults = {
+    defaultScope: process.env.DEFAULT_APPLICATION_SCOPE || 'global',
+    updateSetPrefix: process.env.UPDATE_SET_PREFIX || 'MCP_',
+    mode: getAccessMode(),
+  };
+  const fileProfiles = loadInstanceProfiles(process.env.SERVICENOW_INSTANCES_FILE ?? 'servicenow-instances.json', defaults);
+  const envProfile = getEnvProfile(defaults);
+
+  if (!fileProfiles && !envProfile) {
+    throw new Error('SERVICENOW_INSTANCE_URL is required when no instance profiles file is configured');
+  }
+
+  const instances: InstanceProfiles = fileProfiles ?? { profiles: {}, defaultInstance: ENV_PROFILE_NAME };
+  if (envProfile && !instances.profiles[ENV_PROFILE_NAME]) {
+    instances.profiles[ENV_PROFILE_NAME] = envProfile;
+  }
+
+  const requestedDefault = process.env.SERVICENOW_DEFAULT_INSTANCE;
+  if (requestedDefault) {
+    if (!instances.profiles[requestedDefault]) {
+      throw new Error(`SERVICENOW_DEFAULT_INSTANCE '${requestedDefault}' is not a configured instance`);
     }
+    instances.defaultInstance = requestedDefault;
   }
+  return instances;
+}
 
+export function getConfig(): SimpleConfig {
   return {
     servicenow: {
-      instanceUrl,
-      username: process.env.SERVICENOW_USERNAME,
-      password: process.env.SERVICENOW_PASSWORD,
-      clientId: process.env.SERVICENOW_CLIENT_ID,
-      clientSecret: process.env.SERVICENOW_CLIENT_SECRET,
-      authType,
-      updateSetPrefix: process.env.UPDATE_SET_PREFIX || 'MCP_',
-      defaultScope: process.env.DEFAULT_APPLICATION_SCOPE || 'global',
+      updateSetExportDir: process.env.UPDATE_SET_EXPORT_DIR || 'update-sets',
+      manifestDir: process.env.MANIFEST_DIR || 'manifests',
+      timeoutMs: numberFromEnv('SERVICENOW_TIMEOUT_MS', 30000),
+      resilience: {
+        maxRetries: numberFromEnv('SERVICENOW_MAX_RETRIES', DEFAULT_RESILIENCE_OPTIONS.maxRetries),
+        baseDelayMs: numberFromEnv('SERVICENOW_RETRY_BASE_DELAY_MS', DEFAULT_RESILIENCE_OPTIONS.baseDelayMs),
+        maxDelayMs: numberFromEnv('SERVICENOW_RETRY_MAX_DELAY_MS', DEFAULT_RESILIENCE_OPTIONS.maxDelayMs),
+        maxConcurrency: Math.max(1, numberFromEnv('SERVICENOW_MAX_CONCURRENCY', DEFAULT_RESILIENCE_OPTIONS.maxConcurrency)),
+        circuitBreakerThreshold: Math.max(1, numberFromEnv('SERVICENOW_CIRCUIT_BREAKER_THRESHOLD', DEFAULT_RESILIENCE_OPTIONS.circuitBreakerThreshold)),
+        circuitBreakerResetMs: numberFromEnv('SERVICENOW_CIRCUIT_BREAKER_RESET_MS', DEFAULT_RESILIENCE_OPTIONS.circuitBreakerResetMs),
+      },
+      protectedTables: process.env.PROTECTED_TABLES !== undefined
+        ? process.env.PROTECTED_TABLES.split(',').map((table) => table.trim()).filter(Boolean)
+        : DEFAULT_PROTECTED_TABLES,
+      idempotent: process.env.SERVICENOW_IDEMPOTENT === 'true',
+      journalFile: process.env.SERVICENOW_JOURNAL_FILE ?? 'logs/session-changes.jsonl',
+      requestIdHeader: process.env.SERVICENOW_REQUEST_ID_HEADER === 'true',
+      cassette: getCassette(),
     },
+    instances: getInstanceProfiles(),
     logging: {
-      level: (process.env.LOG_LEVEL as any) || 'info',
+      level: oneOf('LOG_LEVEL', LOG_LEVELS, 'info'),
+      format: oneOf('LOG_FORMAT', LOG_FORMATS, 'text'),
+      file: process.env.LOG_FILE ?? '',
+      maxBytes: numberFromEnv('LOG_MAX_BYTES', 10 * 1024 * 1024),
+      maxFiles: Math.max(1, numberFromEnv('LOG_MAX_FILES', 5)),
+    },
+    audit: {
+      filePath: process.env.AUDIT_LOG_FILE ?? 'logs/audit.jsonl',
+      maxBytes: numberFromEnv('AUDIT_LOG_MAX_BYTES', 10 * 1024 * 1024),
+      maxFiles: Math.max(1, numberFromEnv('AUDIT_LOG_MAX_FILES', 10)),
     },
     server: {
       name: process.env.MCP_SERVER_NAME || 'servicenow-nlp',
       version: process.env.MCP_SERVER_VERSION || '1.0.0',
     },
+    transport: getTransport(),
+  };
+}
+
+// `principal:token`; the token itself may contain colons
+function parseAuthToken(entry: string): AuthToken {
+  const separator = entry.indexOf(':');
+  const principal = entry.slice(0, Math.max(separator, 0)).trim();
+  const token = entry.slice(separator + 1).trim();
+  if (separator < 0 || !principal || !token) {
+    throw new Error('MCP_AUTH_TOKENS entries must be <principal>:<token>, e.g. alice:s3cret');
+  }
+  return { principal, token };
+}
+
+function getTransport(): TransportConfig {
+  const type = oneOf('MCP_TRANSPORT', TRANSPORT_TYPES, 'stdio');
+  const authTokens = (process.env.MCP_AUTH_TOKENS ?? '').split(',').map((entry) => entry.trim()).filter(Boolean).map(parseAuthToken);
+  if (type === 'http' && authTokens.length === 0) {
+    throw new Error('MCP_AUTH_TOKENS must list at least one bearer token when MCP_TRANSPORT is http');
+  }
+  return {
+    type,
+    host: process.env.MCP_HTTP_HOST || '127.0.0.1',
+    port: numberFromEnv('MCP_HTTP_PORT', 3000),
+    authTokens,
+  };
+}
+
+/**
+ * Client settings for one instance profile. `{instance}` in the cassette path
+ * gives each profile its own recording.
+ */
+export function getServiceNowConfig(config: SimpleConfig, profile: InstanceProfile): ServiceNowConfig {
+  const cassette = config.servicenow.cassette;
+  return {
+    instanceUrl: profile.instanceUrl,
+    username: profile.username,
+    password: profile.password,
+    clientId: profile.clientId,
+    clientSecret: profile.clientSecret,
+    authType: profile.authType,
+    updateSetPrefix: profile.updateSetPrefix,
+    defaultScope: profile.defaultScope,
+    timeoutMs: config.servicenow.timeoutMs,
+    requestIdHeader: config.servicenow.requestIdHeader,
+    resilience: config.servicenow.resilience,
+    cassette: cassette && { ...cassette, path: cassette.path.replace('{instance}', profile.name) },
   };
-}
\ No newline at end of file
+}
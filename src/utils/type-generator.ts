@@ -0,0 +1,110 @@
+import type { TableColumn, TableSchema } from '../services/table-schema.js';
+
+export interface TypeGeneratorOptions {
+  // Named in the header comment, e.g. the instance profile the schemas came from
+  source?: string;
+}
+
+const IDENTIFIER = /^[A-Za-z_$][\w$]*$/;
+
+// incident -> Incident, sys_user -> SysUser, x_acme_request -> XAcmeRequest
+export function interfaceName(table: string): string {
+  const name = table.split(/[^A-Za-z0-9]+/).filter(Boolean).map((part) => part[0].toUpperCase() + part.slice(1)).join('');
+  return /^\d/.test(name) ? `Table${name}` : name;
+}
+
+function quoteLiteral(value: string): string {
+  return `'${value.replace(/\\/g, '\\\\').replace(/'/g, "\\'")}'`;
+}
+
+/**
+ * TypeScript type of a column as the Table API returns it without display
+ * values: every value is a string, references may carry a link, and choice
+ * columns are limited to their choice values.
+ */
+export function columnType(column: TableColumn): string {
+  if (column.reference) {
+    return 'string | ServiceNowReference';
+  }
+  if (column.choices.length > 0) {
+    return [...new Set(column.choices.map((choice) => choice.value))].map(quoteLiteral).join(' | ');
+  }
+  return 'string';
+}
+
+function columnComment(column: TableColumn): string {
+  const notes = [
+    column.reference ? `reference to ${column.reference}` : column.type,
+    column.mandatory ? 'mandatory' : undefined,
+    column.readOnly ? 'read-only' : undefined,
+    column.maxLength ? `max length ${column.maxLength}` : undefined,
+  ].filter(Boolean);
+  const choices = column.choices.length > 0
+    ? `; ${column.choices.map((choice) => `${choice.value} = ${choice.label}`).join(', ')}`
+    : '';
+  return `${column.label} (${notes.join(', ')})${choices}`.replace(/\*\//g, '*\\/');
+}
+
+function propertyName(name: string): string {
+  return IDENTIFIER.test(name) ? name : quoteLiteral(name);
+}
+
+/**
+ * Emits one interface per table. A table whose parent is also in `schemas`
+ * extends the parent's interface and only declares its own columns, plus
+ * inherited columns it narrows differently (such as incident.state choices),
+ * which are omitted from the parent type first.
+ */
+export function generateTableTypes(schemas: TableSchema[], options: TypeGeneratorOptions = {}): string {
+  const byName = new Map(schemas.map((schema) => [schema.name, schema]));
+  // Parents before children, so the file reads top-down
+  const ordered = [...byName.values()].sort((a, b) => a.hierarchy.length - b.hierarchy.length || a.name.localeCompare(b.name));
+
+  const blocks = ordered.map((schema) => {
+    const parent = schema.hierarchy[1] ? byName.get(schema.hierarchy[1]) : undefined;
+    const parentTypes = new Map((parent?.columns ?? []).map((column) => [column.name, columnType(column)]));
+
+    const columns = schema.columns.filter((column) => !parentTypes.has(column.name) || parentTypes.get(column.name) !== columnType(column));
+    const narrowed = columns.filter((column) => parentTypes.has(column.name)).map((column) => quoteLiteral(column.name));
+
+    let heritage = '';
+    if (parent) {
+      const parentName = interfaceName(parent.name);
+      heritage = ` extends ${narrowed.length > 0 ? `Omit<${parentName}, ${narrowed.join(' | ')}>` : parentName}`;
+    }
+
+    const properties = columns.flatMap((column) => [
+      `  /** ${columnComment(column)} */`,
+      // Only sys_id is always present; sysparm_fields can leave out anything else
+      `  ${propertyName(column.name)}${column.name === 'sys_id' ? '' : '?'}: ${columnType(column)};`,
+    ]);
+
+    return [
+      `/** ${schema.label} (${schema.name}) */`,
+      `export interface ${interfaceName(schema.name)}${heritage} {`,
+      ...properties,
+      '}',
+    ].join('\n');
+  });
+
+  const tableMap = [
+    '/** Record type for each generated table, keyed by table name */',
+    'export interface ServiceNowTables {',
+    ...ordered.map((schema) => `  ${propertyName(schema.name)}: ${interfaceName(schema.name)};`),
+    '}',
+  ].join('\n');
+
+  return [
+    `// Generated by \`npm run generate-types\`${options.source ? ` from ${options.source}` : ''}. Do not edit by hand.`,
+    '',
+    '/** A reference field as returned when sysparm_exclude_reference_link is not set */',
+    'export interface ServiceNowReference {',
+    '  value: string;',
+    '  link: string;',
+    '}',
+    '',
+    ...blocks.flatMap((block) => [block, '']),
+    tableMap,
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,63 @@
+export type PreviewProblemCategory =
+  | 'missing_reference'
+  | 'newer_local_update'
+  | 'uncommitted_update'
+  | 'application_scope'
+  | 'other';
+
+// What the "Accept remote update" / "Skip remote update" UI actions set: the problem's status,
+// and the proposed_action of the remote update (sys_update_xml) it is about, which the commit obeys
+export const PREVIEW_PROBLEM_RESOLUTIONS = {
+  accept: { status: 'ignored', proposedAction: 'commit' },
+  skip: { status: 'skipped', proposedAction: 'skip' },
+} as const;
+
+const CATEGORY_LABELS: Record<PreviewProblemCategory, string> = {
+  missing_reference: 'Missing reference',
+  newer_local_update: 'Newer local update exists',
+  uncommitted_update: 'Uncommitted local update',
+  application_scope: 'Application scope',
+  other: 'Other',
+};
+
+/**
+ * sys_update_preview_problem only distinguishes errors from warnings, so the
+ * kind of collision is recovered from the description ServiceNow writes.
+ */
+export function classifyPreviewProblem(description: string): PreviewProblemCategory {
+  if (/could not find a record|missing (record|reference)|does not exist/i.test(description)) {
+    return 'missing_reference';
+  }
+  if (/newer/i.test(description)) {
+    return 'newer_local_update';
+  }
+  if (/uncommitted/i.test(description)) {
+    return 'uncommitted_update';
+  }
+  if (/application|scope/i.test(description)) {
+    return 'application_scope';
+  }
+  return 'other';
+}
+
+export function isProblemResolved(problem: { status?: string }): boolean {
+  return Boolean(problem.status);
+}
+
+export function formatPreviewProblems(problems: any[]): string {
+  const groups = new Map<PreviewProblemCategory, any[]>();
+  for (const problem of problems) {
+    const category = classifyPreviewProblem(problem.description ?? '');
+    groups.set(category, [...(groups.get(category) ?? []), problem]);
+  }
+
+  return [...groups.entries()]
+    .map(([category, members]) => [
+      `${CATEGORY_LABELS[category]} (${members.length}):`,
+      ...members.map((problem) =>
+        `• [${problem.type}${isProblemResolved(problem) ? `, ${problem.status}` : ''}] ${problem.description}\n` +
+        `  Problem ID: ${problem.sys_id}`
+      ),
+    ].join('\n'))
+    .join('\n\n');
+}
@@ -0,0 +1,154 @@
+import { v4 as uuidv4 } from 'uuid';
+import { fieldValue } from './record-diff.js';
+
+// sys_update_xml columns carried in an exported update set
+export const UPDATE_XML_EXPORT_FIELDS = [
+  'action',
+  'application',
+  'category',
+  'comments',
+  'name',
+  'payload',
+  'replace_on_upgrade',
+  'sys_created_by',
+  'sys_created_on',
+  'sys_id',
+  'sys_updated_by',
+  'sys_updated_on',
+  'table',
+  'target_name',
+  'type',
+  'update_domain',
+  'update_guid',
+  'update_guid_history',
+  'view',
+];
+
+export function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&apos;');
+}
+
+// ServiceNow sys_ids are 32 lowercase hex characters
+export function generateSysId(): string {
+  return uuidv4().replace(/-/g, '');
+}
+
+function element(name: string, value: any): string {
+  const raw = fieldValue(value);
+  const displayValue = value && typeof value === 'object' && value.display_value !== undefined
+    ? ` display_value="${escapeXml(String(value.display_value))}"`
+    : '';
+  return raw === '' && !displayValue ? `<${name}/>` : `<${name}${displayValue}>${escapeXml(raw)}</${name}>`;
+}
+
+function formatUnloadDate(date: Date): string {
+  return date.toISOString().replace('T', ' ').replace(/\.\d+Z$/, '');
+}
+
+/**
+ * Builds the `<unload>` document ServiceNow produces for "Export to XML" on an
+ * update set: one sys_remote_update_set followed by its sys_update_xml rows.
+ * The result can be imported on another instance via "Import Update Set from XML".
+ */
+export function buildUpdateSetXml(updateSet: any, updates: any[], now: Date = new Date()): string {
+  const remoteSysId = generateSysId();
+  const unloadDate = formatUnloadDate(now);
+
+  const remoteUpdateSet = [
+    '<sys_remote_update_set action="INSERT_OR_UPDATE">',
+    element('application', updateSet.application),
+    element('application_name', updateSet.application?.display_value ?? ''),
+    element('application_scope', updateSet.application_scope ?? ''),
+    element('application_version', updateSet.application_version ?? ''),
+    element('collisions', ''),
+    element('commit_date', ''),
+    element('deleted', ''),
+    element('description', updateSet.description),
+    element('inserted', ''),
+    element('name', updateSet.name),
+    element('origin_sys_id', ''),
+    element('parent', ''),
+    element('release_date', updateSet.release_date ?? ''),
+    element('remote_base_update_set', ''),
+    element('remote_parent_id', ''),
+    element('remote_sys_id', updateSet.sys_id),
+    element('state', 'loaded'),
+    element('summary', ''),
+    element('sys_class_name', 'sys_remote_update_set'),
+    element('sys_created_by', updateSet.sys_created_by),
+    element('sys_created_on', updateSet.sys_created_on),
+    element('sys_id', remoteSysId),
+    element('sys_mod_count', '0'),
+    element('sys_updated_by', updateSet.sys_updated_by),
+    element('sys_updated_on', updateSet.sys_updated_on),
+    element('update_set', ''),
+    element('update_source', ''),
+    element('updated', ''),
+    '</sys_remote_update_set>',
+  ];
+
+  const updateXml = updates.map((update) => [
+    '<sys_update_xml action="INSERT_OR_UPDATE">',
+    ...UPDATE_XML_EXPORT_FIELDS.map((field) => element(field, update[field])),
+    element('remote_update_set', { value: remoteSysId, display_value: fieldValue(updateSet.name) }),
+    element('update_set', ''),
+    '</sys_update_xml>',
+  ].join('\n'));
+
+  // One element per line keeps exports readable when diffed in source control
+  return [
+    `<?xml version="1.0" encoding="UTF-8"?><unload unload_date="${unloadDate}">`,
+    remoteUpdateSet.join('\n'),
+    ...updateXml,
+    '</unload>',
+    '',
+  ].join('\n');
+}
+
+export interface ParsedUpdateSet {
+  updateSet: Record<string, string>;
+  updates: Record<string, string>[];
+}
+
+export function unescapeXml(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&#(\d+);/g, (_match, code) => String.fromCharCode(Number(code)))
+    .replace(/&amp;/g, '&');
+}
+
+function parseFields(body: string): Record<string, string> {
+  const fields: Record<string, string> = {};
+  const fieldPattern = /<(\w+)(?:\s[^>]*?)?(?:\/>|>([\s\S]*?)<\/\1>)/g;
+  for (const match of body.matchAll(fieldPattern)) {
+    const content = match[2] ?? '';
+    const cdata = /^<!\[CDATA\[([\s\S]*)\]\]>$/.exec(content);
+    fields[match[1]] = cdata ? cdata[1] : unescapeXml(content);
+  }
+  return fields;
+}
+
+/**
+ * Reads an `<unload>` document produced by buildUpdateSetXml or by ServiceNow's
+ * own "Export to XML". Only the raw field values are kept; display values and
+ * the exporting instance's remote_update_set pointers are dropped.
+ */
+export function parseUpdateSetXml(xml: string): ParsedUpdateSet {
+  const remoteMatch = /<sys_remote_update_set\b[^>]*>([\s\S]*?)<\/sys_remote_update_set>/.exec(xml);
+  if (!remoteMatch) {
+    throw new Error('XML does not contain a sys_remote_update_set element; is this an exported update set?');
+  }
+
+  const updates = [...xml.matchAll(/<sys_update_xml\b[^>]*>([\s\S]*?)<\/sys_update_xml>/g)]
+    .map((match) => parseFields(match[1]));
+
+  return { updateSet: parseFields(remoteMatch[1]), updates };
+}